@@ -0,0 +1,249 @@
+// components/AnalyticsDashboard.tsx
+import React, { useEffect, useState } from 'react';
+import { analyticsCsvUrl, fetchAnalytics } from '../lib/api';
+import { AnalyticsFilter, AnalyticsReport, ReportSection } from '../lib/analytics';
+import { Stage } from '../lib/types';
+import BarChart from './BarChart';
+import ThroughputChart from './ThroughputChart';
+
+interface AnalyticsDashboardProps {
+  stages: Stage[];
+  teams: string[];
+  colors: Record<string, string>;
+  // Reloads the report whenever the pipeline changes.
+  revision: number;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px',
+  borderRadius: '4px',
+  border: '1px solid #ccc',
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderBottom: '1px solid #eee',
+  textAlign: 'left',
+};
+
+const percent = (value: number | null) => (value === null ? '–' : `${Math.round(value * 100)}%`);
+const days = (value: number | null) => (value === null ? '–' : `${value.toFixed(1)} d`);
+
+// Dates for the range inputs, defaulting to the last 90 days.
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+const daysAgo = (n: number) => isoDate(new Date(Date.now() - n * 24 * 60 * 60 * 1000));
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
+  stages,
+  teams,
+  colors,
+  revision,
+}) => {
+  const [from, setFrom] = useState(daysAgo(90));
+  const [to, setTo] = useState(isoDate(new Date()));
+  const [team, setTeam] = useState('');
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [error, setError] = useState('');
+
+  const filter: AnalyticsFilter = {
+    ...(from ? { from } : {}),
+    ...(to ? { to } : {}),
+    ...(team ? { team } : {}),
+  };
+
+  useEffect(() => {
+    fetchAnalytics(filter)
+      .then((loaded) => {
+        setReport(loaded);
+        setError('');
+      })
+      .catch((e) => setError(e.message));
+  }, [from, to, team, revision]);
+
+  const section = (title: string, name: ReportSection, body: React.ReactNode) => (
+    <div style={{ marginBottom: '25px' }}>
+      <div style={{ display: 'flex', alignItems: 'baseline', gap: '10px' }}>
+        <h3 style={{ margin: '0 0 10px 0' }}>{title}</h3>
+        <a href={analyticsCsvUrl(filter, name)}>CSV</a>
+      </div>
+      {body}
+    </div>
+  );
+
+  const pipeline = stages.filter((stage) => !stage.terminal).map((stage) => stage.name);
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginBottom: '20px' }}>
+        <label>From</label>
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          style={inputStyle}
+        />
+        <label>To</label>
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} style={inputStyle} />
+        <label>Team</label>
+        <select value={team} onChange={(e) => setTeam(e.target.value)} style={inputStyle}>
+          <option value="">All teams</option>
+          {teams.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+      {error && <div style={{ color: '#e74c3c', marginBottom: '10px' }}>{error}</div>}
+      {!report ? (
+        <div style={{ color: '#666' }}>Loading analytics…</div>
+      ) : (
+        <>
+          {section(
+            'Funnel',
+            'funnel',
+            <>
+              <BarChart
+                bars={report.funnel.map((row) => ({
+                  label: row.stage,
+                  value: row.entered,
+                  color: colors[row.stage],
+                }))}
+              />
+              <div style={{ color: '#666', marginTop: '5px' }}>
+                {report.funnel
+                  .map((row, i) =>
+                    row.conversion === null
+                      ? ''
+                      : `${row.stage} → ${report.funnel[i + 1].stage}: ${percent(row.conversion)}`
+                  )
+                  .filter((text) => text !== '')
+                  .join(' · ')}
+              </div>
+            </>
+          )}
+          {section(
+            'Time in stage',
+            'timeInStage',
+            <table style={{ borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={cellStyle}>Stage</th>
+                  <th style={cellStyle}>Stays</th>
+                  <th style={cellStyle}>Average</th>
+                  <th style={cellStyle}>Median</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.timeInStage.map((row) => (
+                  <tr key={row.stage}>
+                    <td style={cellStyle}>{row.stage}</td>
+                    <td style={cellStyle}>{row.stays}</td>
+                    <td style={cellStyle}>{days(row.averageDays)}</td>
+                    <td style={cellStyle}>{days(row.medianDays)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {section(
+            'Weekly throughput',
+            'throughput',
+            <ThroughputChart
+              weeks={report.throughput}
+              stages={stages.map((stage) => stage.name)}
+              colors={colors}
+            />
+          )}
+          {section(
+            'Rejection rate by team',
+            'teams',
+            <BarChart
+              bars={report.teams.map((row) => ({
+                label: `${row.team || 'No team'} (${row.rejected}/${row.candidates})`,
+                value: row.rejectionRate || 0,
+                color: '#e74c3c',
+              }))}
+              format={percent}
+            />
+          )}
+          {section(
+            'Referral sources',
+            'referrals',
+            <table style={{ borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={cellStyle}>Referrer</th>
+                  <th style={cellStyle}>Referred</th>
+                  <th style={cellStyle}>Advanced</th>
+                  <th style={cellStyle}>Reached {pipeline[pipeline.length - 1]}</th>
+                  <th style={cellStyle}>Rejected</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.referrals.map((row) => (
+                  <tr key={row.referrer}>
+                    <td style={cellStyle}>{row.referrer}</td>
+                    <td style={cellStyle}>{row.referred}</td>
+                    <td style={cellStyle}>{row.advanced}</td>
+                    <td style={cellStyle}>{row.reachedLast}</td>
+                    <td style={cellStyle}>{row.rejected}</td>
+                  </tr>
+                ))}
+                {!report.referrals.length && (
+                  <tr>
+                    <td colSpan={5} style={{ ...cellStyle, color: '#666', textAlign: 'center' }}>
+                      Nothing in this range.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+          {section(
+            'Referrer leaderboard',
+            'referrers',
+            <>
+              <table style={{ borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr>
+                    <th style={cellStyle}>Referrer</th>
+                    <th style={cellStyle}>Referred</th>
+                    <th style={cellStyle}>Whole network</th>
+                    <th style={cellStyle}>Hires ({pipeline[pipeline.length - 1]})</th>
+                    <th style={cellStyle}>Generations</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.referrers.map((row) => (
+                    <tr key={row.referrerId}>
+                      <td style={cellStyle}>{row.referrer}</td>
+                      <td style={cellStyle}>{row.referred}</td>
+                      <td style={cellStyle}>{row.network}</td>
+                      <td style={cellStyle}>{row.hires}</td>
+                      <td style={cellStyle}>{row.depth}</td>
+                    </tr>
+                  ))}
+                  {!report.referrers.length && (
+                    <tr>
+                      <td colSpan={5} style={{ ...cellStyle, color: '#666', textAlign: 'center' }}>
+                        Nobody has referred anyone yet.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+              {report.referralCycles.map((names) => (
+                <div key={names.join(' ')} style={{ color: '#e74c3c', marginTop: '5px' }}>
+                  Referral loop: {[...names, names[0]].join(' → ')}
+                </div>
+              ))}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
@@ -0,0 +1,118 @@
+// components/AttachmentsPanel.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import * as api from '../lib/api';
+import { Attachment } from '../lib/types';
+
+interface AttachmentsPanelProps {
+  personId: string;
+  // Whether files can be uploaded and removed.
+  editable: boolean;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024
+    ? `${bytes} B`
+    : bytes < 1024 * 1024
+      ? `${Math.round(bytes / 1024)} KB`
+      : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const AttachmentsPanel: React.FC<AttachmentsPanelProps> = ({ personId, editable }) => {
+  const [attachments, setAttachments] = useState<Attachment[] | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const load = () => api.fetchAttachments(personId).then(setAttachments);
+
+  useEffect(() => {
+    setAttachments(null);
+    load();
+  }, [personId]);
+
+  const upload = async (files: FileList | null) => {
+    if (!files || !files.length) return;
+    setUploading(true);
+    try {
+      for (const file of Array.from(files)) {
+        await api.uploadAttachment(personId, file);
+      }
+    } catch (error) {
+      window.alert((error as Error).message);
+    }
+    setUploading(false);
+    if (fileInput.current) fileInput.current.value = '';
+    load();
+  };
+
+  const remove = async (attachment: Attachment) => {
+    if (!window.confirm(`Remove ${attachment.fileName}?`)) return;
+    try {
+      await api.deleteAttachment(attachment);
+    } catch (error) {
+      window.alert((error as Error).message);
+    }
+    load();
+  };
+
+  if (!attachments) return <div style={{ color: '#666' }}>Loading attachments…</div>;
+
+  return (
+    <div>
+      {attachments.length ? (
+        <ul style={{ listStyle: 'none', padding: 0, margin: '0 0 10px' }}>
+          {attachments.map((attachment) => (
+            <li
+              key={attachment.id}
+              style={{
+                display: 'flex',
+                gap: '10px',
+                alignItems: 'center',
+                padding: '4px 0',
+                borderBottom: '1px solid #eee',
+              }}
+            >
+              <a href={api.attachmentUrl(attachment)} style={{ flex: 1 }}>
+                {attachment.fileName}
+              </a>
+              <span style={{ color: '#666', fontSize: '12px' }}>
+                {formatSize(attachment.size)} · {attachment.uploadedBy},{' '}
+                {new Date(attachment.uploadedAt).toLocaleDateString()}
+              </span>
+              {editable && (
+                <button
+                  onClick={() => remove(attachment)}
+                  style={{
+                    padding: '2px 6px',
+                    border: 'none',
+                    borderRadius: '4px',
+                    backgroundColor: '#e74c3c',
+                    color: '#fff',
+                    cursor: 'pointer',
+                  }}
+                >
+                  ✕
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p style={{ color: '#666' }}>No files yet.</p>
+      )}
+      {editable && (
+        <label style={{ display: 'block' }}>
+          {uploading ? 'Uploading…' : 'Add files (PDF, Word, OpenDocument, RTF, text or images): '}
+          <input
+            ref={fileInput}
+            type="file"
+            multiple
+            disabled={uploading}
+            accept=".pdf,.doc,.docx,.odt,.rtf,.txt,.png,.jpg,.jpeg"
+            onChange={(e) => upload(e.target.files)}
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentsPanel;
@@ -0,0 +1,208 @@
+// components/BackupsAdmin.tsx
+import React, { useEffect, useState } from 'react';
+import * as api from '../lib/api';
+import { BackupPreview } from '../lib/api';
+import type { BackupInfo } from '../lib/backups';
+import { Person, PipelineEventType } from '../lib/types';
+import { describeEvent } from './PersonTimeline';
+
+interface BackupsAdminProps {
+  // The people now, to name those in the changes.
+  people: Person[];
+  // Reloads the list whenever the pipeline changes.
+  revision: number;
+  onRestore: (backup: BackupInfo) => void;
+  onClose: () => void;
+}
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  border: 'none',
+  borderRadius: '4px',
+  backgroundColor: '#eee',
+  cursor: 'pointer',
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px',
+  borderBottom: '1px solid #eee',
+  textAlign: 'left',
+};
+
+// The preview's totals, in this order, leaving out those with none.
+const summaryLabels: [PipelineEventType, string][] = [
+  ['created', 'people added'],
+  ['deleted', 'people removed'],
+  ['updated', 'field changes'],
+  ['link_added', 'links added'],
+  ['link_removed', 'links removed'],
+  ['interview_added', 'interviews added'],
+  ['interview_removed', 'interviews removed'],
+  ['feedback_added', 'feedback added'],
+  ['feedback_removed', 'feedback removed'],
+];
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : `${Math.round(bytes / 102.4) / 10} KB`;
+
+// The backups taken after each change, and what restoring one would change.
+const BackupsAdmin: React.FC<BackupsAdminProps> = ({ people, revision, onRestore, onClose }) => {
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    api.fetchBackups().then(setBackups, (e) => setError(e.message));
+    setPreview(null);
+  }, [revision]);
+
+  const openPreview = (backup: BackupInfo) =>
+    api.fetchBackupPreview(backup.id).then(
+      (loaded) => {
+        setPreview(loaded);
+        setError('');
+      },
+      (e) => setError(e.message)
+    );
+
+  const restore = (backup: BackupInfo) => {
+    const at = new Date(backup.takenAt).toLocaleString();
+    if (window.confirm(`Put the whole pipeline back as it was at ${at}?`)) onRestore(backup);
+  };
+
+  const named = preview ? [...people, ...preview.people] : people;
+  const counts = (type: PipelineEventType) =>
+    preview ? preview.changes.filter((event) => event.type === type).length : 0;
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          padding: '20px',
+          borderRadius: '8px',
+          minWidth: '640px',
+          maxWidth: '900px',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2>Backups</h2>
+        <p style={{ color: '#666', marginTop: 0 }}>
+          The pipeline is backed up after every change. Restoring a backup is saved as a new change,
+          so it can be undone.
+        </p>
+        {error && <div style={{ color: '#e74c3c', marginBottom: '10px' }}>{error}</div>}
+        <div style={{ display: 'flex', gap: '20px', alignItems: 'flex-start' }}>
+          <table style={{ borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>Taken</th>
+                <th style={cellStyle}>Revision</th>
+                <th style={cellStyle}>Size</th>
+                <th style={cellStyle} />
+              </tr>
+            </thead>
+            <tbody>
+              {backups.map((backup) => (
+                <tr
+                  key={backup.id}
+                  style={{
+                    backgroundColor: preview?.id === backup.id ? '#eaf2f8' : 'transparent',
+                  }}
+                >
+                  <td style={cellStyle}>{new Date(backup.takenAt).toLocaleString()}</td>
+                  <td style={cellStyle}>{backup.revision}</td>
+                  <td style={cellStyle}>{formatSize(backup.size)}</td>
+                  <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                    <button onClick={() => openPreview(backup)} style={smallButtonStyle}>
+                      Preview
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {!backups.length && (
+                <tr>
+                  <td colSpan={4} style={{ ...cellStyle, color: '#666', textAlign: 'center' }}>
+                    No backups yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          {preview && (
+            <div style={{ flex: 1 }}>
+              <h3 style={{ marginTop: 0 }}>
+                Revision {preview.revision} against revision {preview.revisionNow}
+              </h3>
+              {preview.changes.length ? (
+                <>
+                  <p>
+                    {summaryLabels
+                      .filter(([type]) => counts(type) > 0)
+                      .map(([type, label]) => `${counts(type)} ${label}`)
+                      .join(', ') || 'Changes to stages or requisitions only'}
+                  </p>
+                  <ul style={{ maxHeight: '300px', overflowY: 'auto', paddingLeft: '20px' }}>
+                    {preview.changes.map((event, i) => (
+                      <li key={i}>{describeEvent(event, named)}</li>
+                    ))}
+                  </ul>
+                  <button
+                    onClick={() => restore(preview)}
+                    style={{
+                      padding: '8px 12px',
+                      border: 'none',
+                      borderRadius: '4px',
+                      backgroundColor: '#e67e22',
+                      color: '#fff',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    Restore this backup
+                  </button>
+                </>
+              ) : (
+                <p style={{ color: '#666' }}>The pipeline is the same as in this backup.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div style={{ marginTop: '15px', textAlign: 'right' }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#ccc',
+              cursor: 'pointer',
+            }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupsAdmin;
@@ -0,0 +1,74 @@
+// components/BarChart.tsx
+import * as d3 from 'd3';
+import React, { useEffect, useRef } from 'react';
+
+export interface Bar {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+interface BarChartProps {
+  bars: Bar[];
+  // How each value is written next to its bar.
+  format?: (value: number) => string;
+  width?: number;
+}
+
+const BAR_HEIGHT = 24;
+const LABEL_WIDTH = 140;
+const VALUE_WIDTH = 60;
+
+// Horizontal bars, one per label, drawn with d3.
+const BarChart: React.FC<BarChartProps> = ({ bars, format = String, width = 480 }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const height = bars.length * BAR_HEIGHT;
+
+  useEffect(() => {
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    const x = d3
+      .scaleLinear()
+      .domain([0, d3.max(bars, (bar) => bar.value) || 1])
+      .range([0, width - LABEL_WIDTH - VALUE_WIDTH]);
+    const y = d3
+      .scaleBand()
+      .domain(bars.map((bar) => bar.label))
+      .range([0, height])
+      .padding(0.2);
+
+    const rows = svg
+      .selectAll('g')
+      .data(bars)
+      .join('g')
+      .attr('transform', (bar) => `translate(0,${y(bar.label)})`);
+    rows
+      .append('text')
+      .attr('x', LABEL_WIDTH - 8)
+      .attr('y', y.bandwidth() / 2)
+      .attr('dy', '0.35em')
+      .attr('text-anchor', 'end')
+      .attr('font-size', 12)
+      .text((bar) => bar.label);
+    rows
+      .append('rect')
+      .attr('x', LABEL_WIDTH)
+      .attr('width', (bar) => x(bar.value))
+      .attr('height', y.bandwidth())
+      .attr('rx', 3)
+      .attr('fill', (bar) => bar.color || '#3498db');
+    rows
+      .append('text')
+      .attr('x', (bar) => LABEL_WIDTH + x(bar.value) + 6)
+      .attr('y', y.bandwidth() / 2)
+      .attr('dy', '0.35em')
+      .attr('font-size', 12)
+      .attr('fill', '#666')
+      .text((bar) => format(bar.value));
+  }, [bars, format, width, height]);
+
+  if (!bars.length) return <div style={{ color: '#666' }}>Nothing in this range.</div>;
+  return <svg ref={svgRef} width={width} height={height} />;
+};
+
+export default BarChart;
@@ -0,0 +1,158 @@
+// components/ConflictDialog.tsx
+import React from 'react';
+import { trackedFields } from '../lib/audit';
+import { Person, VersionedData } from '../lib/types';
+
+export interface PendingConflict {
+  // What the user was doing, e.g. "Saving Alice".
+  label: string;
+  // The person the user was editing, when there is one.
+  mine?: Person;
+  // The server's state at the time of the conflict.
+  server: VersionedData;
+}
+
+interface ConflictDialogProps {
+  conflict: PendingConflict;
+  localNodes: Person[];
+  onOverwrite: () => void;
+  onDiscard: () => void;
+}
+
+const comparedFields: (keyof Person)[] = [...trackedFields];
+
+const differ = (a: Person, b: Person, field: keyof Person) =>
+  JSON.stringify(a[field]) !== JSON.stringify(b[field]);
+
+const formatValue = (value: unknown) =>
+  value === undefined
+    ? '—'
+    : typeof value === 'boolean'
+      ? value
+        ? 'Yes'
+        : 'No'
+      : Array.isArray(value)
+        ? value.join(', ')
+        : String(value);
+
+const ConflictDialog: React.FC<ConflictDialogProps> = ({
+  conflict,
+  localNodes,
+  onOverwrite,
+  onDiscard,
+}) => {
+  const { label, mine, server } = conflict;
+  const serverMine = mine ? server.nodes.find((n) => n.id === mine.id) : undefined;
+
+  // Summarize what others changed, ignoring the person being saved.
+  const localById = new Map(localNodes.map((n) => [n.id, n]));
+  const serverById = new Map(server.nodes.map((n) => [n.id, n]));
+  const added = server.nodes.filter((n) => !localById.has(n.id) && n.id !== mine?.id);
+  const removed = localNodes.filter((n) => !serverById.has(n.id) && n.id !== mine?.id);
+  const changed = server.nodes.filter((n) => {
+    const local = localById.get(n.id);
+    return local && n.id !== mine?.id && comparedFields.some((field) => differ(local, n, field));
+  });
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1100,
+      }}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          padding: '20px',
+          borderRadius: '8px',
+          minWidth: '360px',
+          maxWidth: '600px',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+        }}
+      >
+        <h2>Someone else changed the pipeline</h2>
+        <p>{label} was not saved because the pipeline changed since you loaded it.</p>
+
+        {mine && (
+          <div style={{ marginBottom: '15px' }}>
+            {serverMine ? (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr>
+                    <th style={{ textAlign: 'left' }}>Field</th>
+                    <th style={{ textAlign: 'left' }}>Saved</th>
+                    <th style={{ textAlign: 'left' }}>Yours</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparedFields
+                    .filter((field) => serverMine[field] !== undefined || mine[field] !== undefined)
+                    .map((field) => {
+                      const differs = differ(serverMine, mine, field);
+                      return (
+                        <tr
+                          key={field}
+                          style={{ backgroundColor: differs ? '#fdebd0' : 'transparent' }}
+                        >
+                          <td style={{ padding: '4px' }}>{field}</td>
+                          <td style={{ padding: '4px' }}>{formatValue(serverMine[field])}</td>
+                          <td style={{ padding: '4px' }}>{formatValue(mine[field])}</td>
+                        </tr>
+                      );
+                    })}
+                </tbody>
+              </table>
+            ) : (
+              <p style={{ color: '#e74c3c' }}>{mine.name} is not in the saved pipeline.</p>
+            )}
+          </div>
+        )}
+
+        <div style={{ marginBottom: '15px', color: '#666' }}>
+          <div>Added by others: {added.map((n) => n.name).join(', ') || 'none'}</div>
+          <div>Removed by others: {removed.map((n) => n.name).join(', ') || 'none'}</div>
+          <div>Changed by others: {changed.map((n) => n.name).join(', ') || 'none'}</div>
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+          <button
+            onClick={onDiscard}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#ccc',
+              cursor: 'pointer',
+            }}
+          >
+            Discard mine
+          </button>
+          <button
+            onClick={onOverwrite}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#e67e22',
+              color: '#fff',
+              cursor: 'pointer',
+            }}
+          >
+            Save mine anyway
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictDialog;
@@ -0,0 +1,197 @@
+// components/FeedbackPanel.tsx
+import React, { useEffect, useState } from 'react';
+import { PersonFeedback, fetchFeedback } from '../lib/api';
+import { criteriaFor, formatSummary, ratingLabels, ratingScale } from '../lib/feedback';
+import { interviewerKey } from '../lib/interviews';
+import { Feedback, Person, Recommendation, Stage } from '../lib/types';
+
+interface FeedbackPanelProps {
+  person: Person;
+  stages: Stage[];
+  // The signed-in user's name, which feedback is given as.
+  actorName: string;
+  // Each resolves once the change is saved, so the panel can reload.
+  onSubmit: (
+    ratings: Record<string, number>,
+    recommendation: Recommendation,
+    comments: string
+  ) => Promise<void>;
+  onWithdraw: (feedback: Feedback) => Promise<void>;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  borderRadius: '4px',
+  border: '1px solid #ccc',
+};
+
+const FeedbackPanel: React.FC<FeedbackPanelProps> = ({
+  person,
+  stages,
+  actorName,
+  onSubmit,
+  onWithdraw,
+}) => {
+  const [loaded, setLoaded] = useState<PersonFeedback | null>(null);
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [recommendation, setRecommendation] = useState<Recommendation | ''>('');
+  const [comments, setComments] = useState('');
+
+  const load = () => fetchFeedback(person.id).then(setLoaded);
+
+  useEffect(() => {
+    setLoaded(null);
+    setRatings({});
+    setRecommendation('');
+    setComments('');
+    load();
+  }, [person.id, actorName]);
+
+  const criteria = criteriaFor(stages, person.status);
+  const givenForStage = loaded?.feedback.some(
+    (f) => f.stage === person.status && interviewerKey(f.interviewer) === interviewerKey(actorName)
+  );
+  const complete = recommendation !== '' && criteria.every((c) => ratings[c] !== undefined);
+
+  const submit = async () => {
+    if (!complete) return;
+    await onSubmit(ratings, recommendation as Recommendation, comments.trim());
+    setRatings({});
+    setRecommendation('');
+    setComments('');
+    load();
+  };
+
+  const withdraw = async (feedback: Feedback) => {
+    if (!window.confirm('Withdraw your feedback?')) return;
+    await onWithdraw(feedback);
+    load();
+  };
+
+  if (!loaded) return <div style={{ color: '#666' }}>Loading feedback…</div>;
+
+  return (
+    <div>
+      <div style={{ marginBottom: '10px', fontWeight: 'bold' }}>
+        {!loaded.summary
+          ? null
+          : loaded.summary.count
+            ? `${formatSummary(loaded.summary)} (${loaded.summary.count} submissions)`
+            : 'No feedback yet.'}
+      </div>
+
+      {loaded.feedback.map((feedback) => (
+        <div
+          key={feedback.id}
+          style={{ padding: '6px 0', borderBottom: '1px solid #eee', marginBottom: '6px' }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', gap: '10px' }}>
+            <span>
+              <strong>{feedback.interviewer}</strong> · {feedback.stage} ·{' '}
+              <span style={{ color: feedback.recommendation === 'hire' ? '#27ae60' : '#e74c3c' }}>
+                {feedback.recommendation === 'hire' ? 'Hire' : 'No hire'}
+              </span>
+            </span>
+            {interviewerKey(feedback.interviewer) === interviewerKey(actorName) && (
+              <button
+                onClick={() => withdraw(feedback)}
+                style={{
+                  padding: '2px 8px',
+                  border: 'none',
+                  borderRadius: '4px',
+                  backgroundColor: '#eee',
+                  cursor: 'pointer',
+                }}
+              >
+                Withdraw
+              </button>
+            )}
+          </div>
+          <div style={{ fontSize: '12px', color: '#666' }}>
+            {Object.entries(feedback.ratings)
+              .map(([criterion, rating]) => `${criterion}: ${rating}`)
+              .join(' · ')}
+          </div>
+          {feedback.comments && <div style={{ whiteSpace: 'pre-wrap' }}>{feedback.comments}</div>}
+        </div>
+      ))}
+      {loaded.hidden > 0 && (
+        <div style={{ color: '#666', marginBottom: '10px' }}>
+          {loaded.hidden} submission(s) hidden until you give your own feedback.
+        </div>
+      )}
+
+      {givenForStage ? (
+        <div style={{ color: '#666' }}>You gave feedback for {person.status}.</div>
+      ) : (
+        <div>
+          <h4 style={{ margin: '10px 0' }}>Your scorecard for {person.status}</h4>
+          {criteria.map((criterion) => (
+            <div key={criterion} style={{ marginBottom: '8px' }}>
+              <label style={{ display: 'block', marginBottom: '4px' }}>{criterion}</label>
+              <div style={{ display: 'flex', gap: '6px' }}>
+                {ratingScale.map((rating) => (
+                  <button
+                    key={rating}
+                    title={ratingLabels[rating]}
+                    onClick={() => setRatings({ ...ratings, [criterion]: rating })}
+                    style={{
+                      flex: 1,
+                      padding: '6px',
+                      border: '1px solid #ccc',
+                      borderRadius: '4px',
+                      backgroundColor: ratings[criterion] === rating ? '#3498db' : '#fff',
+                      color: ratings[criterion] === rating ? '#fff' : '#333',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {rating} {ratingLabels[rating]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          <div style={{ marginBottom: '8px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>Recommendation</label>
+            <select
+              value={recommendation}
+              onChange={(e) => setRecommendation(e.target.value as Recommendation | '')}
+              style={inputStyle}
+            >
+              <option value="">Choose…</option>
+              <option value="hire">Hire</option>
+              <option value="no_hire">No hire</option>
+            </select>
+          </div>
+          <div style={{ marginBottom: '8px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>Comments</label>
+            <textarea
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              style={{ ...inputStyle, minHeight: '60px' }}
+            />
+          </div>
+          <button
+            onClick={submit}
+            disabled={!complete}
+            style={{
+              width: '100%',
+              padding: '10px',
+              backgroundColor: '#27ae60',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: complete ? 'pointer' : 'default',
+              opacity: complete ? 1 : 0.5,
+            }}
+          >
+            Submit Feedback
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeedbackPanel;
@@ -0,0 +1,235 @@
+// components/ImportWizard.tsx
+import React, { useState } from 'react';
+import * as api from '../lib/api';
+import { ImportField, ImportPreview, ImportSource, importFields } from '../lib/importExport';
+
+interface ImportWizardProps {
+  onImport: (source: ImportSource, skipDuplicates: boolean) => void;
+  onClose: () => void;
+}
+
+const fieldLabels: Record<ImportField, string> = {
+  name: 'Name',
+  status: 'Status',
+  team: 'Team',
+  starred: 'Starred',
+  notes: 'Notes',
+  referredBy: 'Referred by',
+  email: 'Email',
+  phone: 'Phone',
+  linkedin: 'LinkedIn',
+  source: 'Source',
+  position: 'Position',
+  salaryExpectation: 'Salary',
+  tags: 'Tags',
+};
+
+// Columns of the preview table; profile fields are only mapped.
+const previewFields: ImportField[] = ['name', 'status', 'team', 'starred', 'notes', 'referredBy'];
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px',
+  borderRadius: '4px',
+  border: '1px solid #ccc',
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  borderBottom: '1px solid #eee',
+  textAlign: 'left',
+};
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ onImport, onClose }) => {
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [error, setError] = useState('');
+
+  const load = async (next: ImportSource) => {
+    setSource(next);
+    setError('');
+    try {
+      const result = await api.previewImport(next);
+      setPreview(result);
+    } catch (e) {
+      setPreview(null);
+      setError((e as Error).message);
+    }
+  };
+
+  const pickFile = async (file: File | undefined) => {
+    if (!file) return;
+    const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    await load({ format, content: await file.text() });
+  };
+
+  // Changing a column re-reads every row with the new mapping.
+  const mapColumn = (field: ImportField, header: string) => {
+    if (!source || !preview) return;
+    load({ ...source, mapping: { ...preview.mapping, [field]: header || undefined } });
+  };
+
+  const rows = preview ? preview.rows : [];
+  const importable = rows.filter(
+    (row) => !row.errors.length && !(skipDuplicates && row.duplicateOf)
+  ).length;
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          padding: '20px',
+          borderRadius: '8px',
+          minWidth: '480px',
+          maxWidth: '90vw',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2>Import People</h2>
+        <p style={{ color: '#666', marginTop: 0 }}>
+          A CSV with a header row, or a JSON export of another pipeline.
+        </p>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(e) => pickFile(e.target.files?.[0])}
+          style={{ marginBottom: '15px' }}
+        />
+        {error && <p style={{ color: '#e74c3c' }}>{error}</p>}
+
+        {preview && source?.format === 'csv' && (
+          <div style={{ marginBottom: '15px' }}>
+            <h3>Columns</h3>
+            {importFields.map((field) => (
+              <div
+                key={field}
+                style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '6px' }}
+              >
+                <label style={{ width: '100px' }}>{fieldLabels[field]}</label>
+                <select
+                  value={preview.mapping[field] || ''}
+                  onChange={(e) => mapColumn(field, e.target.value)}
+                  style={{ ...inputStyle, flex: 1 }}
+                >
+                  <option value="">(not imported)</option>
+                  {preview.headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {preview && (
+          <>
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '15px' }}>
+              <thead>
+                <tr>
+                  {previewFields.map((field) => (
+                    <th key={field} style={cellStyle}>
+                      {fieldLabels[field]}
+                    </th>
+                  ))}
+                  <th style={cellStyle}>Check</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => (
+                  <tr
+                    key={index}
+                    style={{
+                      backgroundColor: row.errors.length
+                        ? '#fadbd8'
+                        : row.duplicateOf
+                          ? '#fdebd0'
+                          : 'transparent',
+                    }}
+                  >
+                    <td style={cellStyle}>{row.person.name}</td>
+                    <td style={cellStyle}>{row.person.status}</td>
+                    <td style={cellStyle}>{row.person.team}</td>
+                    <td style={cellStyle}>{row.person.starred ? '⭐' : ''}</td>
+                    <td style={{ ...cellStyle, color: '#666' }}>
+                      {row.person.notes.length > 40
+                        ? `${row.person.notes.slice(0, 40)}…`
+                        : row.person.notes}
+                    </td>
+                    <td style={cellStyle}>{row.referredBy}</td>
+                    <td style={cellStyle}>
+                      {[
+                        ...row.errors,
+                        ...(row.duplicateOf ? [`duplicate of ${row.duplicateOf}`] : []),
+                      ].join('; ') || 'OK'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <label style={{ display: 'block', marginBottom: '10px' }}>
+              <input
+                type="checkbox"
+                checked={skipDuplicates}
+                onChange={(e) => setSkipDuplicates(e.target.checked)}
+                style={{ marginRight: '5px' }}
+              />
+              Skip duplicates
+            </label>
+          </>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '10px' }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#ccc',
+              cursor: 'pointer',
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => source && onImport(source, skipDuplicates)}
+            disabled={!importable}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#3498db',
+              color: '#fff',
+              cursor: importable ? 'pointer' : 'default',
+              opacity: importable ? 1 : 0.5,
+            }}
+          >
+            Import {importable} people
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
@@ -0,0 +1,226 @@
+// components/InterviewScheduler.tsx
+import React, { useState } from 'react';
+import { personCalendarUrl } from '../lib/api';
+import { describeDoubleBookings, findDoubleBookings, interviewEnd } from '../lib/interviews';
+import { Interview, NewInterview, Person, interviewRounds } from '../lib/types';
+
+interface InterviewSchedulerProps {
+  person: Person;
+  // Every interview, to spot double-booked interviewers.
+  interviews: Interview[];
+  people: Person[];
+  onSchedule: (interview: NewInterview, allowDoubleBooking: boolean) => void;
+  onCancel: (interview: Interview) => void;
+  // Put in the calendar link so calendar clients can subscribe to it.
+  calendarToken?: string;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  borderRadius: '4px',
+  border: '1px solid #ccc',
+};
+
+const emptyForm = { start: '', durationMinutes: 60, interviewers: '', round: '', location: '' };
+
+const InterviewScheduler: React.FC<InterviewSchedulerProps> = ({
+  person,
+  interviews,
+  people,
+  onSchedule,
+  onCancel,
+  calendarToken,
+}) => {
+  const [form, setForm] = useState(emptyForm);
+  const [allowDoubleBooking, setAllowDoubleBooking] = useState(false);
+
+  const own = interviews
+    .filter((i) => i.personId === person.id)
+    .sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+  const knownInterviewers = Array.from(new Set(interviews.flatMap((i) => i.interviewers))).sort();
+
+  // The form's start is local time from the date picker.
+  const draft: NewInterview | null =
+    form.start && !isNaN(Date.parse(form.start))
+      ? {
+          personId: person.id,
+          start: new Date(form.start).toISOString(),
+          durationMinutes: form.durationMinutes,
+          interviewers: form.interviewers
+            .split(',')
+            .map((name) => name.trim())
+            .filter((name) => name !== ''),
+          round: form.round.trim(),
+          location: form.location.trim(),
+        }
+      : null;
+  const warnings = draft
+    ? describeDoubleBookings(findDoubleBookings(draft, interviews), people)
+    : [];
+  const valid =
+    draft !== null &&
+    draft.interviewers.length > 0 &&
+    draft.round !== '' &&
+    draft.durationMinutes > 0 &&
+    (!warnings.length || allowDoubleBooking);
+
+  const schedule = () => {
+    if (!valid) return;
+    onSchedule(draft!, allowDoubleBooking);
+    setForm(emptyForm);
+    setAllowDoubleBooking(false);
+  };
+
+  return (
+    <div>
+      {own.length ? (
+        <ul style={{ listStyle: 'none', padding: 0, margin: '0 0 10px 0' }}>
+          {own.map((interview) => (
+            <li
+              key={interview.id}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: '10px',
+                padding: '4px 0',
+                borderBottom: '1px solid #eee',
+                opacity: interviewEnd(interview) < new Date() ? 0.5 : 1,
+              }}
+            >
+              <div>
+                <div>
+                  {interview.round} · {new Date(interview.start).toLocaleString()} (
+                  {interview.durationMinutes} min)
+                </div>
+                <div style={{ fontSize: '12px', color: '#666' }}>
+                  {interview.interviewers.join(', ')}
+                  {interview.location ? ` · ${interview.location}` : ''}
+                </div>
+              </div>
+              <button
+                onClick={() => onCancel(interview)}
+                style={{
+                  padding: '4px 8px',
+                  border: 'none',
+                  borderRadius: '4px',
+                  backgroundColor: '#eee',
+                  cursor: 'pointer',
+                  alignSelf: 'center',
+                }}
+              >
+                Cancel
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div style={{ color: '#666', marginBottom: '10px' }}>No interviews scheduled.</div>
+      )}
+      {own.length > 0 && (
+        <a
+          href={personCalendarUrl(person.id, calendarToken)}
+          style={{ display: 'block', marginBottom: '10px' }}
+        >
+          Calendar (.ics)
+        </a>
+      )}
+
+      <div style={{ display: 'flex', gap: '10px', marginBottom: '10px' }}>
+        <div style={{ flex: 2 }}>
+          <label style={{ display: 'block', marginBottom: '5px' }}>Date and time</label>
+          <input
+            type="datetime-local"
+            value={form.start}
+            onChange={(e) => setForm({ ...form, start: e.target.value })}
+            style={inputStyle}
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label style={{ display: 'block', marginBottom: '5px' }}>Minutes</label>
+          <input
+            type="number"
+            min={5}
+            step={5}
+            value={form.durationMinutes}
+            onChange={(e) => setForm({ ...form, durationMinutes: Number(e.target.value) })}
+            style={inputStyle}
+          />
+        </div>
+      </div>
+      <div style={{ marginBottom: '10px' }}>
+        <label style={{ display: 'block', marginBottom: '5px' }}>Round</label>
+        <input
+          type="text"
+          list="interview-rounds"
+          placeholder="e.g. Technical"
+          value={form.round}
+          onChange={(e) => setForm({ ...form, round: e.target.value })}
+          style={inputStyle}
+        />
+        <datalist id="interview-rounds">
+          {interviewRounds.map((round) => (
+            <option key={round} value={round} />
+          ))}
+        </datalist>
+      </div>
+      <div style={{ marginBottom: '10px' }}>
+        <label style={{ display: 'block', marginBottom: '5px' }}>
+          Interviewers (comma separated)
+        </label>
+        <input
+          type="text"
+          placeholder={knownInterviewers.slice(0, 2).join(', ') || 'e.g. Sam, Priya'}
+          value={form.interviewers}
+          onChange={(e) => setForm({ ...form, interviewers: e.target.value })}
+          style={inputStyle}
+        />
+      </div>
+      <div style={{ marginBottom: '10px' }}>
+        <label style={{ display: 'block', marginBottom: '5px' }}>Location or link</label>
+        <input
+          type="text"
+          value={form.location}
+          onChange={(e) => setForm({ ...form, location: e.target.value })}
+          style={inputStyle}
+        />
+      </div>
+
+      {warnings.length > 0 && (
+        <div style={{ marginBottom: '10px', color: '#e67e22' }}>
+          {warnings.map((warning) => (
+            <div key={warning}>{warning}</div>
+          ))}
+          <label>
+            <input
+              type="checkbox"
+              checked={allowDoubleBooking}
+              onChange={(e) => setAllowDoubleBooking(e.target.checked)}
+              style={{ marginRight: '5px' }}
+            />
+            Schedule anyway
+          </label>
+        </div>
+      )}
+
+      <button
+        onClick={schedule}
+        disabled={!valid}
+        style={{
+          width: '100%',
+          padding: '10px',
+          backgroundColor: '#8e44ad',
+          color: '#fff',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: valid ? 'pointer' : 'default',
+          opacity: valid ? 1 : 0.5,
+        }}
+      >
+        Schedule Interview
+      </button>
+    </div>
+  );
+};
+
+export default InterviewScheduler;
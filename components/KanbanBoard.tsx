@@ -0,0 +1,91 @@
+// components/KanbanBoard.tsx
+import React, { useState } from 'react';
+import { Person, Stage } from '../lib/types';
+
+interface KanbanBoardProps {
+  stages: Stage[];
+  // Already filtered by the caller.
+  people: Person[];
+  onMove: (person: Person, status: string) => void;
+  onOpen: (personId: string) => void;
+}
+
+const KanbanBoard: React.FC<KanbanBoardProps> = ({ stages, people, onMove, onOpen }) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [overStage, setOverStage] = useState<string | null>(null);
+
+  const drop = (status: string) => {
+    const person = people.find((p) => p.id === draggedId);
+    setDraggedId(null);
+    setOverStage(null);
+    if (person && person.status !== status) {
+      onMove(person, status);
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', gap: '12px', overflowX: 'auto', minHeight: '400px' }}>
+      {stages.map((stage) => {
+        const cards = people.filter((p) => p.status === stage.name);
+        return (
+          <div
+            key={stage.id}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setOverStage(stage.name);
+            }}
+            onDragLeave={() => setOverStage(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              drop(stage.name);
+            }}
+            style={{
+              flex: '0 0 240px',
+              backgroundColor: overStage === stage.name ? `${stage.color}30` : '#f5f5f5',
+              borderRadius: '8px',
+              borderTop: `4px solid ${stage.color}`,
+              padding: '10px',
+              transition: 'background-color 0.2s ease',
+            }}
+          >
+            <h3 style={{ margin: '0 0 10px 0', display: 'flex', justifyContent: 'space-between' }}>
+              <span>{stage.name}</span>
+              <span style={{ color: '#666' }}>{cards.length}</span>
+            </h3>
+            {cards.map((person) => (
+              <div
+                key={person.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  // Firefox only starts a drag that carries some data.
+                  e.dataTransfer.setData('text/plain', person.id);
+                  setDraggedId(person.id);
+                }}
+                onDragEnd={() => setDraggedId(null)}
+                onClick={() => onOpen(person.id)}
+                style={{
+                  backgroundColor: '#fff',
+                  borderRadius: '6px',
+                  padding: '10px',
+                  marginBottom: '8px',
+                  boxShadow: '0 1px 4px rgba(0,0,0,0.1)',
+                  cursor: 'grab',
+                  opacity: draggedId === person.id ? 0.5 : stage.terminal ? 0.6 : 1,
+                }}
+              >
+                <div style={{ fontWeight: 'bold' }}>
+                  {person.name}
+                  {person.starred ? ' ⭐' : ''}
+                </div>
+                {person.team && <div style={{ color: '#666', fontSize: '12px' }}>{person.team}</div>}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default KanbanBoard;
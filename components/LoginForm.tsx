@@ -0,0 +1,115 @@
+// components/LoginForm.tsx
+import React, { useEffect, useState } from 'react';
+import * as api from '../lib/api';
+import { PublicUser } from '../lib/auth/types';
+
+interface LoginFormProps {
+  onLogin: (user: PublicUser) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  borderRadius: '4px',
+  border: '1px solid #ccc',
+  boxSizing: 'border-box',
+};
+
+const LoginForm: React.FC<LoginFormProps> = ({ onLogin }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [oidc, setOidc] = useState(false);
+
+  useEffect(() => {
+    api.fetchLoginOptions().then((options) => setOidc(options.oidc));
+    // A failed OIDC sign-in comes back with the reason in the URL.
+    const loginError = new URLSearchParams(window.location.search).get('loginError');
+    if (loginError) {
+      setError(loginError);
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, []);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onLogin(await api.login(username, password));
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        fontFamily: 'Arial, sans-serif',
+        backgroundColor: '#f5f5f5',
+      }}
+    >
+      <form
+        onSubmit={submit}
+        style={{
+          width: '320px',
+          padding: '20px',
+          backgroundColor: '#fff',
+          borderRadius: '8px',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        }}
+      >
+        <h2 style={{ marginTop: 0 }}>Hiring Pipeline Manager</h2>
+        <div style={{ marginBottom: '10px' }}>
+          <label style={{ display: 'block', marginBottom: '5px' }}>Username</label>
+          <input
+            type="text"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            style={inputStyle}
+          />
+        </div>
+        <div style={{ marginBottom: '10px' }}>
+          <label style={{ display: 'block', marginBottom: '5px' }}>Password</label>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            style={inputStyle}
+          />
+        </div>
+        {error && <div style={{ color: '#e74c3c', marginBottom: '10px' }}>{error}</div>}
+        <button
+          type="submit"
+          disabled={!username || !password}
+          style={{
+            width: '100%',
+            padding: '10px',
+            backgroundColor: '#3498db',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            opacity: username && password ? 1 : 0.5,
+          }}
+        >
+          Sign In
+        </button>
+        {oidc && (
+          <a
+            href="/api/auth/oidc/login"
+            style={{ display: 'block', textAlign: 'center', marginTop: '10px' }}
+          >
+            Sign in with single sign-on
+          </a>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default LoginForm;
@@ -0,0 +1,185 @@
+// components/MergeDialog.tsx
+import React, { useState } from 'react';
+import { MergeField, mergeFields, mergeNotes, mergePeople } from '../lib/duplicates';
+import { Person } from '../lib/types';
+
+interface MergeDialogProps {
+  // The two records of the same candidate; either can be kept.
+  first: Person;
+  second: Person;
+  onMerge: (survivor: Person, duplicate: Person, take: MergeField[]) => void;
+  onCancel: () => void;
+}
+
+const fieldLabels: Record<MergeField, string> = {
+  name: 'Name',
+  status: 'Status',
+  team: 'Requisition',
+  starred: 'Starred',
+  email: 'Email',
+  phone: 'Phone',
+  linkedin: 'LinkedIn',
+  source: 'Source',
+  position: 'Position',
+  salaryExpectation: 'Salary expectation',
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined || value === ''
+    ? '—'
+    : typeof value === 'boolean'
+      ? value
+        ? 'Yes'
+        : 'No'
+      : String(value);
+
+// Picks, field by field, which record's value to keep. The kept record
+// survives with both notes, all tags and the other's links, interviews,
+// feedback and files; the other record is deleted.
+const MergeDialog: React.FC<MergeDialogProps> = ({ first, second, onMerge, onCancel }) => {
+  const [keepFirst, setKeepFirst] = useState(true);
+  // Fields taken from the second record; by default those only it has.
+  const [fromSecond, setFromSecond] = useState<MergeField[]>(() =>
+    mergeFields.filter(
+      (field) => formatValue(first[field]) === '—' && formatValue(second[field]) !== '—'
+    )
+  );
+  const survivor = keepFirst ? first : second;
+  const duplicate = keepFirst ? second : first;
+  const take = keepFirst ? fromSecond : mergeFields.filter((field) => !fromSecond.includes(field));
+  const merged = mergePeople(survivor, duplicate, take);
+  const differing = mergeFields.filter(
+    (field) => formatValue(first[field]) !== formatValue(second[field])
+  );
+
+  const choose = (field: MergeField, takeSecond: boolean) =>
+    setFromSecond((prev) =>
+      takeSecond ? [...prev.filter((f) => f !== field), field] : prev.filter((f) => f !== field)
+    );
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1100,
+      }}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          padding: '20px',
+          borderRadius: '8px',
+          minWidth: '420px',
+          maxWidth: '640px',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+        }}
+      >
+        <h2>Merge duplicates</h2>
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '15px' }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: 'left' }}>Field</th>
+              {[first, second].map((person, i) => (
+                <th key={person.id} style={{ textAlign: 'left' }}>
+                  <label>
+                    <input
+                      type="radio"
+                      name="keep"
+                      checked={keepFirst === (i === 0)}
+                      onChange={() => setKeepFirst(i === 0)}
+                    />{' '}
+                    Keep this record
+                  </label>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {mergeFields.map((field) => (
+              <tr
+                key={field}
+                style={{ backgroundColor: differing.includes(field) ? '#fdebd0' : 'transparent' }}
+              >
+                <td style={{ padding: '4px' }}>{fieldLabels[field]}</td>
+                {[first, second].map((person, i) => (
+                  <td key={person.id} style={{ padding: '4px' }}>
+                    <label>
+                      <input
+                        type="radio"
+                        name={field}
+                        checked={fromSecond.includes(field) === (i === 1)}
+                        disabled={!differing.includes(field)}
+                        onChange={() => choose(field, i === 1)}
+                      />{' '}
+                      {formatValue(person[field])}
+                    </label>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div style={{ marginBottom: '15px' }}>
+          <strong>Notes</strong>
+          <pre
+            style={{
+              whiteSpace: 'pre-wrap',
+              backgroundColor: '#f8f9f9',
+              padding: '8px',
+              borderRadius: '4px',
+              margin: '4px 0',
+            }}
+          >
+            {mergeNotes(survivor.notes, duplicate.notes) || '—'}
+          </pre>
+          {merged.tags && merged.tags.length > 0 && <div>Tags: {merged.tags.join(', ')}</div>}
+          <div style={{ color: '#666', marginTop: '8px' }}>
+            {duplicate.name}&apos;s links, interviews, feedback and files move to the kept record,
+            and the other record is deleted.
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+          <button
+            onClick={onCancel}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#ccc',
+              cursor: 'pointer',
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onMerge(survivor, duplicate, take)}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#c0392b',
+              color: '#fff',
+              cursor: 'pointer',
+            }}
+          >
+            Merge into {merged.name}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeDialog;
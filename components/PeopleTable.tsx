@@ -0,0 +1,259 @@
+// components/PeopleTable.tsx
+import React, { useState } from 'react';
+import { isReferral } from '../lib/relationships';
+import { Link, Person, Stage } from '../lib/types';
+
+interface PeopleTableProps {
+  // Already filtered by the caller.
+  people: Person[];
+  // All people and links, to name referrers outside the filter.
+  allPeople: Person[];
+  links: Link[];
+  stages: Stage[];
+  // Open requisitions people can be moved to.
+  teams: string[];
+  onOpen: (personId: string) => void;
+  onBulkUpdate: (ids: string[], changes: Partial<Person>) => void;
+  onBulkDelete: (ids: string[]) => void;
+}
+
+type SortKey = 'name' | 'status' | 'team' | 'starred' | 'referrer' | 'notes';
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'status', label: 'Status' },
+  { key: 'team', label: 'Team' },
+  { key: 'starred', label: 'Starred' },
+  { key: 'referrer', label: 'Referrer' },
+  { key: 'notes', label: 'Notes' },
+];
+
+const controlStyle: React.CSSProperties = {
+  padding: '6px',
+  borderRadius: '4px',
+  border: '1px solid #ccc',
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '8px',
+  borderBottom: '1px solid #eee',
+  textAlign: 'left',
+};
+
+const PeopleTable: React.FC<PeopleTableProps> = ({
+  people,
+  allPeople,
+  links,
+  stages,
+  teams,
+  onOpen,
+  onBulkUpdate,
+  onBulkDelete,
+}) => {
+  const [search, setSearch] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('name');
+  const [sortAscending, setSortAscending] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkTeam, setBulkTeam] = useState('');
+
+  // The referrer is whoever links to the person as a referral.
+  const referrerOf = (personId: string) => {
+    const link = links.find((l) => l.target === personId && isReferral(l));
+    return link ? allPeople.find((p) => p.id === link.source)?.name || '' : '';
+  };
+
+  const stageOrder = new Map(stages.map((stage, index) => [stage.name, index]));
+  const sortValue = (person: Person): string | number => {
+    switch (sortKey) {
+      case 'status':
+        return stageOrder.get(person.status) ?? stages.length;
+      case 'starred':
+        return person.starred ? 0 : 1;
+      case 'referrer':
+        return referrerOf(person.id).toLowerCase();
+      default:
+        return String(person[sortKey]).toLowerCase();
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const searchable = (p: Person) =>
+    [p.name, p.notes, p.email, p.position, ...(p.tags || [])].filter(Boolean).join('\n');
+  const rows = people
+    .filter((p) => !query || searchable(p).toLowerCase().includes(query))
+    .sort((a, b) => {
+      const [x, y] = [sortValue(a), sortValue(b)];
+      const order = x < y ? -1 : x > y ? 1 : 0;
+      return sortAscending ? order : -order;
+    });
+
+  // Only act on selected people that are still visible.
+  const selectedIds = rows.filter((p) => selected.has(p.id)).map((p) => p.id);
+  const allSelected = rows.length > 0 && selectedIds.length === rows.length;
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(true);
+    }
+  };
+
+  const bulkUpdate = (changes: Partial<Person>) => {
+    if (!selectedIds.length) return;
+    onBulkUpdate(selectedIds, changes);
+  };
+
+  const bulkDelete = () => {
+    if (!selectedIds.length) return;
+    if (!window.confirm(`Delete ${selectedIds.length} people?`)) return;
+    onBulkDelete(selectedIds);
+    setSelected(new Set());
+  };
+
+  return (
+    <div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', marginBottom: '10px' }}>
+        <input
+          type="text"
+          placeholder="Search name, notes, email, position and tags"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          style={{ ...controlStyle, flex: '1 1 200px' }}
+        />
+        <span style={{ alignSelf: 'center', color: '#666' }}>{selectedIds.length} selected</span>
+        <select
+          value=""
+          disabled={!selectedIds.length}
+          onChange={(e) => e.target.value && bulkUpdate({ status: e.target.value })}
+          style={controlStyle}
+        >
+          <option value="">Set status…</option>
+          {stages.map((stage) => (
+            <option key={stage.id} value={stage.name}>
+              {stage.name}
+            </option>
+          ))}
+        </select>
+        <button
+          disabled={!selectedIds.length}
+          onClick={() => bulkUpdate({ starred: true })}
+          style={controlStyle}
+        >
+          Star
+        </button>
+        <button
+          disabled={!selectedIds.length}
+          onClick={() => bulkUpdate({ starred: false })}
+          style={controlStyle}
+        >
+          Unstar
+        </button>
+        <select
+          value={bulkTeam}
+          onChange={(e) => setBulkTeam(e.target.value)}
+          style={{ ...controlStyle, width: '140px' }}
+        >
+          <option value="">No requisition</option>
+          {teams.map((team) => (
+            <option key={team} value={team}>
+              {team}
+            </option>
+          ))}
+        </select>
+        <button
+          disabled={!selectedIds.length}
+          onClick={() => bulkUpdate({ team: bulkTeam })}
+          style={controlStyle}
+        >
+          Move to requisition
+        </button>
+        <button
+          disabled={!selectedIds.length}
+          onClick={bulkDelete}
+          style={{ ...controlStyle, backgroundColor: '#e74c3c', color: '#fff', border: 'none' }}
+        >
+          Delete
+        </button>
+      </div>
+
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr>
+            <th style={cellStyle}>
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() =>
+                  setSelected(allSelected ? new Set() : new Set(rows.map((p) => p.id)))
+                }
+              />
+            </th>
+            {columns.map((column) => (
+              <th
+                key={column.key}
+                onClick={() => sortBy(column.key)}
+                style={{ ...cellStyle, cursor: 'pointer', userSelect: 'none' }}
+              >
+                {column.label}
+                {sortKey === column.key ? (sortAscending ? ' ▲' : ' ▼') : ''}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((person) => (
+            <tr
+              key={person.id}
+              style={{ backgroundColor: selected.has(person.id) ? '#eaf2fb' : 'transparent' }}
+            >
+              <td style={cellStyle}>
+                <input
+                  type="checkbox"
+                  checked={selected.has(person.id)}
+                  onChange={() => toggle(person.id)}
+                />
+              </td>
+              <td
+                style={{ ...cellStyle, cursor: 'pointer', color: '#3498db' }}
+                onClick={() => onOpen(person.id)}
+              >
+                {person.name}
+              </td>
+              <td style={cellStyle}>{person.status}</td>
+              <td style={cellStyle}>{person.team}</td>
+              <td style={cellStyle}>{person.starred ? '⭐' : ''}</td>
+              <td style={cellStyle}>{referrerOf(person.id)}</td>
+              <td style={{ ...cellStyle, color: '#666', maxWidth: '240px' }}>
+                {person.notes.length > 60 ? `${person.notes.slice(0, 60)}…` : person.notes}
+              </td>
+            </tr>
+          ))}
+          {!rows.length && (
+            <tr>
+              <td
+                colSpan={columns.length + 1}
+                style={{ ...cellStyle, color: '#666', textAlign: 'center' }}
+              >
+                No people match.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default PeopleTable;
@@ -0,0 +1,105 @@
+// components/PersonTimeline.tsx
+import React, { useEffect, useState } from 'react';
+import { fetchHistory } from '../lib/api';
+import { relationshipFor } from '../lib/relationships';
+import { Interview, Person, PipelineEvent, Requisition } from '../lib/types';
+
+interface PersonTimelineProps {
+  personId: string;
+  // Used to name the ends of link events.
+  people: Person[];
+  // The history is loaded again when this changes.
+  revision?: number;
+}
+
+const formatValue = (value: unknown) =>
+  typeof value === 'boolean'
+    ? value
+      ? 'yes'
+      : 'no'
+    : value === '' || value === undefined
+      ? '(empty)'
+      : Array.isArray(value)
+        ? value.join(', ') || '(empty)'
+        : String(value);
+
+const fieldLabels: Record<string, string> = {
+  linkedin: 'LinkedIn',
+  salaryExpectation: 'salary expectation',
+};
+
+const describeInterview = (interview: Interview) =>
+  `${interview.round} interview on ${new Date(interview.start).toLocaleString()}`;
+
+export function describeEvent(event: PipelineEvent, people: Person[]): string {
+  const nameOf = (id: string) => people.find((p) => p.id === id)?.name || 'a removed person';
+  switch (event.type) {
+    case 'created':
+      return `added ${event.person!.name}`;
+    case 'deleted':
+      return `deleted ${event.person!.name}`;
+    case 'updated':
+      if (event.field === 'notes') return 'edited the notes';
+      return `changed ${fieldLabels[event.field!] || event.field} from ${formatValue(
+        event.before
+      )} to ${formatValue(event.after)}`;
+    case 'link_added':
+    case 'link_removed': {
+      // Reads "target → source (label)", e.g. "Ann → Bob (reports to)".
+      const { source, target, type } = event.link!;
+      const verb = event.type === 'link_added' ? 'linked' : 'unlinked';
+      return `${verb} ${nameOf(target)} → ${nameOf(source)} (${relationshipFor(type).label})`;
+    }
+    case 'stages_changed':
+      return 'changed the pipeline stages';
+    case 'interview_added':
+      return `scheduled a ${describeInterview(event.interview!)}`;
+    case 'interview_updated':
+      return `rescheduled a ${describeInterview(event.before as Interview)}`;
+    case 'interview_removed':
+      return `cancelled a ${describeInterview(event.interview!)}`;
+    case 'feedback_added':
+      return `gave ${event.scorecard!.stage} feedback`;
+    case 'feedback_removed':
+      return `withdrew ${event.scorecard!.stage} feedback`;
+    case 'requisition_added':
+      return `opened the ${event.requisition!.name} requisition`;
+    case 'requisition_updated':
+      return `changed the ${(event.before as Requisition).name} requisition`;
+    case 'requisition_removed':
+      return `removed the ${event.requisition!.name} requisition`;
+  }
+}
+
+const PersonTimeline: React.FC<PersonTimelineProps> = ({ personId, people, revision }) => {
+  const [events, setEvents] = useState<PipelineEvent[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEvents(null);
+    fetchHistory(personId).then((loaded) => {
+      if (!cancelled) setEvents(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [personId, revision]);
+
+  if (!events) return <div style={{ color: '#666' }}>Loading history…</div>;
+  if (!events.length) return <div style={{ color: '#666' }}>No recorded changes.</div>;
+
+  return (
+    <ul style={{ listStyle: 'none', padding: 0, margin: 0, maxHeight: '160px', overflowY: 'auto' }}>
+      {[...events].reverse().map((event, index) => (
+        <li key={`${event.revision}-${index}`} style={{ padding: '4px 0', borderBottom: '1px solid #eee' }}>
+          <div style={{ fontSize: '12px', color: '#666' }}>
+            {new Date(event.at).toLocaleString()} · {event.actor}
+          </div>
+          <div>{describeEvent(event, people)}</div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default PersonTimeline;
@@ -0,0 +1,319 @@
+// components/RequisitionsAdmin.tsx
+import React, { useState } from 'react';
+import { requisitionProgress } from '../lib/requisitions';
+import {
+  ApplicationField,
+  ApplicationForm,
+  NewRequisition,
+  Person,
+  Requisition,
+  Stage,
+  applicationFields,
+} from '../lib/types';
+
+interface RequisitionsAdminProps {
+  requisitions: Requisition[];
+  people: Person[];
+  stages: Stage[];
+  // Each resolves to whether the change was saved.
+  onSave: (requisition: Requisition | NewRequisition) => Promise<boolean>;
+  onRemove: (requisition: Requisition) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px',
+  borderRadius: '4px',
+  border: '1px solid #ccc',
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  border: 'none',
+  borderRadius: '4px',
+  backgroundColor: '#eee',
+  cursor: 'pointer',
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px',
+  borderBottom: '1px solid #eee',
+  textAlign: 'left',
+};
+
+const emptyForm: NewRequisition = {
+  name: '',
+  headcount: 1,
+  hiringManager: '',
+  open: true,
+  targetDate: '',
+};
+
+// A requisition's form until it is given one.
+const defaultApplicationForm: ApplicationForm = {
+  enabled: false,
+  intro: '',
+  fields: { email: 'required', message: 'optional' },
+};
+
+const applicationFieldLabels: Record<ApplicationField, string> = {
+  email: 'Email',
+  phone: 'Phone',
+  linkedin: 'LinkedIn',
+  salaryExpectation: 'Salary expectation',
+  message: 'Message',
+};
+
+const RequisitionsAdmin: React.FC<RequisitionsAdminProps> = ({
+  requisitions,
+  people,
+  stages,
+  onSave,
+  onRemove,
+  onClose,
+}) => {
+  // The requisition being edited, or a new one without an id.
+  const [form, setForm] = useState<Requisition | NewRequisition>(emptyForm);
+  const editing = 'id' in form ? requisitions.find((r) => r.id === form.id) : undefined;
+  const applicationForm = form.applicationForm || defaultApplicationForm;
+
+  const setApplicationForm = (changes: Partial<ApplicationForm>) =>
+    setForm({ ...form, applicationForm: { ...applicationForm, ...changes } });
+
+  // '' leaves the field off the form.
+  const setApplicationField = (field: ApplicationField, setting: string) => {
+    const { [field]: _previous, ...fields } = applicationForm.fields;
+    setApplicationForm({
+      fields: setting ? { ...fields, [field]: setting as 'optional' | 'required' } : fields,
+    });
+  };
+
+  const save = async () => {
+    if (await onSave({ ...form, name: form.name.trim() })) setForm(emptyForm);
+  };
+
+  const remove = async (requisition: Requisition) => {
+    if (!window.confirm(`Remove the ${requisition.name} requisition?`)) return;
+    if ((await onRemove(requisition)) && editing?.id === requisition.id) setForm(emptyForm);
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          padding: '20px',
+          borderRadius: '8px',
+          minWidth: '640px',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2>Requisitions</h2>
+        <p style={{ color: '#666', marginTop: 0 }}>
+          Candidates are added to an open requisition. Renaming one moves its candidates and hiring
+          managers along. Candidates in the last stage before the terminal ones count as hired. Open
+          requisitions that accept applications have a public form anyone with its link can use.
+        </p>
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '15px' }}>
+          <thead>
+            <tr>
+              <th style={cellStyle}>Name</th>
+              <th style={cellStyle}>Hiring manager</th>
+              <th style={cellStyle}>Hired</th>
+              <th style={cellStyle}>Candidates</th>
+              <th style={cellStyle}>Target date</th>
+              <th style={cellStyle}>State</th>
+              <th style={cellStyle}>Application form</th>
+              <th style={cellStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {requisitions.map((requisition) => {
+              const { candidates, hired } = requisitionProgress(requisition, people, stages);
+              return (
+                <tr
+                  key={requisition.id}
+                  style={{ backgroundColor: editing?.id === requisition.id ? '#eaf2f8' : '' }}
+                >
+                  <td style={cellStyle}>{requisition.name}</td>
+                  <td style={cellStyle}>{requisition.hiringManager}</td>
+                  <td style={cellStyle}>
+                    {hired}/{requisition.headcount}
+                  </td>
+                  <td style={cellStyle}>{candidates}</td>
+                  <td style={cellStyle}>{requisition.targetDate}</td>
+                  <td style={cellStyle}>{requisition.open ? 'Open' : 'Closed'}</td>
+                  <td style={cellStyle}>
+                    {requisition.open && requisition.applicationForm?.enabled ? (
+                      <a
+                        href={`/apply/${encodeURIComponent(requisition.id)}`}
+                        target="_blank"
+                        rel="noreferrer"
+                      >
+                        Public link
+                      </a>
+                    ) : (
+                      '—'
+                    )}
+                  </td>
+                  <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                    <button onClick={() => setForm(requisition)} style={smallButtonStyle}>
+                      Edit
+                    </button>{' '}
+                    {!candidates && (
+                      <button onClick={() => remove(requisition)} style={smallButtonStyle}>
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <h3>{editing ? `Edit ${editing.name}` : 'Add Requisition'}</h3>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '10px' }}>
+          <input
+            type="text"
+            placeholder="Name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            style={inputStyle}
+          />
+          <input
+            type="text"
+            placeholder="Hiring manager"
+            value={form.hiringManager}
+            onChange={(e) => setForm({ ...form, hiringManager: e.target.value })}
+            style={inputStyle}
+          />
+          <label>
+            Headcount{' '}
+            <input
+              type="number"
+              min={1}
+              value={form.headcount}
+              onChange={(e) => setForm({ ...form, headcount: Number(e.target.value) })}
+              style={{ ...inputStyle, width: '60px' }}
+            />
+          </label>
+          <label>
+            Target{' '}
+            <input
+              type="date"
+              value={form.targetDate}
+              onChange={(e) => setForm({ ...form, targetDate: e.target.value })}
+              style={inputStyle}
+            />
+          </label>
+          <label style={{ alignSelf: 'center' }}>
+            <input
+              type="checkbox"
+              checked={form.open}
+              onChange={(e) => setForm({ ...form, open: e.target.checked })}
+              style={{ marginRight: '5px' }}
+            />
+            Open
+          </label>
+        </div>
+        <div style={{ marginBottom: '10px' }}>
+          <label>
+            <input
+              type="checkbox"
+              checked={applicationForm.enabled}
+              onChange={(e) => setApplicationForm({ enabled: e.target.checked })}
+              style={{ marginRight: '5px' }}
+            />
+            Accept applications on a public form
+          </label>
+          {applicationForm.enabled && (
+            <div style={{ marginTop: '8px' }}>
+              <textarea
+                placeholder="Introduction shown above the form"
+                value={applicationForm.intro}
+                onChange={(e) => setApplicationForm({ intro: e.target.value })}
+                rows={3}
+                style={{ ...inputStyle, width: '100%', boxSizing: 'border-box' }}
+              />
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginTop: '8px' }}>
+                {applicationFields.map((field) => (
+                  <label key={field}>
+                    {applicationFieldLabels[field]}{' '}
+                    <select
+                      value={applicationForm.fields[field] || ''}
+                      onChange={(e) => setApplicationField(field, e.target.value)}
+                      style={inputStyle}
+                    >
+                      <option value="">Not asked</option>
+                      <option value="optional">Optional</option>
+                      <option value="required">Required</option>
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <div style={{ color: '#666', fontSize: '12px', marginTop: '5px' }}>
+                The name is always asked for. Applicants are added to the first stage.
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '10px' }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#ccc',
+              cursor: 'pointer',
+            }}
+          >
+            Close
+          </button>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            {editing && (
+              <button onClick={() => setForm(emptyForm)} style={smallButtonStyle}>
+                Cancel edit
+              </button>
+            )}
+            <button
+              onClick={save}
+              disabled={!form.name.trim() || !(form.headcount > 0)}
+              style={{
+                padding: '8px 12px',
+                border: 'none',
+                borderRadius: '4px',
+                backgroundColor: '#3498db',
+                color: '#fff',
+                cursor: 'pointer',
+              }}
+            >
+              {editing ? 'Save Requisition' : 'Add Requisition'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RequisitionsAdmin;
@@ -0,0 +1,214 @@
+// components/StagesAdmin.tsx
+import React, { useState } from 'react';
+import { Person, Stage } from '../lib/types';
+
+interface StagesAdminProps {
+  stages: Stage[];
+  people: Person[];
+  onSave: (stages: Stage[], reassign: Record<string, string>) => void;
+  onClose: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px',
+  borderRadius: '4px',
+  border: '1px solid #ccc',
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  border: 'none',
+  borderRadius: '4px',
+  backgroundColor: '#eee',
+  cursor: 'pointer',
+};
+
+// New stages get a local id so removed stages can be reassigned to them
+// before they are saved.
+let newStageCount = 0;
+const newStageId = () => `stage_${Date.now().toString(36)}_${newStageCount++}`;
+
+const StagesAdmin: React.FC<StagesAdminProps> = ({ stages, people, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Stage[]>(stages.map((stage) => ({ ...stage })));
+  const [reassign, setReassign] = useState<Record<string, string>>({});
+
+  const updateStage = (index: number, changes: Partial<Stage>) =>
+    setDraft(draft.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+
+  const moveStage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next);
+  };
+
+  const addStage = () =>
+    setDraft([...draft, { id: newStageId(), name: '', color: '#95a5a6', terminal: false }]);
+
+  // Stages that were removed from the draft but still have people in them.
+  const removedWithPeople = stages
+    .filter((stage) => !draft.some((d) => d.id === stage.id))
+    .map((stage) => ({
+      stage,
+      count: people.filter((p) => p.status === stage.name).length,
+    }))
+    .filter(({ count }) => count > 0);
+
+  const names = draft.map((stage) => stage.name.trim());
+  const invalid =
+    !draft.length ||
+    names.some((name) => !name) ||
+    new Set(names).size !== names.length ||
+    removedWithPeople.some(({ stage }) => !draft.some((d) => d.id === reassign[stage.id]));
+
+  const save = () => {
+    const cleaned = draft.map((stage) => ({
+      ...stage,
+      name: stage.name.trim(),
+      criteria: Array.from(
+        new Set((stage.criteria || []).map((c) => c.trim()).filter((c) => c !== ''))
+      ),
+    }));
+    onSave(cleaned, reassign);
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          padding: '20px',
+          borderRadius: '8px',
+          minWidth: '420px',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2>Pipeline Stages</h2>
+        <p style={{ color: '#666', marginTop: 0 }}>
+          People in a terminal stage are dimmed in the graph. Renaming a stage moves its people with
+          it. Interviewers rate candidates 1–4 on each of a stage's scorecard criteria.
+        </p>
+
+        {draft.map((stage, index) => (
+          <div key={stage.id} style={{ marginBottom: '12px' }}>
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '4px' }}>
+              <input
+                type="color"
+                value={stage.color}
+                onChange={(e) => updateStage(index, { color: e.target.value })}
+              />
+              <input
+                type="text"
+                placeholder="Stage name"
+                value={stage.name}
+                onChange={(e) => updateStage(index, { name: e.target.value })}
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <label style={{ whiteSpace: 'nowrap' }}>
+                <input
+                  type="checkbox"
+                  checked={stage.terminal}
+                  onChange={(e) => updateStage(index, { terminal: e.target.checked })}
+                  style={{ marginRight: '5px' }}
+                />
+                Terminal
+              </label>
+              <button onClick={() => moveStage(index, -1)} style={smallButtonStyle}>
+                ↑
+              </button>
+              <button onClick={() => moveStage(index, 1)} style={smallButtonStyle}>
+                ↓
+              </button>
+              <button
+                onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                style={{ ...smallButtonStyle, backgroundColor: '#e74c3c', color: '#fff' }}
+              >
+                ✕
+              </button>
+            </div>
+            <input
+              type="text"
+              placeholder="Scorecard criteria, comma separated"
+              value={(stage.criteria || []).join(',')}
+              onChange={(e) => updateStage(index, { criteria: e.target.value.split(',') })}
+              style={{ ...inputStyle, width: '100%', fontSize: '12px' }}
+            />
+          </div>
+        ))}
+        <button onClick={addStage} style={{ ...smallButtonStyle, marginBottom: '15px' }}>
+          + Add stage
+        </button>
+
+        {removedWithPeople.map(({ stage, count }) => (
+          <div key={stage.id} style={{ marginBottom: '10px' }}>
+            <label style={{ display: 'block', marginBottom: '5px', color: '#e74c3c' }}>
+              {count} people are in {stage.name}. Move them to:
+            </label>
+            <select
+              value={reassign[stage.id] || ''}
+              onChange={(e) => setReassign({ ...reassign, [stage.id]: e.target.value })}
+              style={{ ...inputStyle, width: '100%' }}
+            >
+              <option value="">Choose a stage</option>
+              {draft.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.name || '(unnamed)'}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '10px' }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#ccc',
+              cursor: 'pointer',
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={invalid}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#3498db',
+              color: '#fff',
+              cursor: invalid ? 'default' : 'pointer',
+              opacity: invalid ? 0.5 : 1,
+            }}
+          >
+            Save Stages
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StagesAdmin;
@@ -0,0 +1,83 @@
+// components/ThroughputChart.tsx
+import * as d3 from 'd3';
+import React, { useEffect, useRef } from 'react';
+import { AnalyticsReport } from '../lib/analytics';
+
+interface ThroughputChartProps {
+  weeks: AnalyticsReport['throughput'];
+  // Stage names in pipeline order, with their colours.
+  stages: string[];
+  colors: Record<string, string>;
+  width?: number;
+  height?: number;
+}
+
+const MARGIN = { top: 10, right: 10, bottom: 40, left: 30 };
+
+// Stage entries per week as stacked columns, drawn with d3.
+const ThroughputChart: React.FC<ThroughputChartProps> = ({
+  weeks,
+  stages,
+  colors,
+  width = 640,
+  height = 240,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    // Stages that no longer exist still show up under their old name.
+    const keys = Array.from(
+      new Set([...stages, ...weeks.flatMap((week) => Object.keys(week.counts))])
+    );
+    const series = d3
+      .stack<AnalyticsReport['throughput'][number]>()
+      .keys(keys)
+      .value((week, key) => week.counts[key] || 0)(weeks);
+
+    const x = d3
+      .scaleBand()
+      .domain(weeks.map((week) => week.week))
+      .range([MARGIN.left, width - MARGIN.right])
+      .padding(0.2);
+    const y = d3
+      .scaleLinear()
+      .domain([0, d3.max(weeks, (week) => week.total) || 1])
+      .nice()
+      .range([height - MARGIN.bottom, MARGIN.top]);
+
+    svg
+      .append('g')
+      .selectAll('g')
+      .data(series)
+      .join('g')
+      .attr('fill', (layer) => colors[layer.key] || '#95a5a6')
+      .selectAll('rect')
+      .data((layer) => layer.map((point) => ({ point, key: layer.key })))
+      .join('rect')
+      .attr('x', ({ point }) => x(point.data.week)!)
+      .attr('y', ({ point }) => y(point[1]))
+      .attr('height', ({ point }) => y(point[0]) - y(point[1]))
+      .attr('width', x.bandwidth())
+      .append('title')
+      .text(({ point, key }) => `${point.data.week} · ${key}: ${point[1] - point[0]}`);
+
+    svg
+      .append('g')
+      .attr('transform', `translate(0,${height - MARGIN.bottom})`)
+      .call(d3.axisBottom(x))
+      .selectAll('text')
+      .attr('transform', 'rotate(-30)')
+      .attr('text-anchor', 'end');
+    svg
+      .append('g')
+      .attr('transform', `translate(${MARGIN.left},0)`)
+      .call(d3.axisLeft(y).ticks(5).tickFormat(d3.format('d')));
+  }, [weeks, stages, colors, width, height]);
+
+  if (!weeks.length) return <div style={{ color: '#666' }}>Nothing in this range.</div>;
+  return <svg ref={svgRef} width={width} height={height} />;
+};
+
+export default ThroughputChart;
@@ -0,0 +1,119 @@
+// components/UpcomingInterviews.tsx
+import React, { useState } from 'react';
+import { interviewerCalendarUrl } from '../lib/api';
+import { interviewerKey, upcomingInterviews } from '../lib/interviews';
+import { Interview, Person } from '../lib/types';
+
+interface UpcomingInterviewsProps {
+  interviews: Interview[];
+  people: Person[];
+  onOpen: (personId: string) => void;
+  // Put in the calendar links so calendar clients can subscribe to them.
+  calendarToken?: string;
+  onResetCalendarToken: () => void;
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: '8px',
+  borderBottom: '1px solid #eee',
+  textAlign: 'left',
+};
+
+const UpcomingInterviews: React.FC<UpcomingInterviewsProps> = ({
+  interviews,
+  people,
+  onOpen,
+  calendarToken,
+  onResetCalendarToken,
+}) => {
+  const [interviewer, setInterviewer] = useState('');
+
+  const interviewers = Array.from(new Set(interviews.flatMap((i) => i.interviewers))).sort();
+  const rows = upcomingInterviews(interviews).filter(
+    (i) =>
+      !interviewer ||
+      i.interviewers.some((name) => interviewerKey(name) === interviewerKey(interviewer))
+  );
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginBottom: '10px' }}>
+        <label>Interviewer</label>
+        <select
+          value={interviewer}
+          onChange={(e) => setInterviewer(e.target.value)}
+          style={{ padding: '6px', borderRadius: '4px', border: '1px solid #ccc' }}
+        >
+          <option value="">Everyone</option>
+          {interviewers.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        {interviewer && (
+          <>
+            <a href={interviewerCalendarUrl(interviewer, calendarToken)}>
+              {interviewer}'s calendar (.ics)
+            </a>
+            <button
+              onClick={() => {
+                if (window.confirm('Stop every calendar link you have shared from working?')) {
+                  onResetCalendarToken();
+                }
+              }}
+              title="Calendar links work without signing in, for calendar clients to subscribe to"
+              style={{
+                padding: '4px 8px',
+                border: 'none',
+                borderRadius: '4px',
+                backgroundColor: '#eee',
+                cursor: 'pointer',
+              }}
+            >
+              Reset calendar links
+            </button>
+          </>
+        )}
+      </div>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr>
+            <th style={cellStyle}>When</th>
+            <th style={cellStyle}>Candidate</th>
+            <th style={cellStyle}>Round</th>
+            <th style={cellStyle}>Interviewers</th>
+            <th style={cellStyle}>Location</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((interview) => (
+            <tr key={interview.id}>
+              <td style={cellStyle}>
+                {new Date(interview.start).toLocaleString()} ({interview.durationMinutes} min)
+              </td>
+              <td
+                style={{ ...cellStyle, cursor: 'pointer', color: '#3498db' }}
+                onClick={() => onOpen(interview.personId)}
+              >
+                {people.find((p) => p.id === interview.personId)?.name}
+              </td>
+              <td style={cellStyle}>{interview.round}</td>
+              <td style={cellStyle}>{interview.interviewers.join(', ')}</td>
+              <td style={cellStyle}>{interview.location}</td>
+            </tr>
+          ))}
+          {!rows.length && (
+            <tr>
+              <td colSpan={5} style={{ ...cellStyle, color: '#666', textAlign: 'center' }}>
+                No upcoming interviews.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default UpcomingInterviews;
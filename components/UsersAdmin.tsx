@@ -0,0 +1,276 @@
+// components/UsersAdmin.tsx
+import React, { useEffect, useState } from 'react';
+import * as api from '../lib/api';
+import { UserInput } from '../lib/api';
+import { PublicUser, Role, roleLabels, roles } from '../lib/auth/types';
+
+interface UsersAdminProps {
+  // The admin using the dialog, who can't remove themselves.
+  currentUserId: string;
+  teams: string[];
+  onClose: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px',
+  borderRadius: '4px',
+  border: '1px solid #ccc',
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  border: 'none',
+  borderRadius: '4px',
+  backgroundColor: '#eee',
+  cursor: 'pointer',
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px',
+  borderBottom: '1px solid #eee',
+  textAlign: 'left',
+};
+
+const emptyForm: UserInput = {
+  username: '',
+  name: '',
+  role: 'interviewer',
+  team: '',
+  password: '',
+};
+
+const UsersAdmin: React.FC<UsersAdminProps> = ({ currentUserId, teams, onClose }) => {
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [form, setForm] = useState<UserInput>(emptyForm);
+  const [error, setError] = useState('');
+
+  const load = () => api.fetchUsers().then(setUsers, (e) => setError(e.message));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  // Run an account change, then reload the list.
+  const run = async (change: () => Promise<unknown>) => {
+    try {
+      await change();
+      setError('');
+      await load();
+      return true;
+    } catch (e) {
+      setError((e as Error).message);
+      return false;
+    }
+  };
+
+  const create = async () => {
+    const { password, team, ...rest } = form;
+    const created = await run(() =>
+      api.createUser({ ...rest, ...(team ? { team } : {}), ...(password ? { password } : {}) })
+    );
+    if (created) setForm(emptyForm);
+  };
+
+  const resetPassword = (user: PublicUser) => {
+    const password = window.prompt(`New password for ${user.username} (at least 8 characters)`);
+    if (password) run(() => api.updateUser(user.id, { password }));
+  };
+
+  const remove = (user: PublicUser) => {
+    if (window.confirm(`Remove ${user.username}?`)) run(() => api.deleteUser(user.id));
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          padding: '20px',
+          borderRadius: '8px',
+          minWidth: '640px',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2>Users</h2>
+        <p style={{ color: '#666', marginTop: 0 }}>
+          Hiring managers only see their team's candidates, and interviewers only the candidates
+          they are scheduled to interview, without notes.
+        </p>
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '15px' }}>
+          <thead>
+            <tr>
+              <th style={cellStyle}>Username</th>
+              <th style={cellStyle}>Name</th>
+              <th style={cellStyle}>Role</th>
+              <th style={cellStyle}>Team</th>
+              <th style={cellStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((user) => (
+              <tr key={user.id}>
+                <td style={cellStyle}>
+                  {user.username}
+                  {user.oidc && <span style={{ color: '#666' }}> (SSO)</span>}
+                </td>
+                <td style={cellStyle}>{user.name}</td>
+                <td style={cellStyle}>
+                  <select
+                    value={user.role}
+                    onChange={(e) =>
+                      run(() => api.updateUser(user.id, { role: e.target.value as Role }))
+                    }
+                    style={inputStyle}
+                  >
+                    {roles.map((role) => (
+                      <option key={role} value={role}>
+                        {roleLabels[role]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td style={cellStyle}>
+                  <select
+                    value={user.team || ''}
+                    onChange={(e) => run(() => api.updateUser(user.id, { team: e.target.value }))}
+                    style={inputStyle}
+                  >
+                    <option value="">No team</option>
+                    {Array.from(new Set([...teams, ...(user.team ? [user.team] : [])])).map(
+                      (team) => (
+                        <option key={team} value={team}>
+                          {team}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </td>
+                <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                  <button onClick={() => resetPassword(user)} style={smallButtonStyle}>
+                    Password
+                  </button>{' '}
+                  {user.oidc && (
+                    <button
+                      onClick={() => run(() => api.updateUser(user.id, { unlinkOidc: true }))}
+                      style={smallButtonStyle}
+                    >
+                      Unlink SSO
+                    </button>
+                  )}{' '}
+                  {user.id !== currentUserId && (
+                    <button onClick={() => remove(user)} style={smallButtonStyle}>
+                      Remove
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <h3>Add User</h3>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '10px' }}>
+          <input
+            type="text"
+            placeholder="Username"
+            value={form.username}
+            onChange={(e) => setForm({ ...form, username: e.target.value })}
+            style={inputStyle}
+          />
+          <input
+            type="text"
+            placeholder="Full name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            style={inputStyle}
+          />
+          <select
+            value={form.role}
+            onChange={(e) => setForm({ ...form, role: e.target.value as Role })}
+            style={inputStyle}
+          >
+            {roles.map((role) => (
+              <option key={role} value={role}>
+                {roleLabels[role]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={form.team}
+            onChange={(e) => setForm({ ...form, team: e.target.value })}
+            style={inputStyle}
+          >
+            <option value="">No team</option>
+            {teams.map((team) => (
+              <option key={team} value={team}>
+                {team}
+              </option>
+            ))}
+          </select>
+          <input
+            type="password"
+            placeholder="Password (blank for SSO only)"
+            autoComplete="new-password"
+            value={form.password}
+            onChange={(e) => setForm({ ...form, password: e.target.value })}
+            style={inputStyle}
+          />
+        </div>
+        {error && (
+          <div style={{ color: '#e74c3c', marginBottom: '10px', whiteSpace: 'pre-wrap' }}>
+            {error}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '10px' }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#ccc',
+              cursor: 'pointer',
+            }}
+          >
+            Close
+          </button>
+          <button
+            onClick={create}
+            disabled={!form.username || !form.name}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#3498db',
+              color: '#fff',
+              cursor: 'pointer',
+              opacity: form.username && form.name ? 1 : 0.5,
+            }}
+          >
+            Add User
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsersAdmin;
@@ -0,0 +1,8 @@
+// Runs once when the server starts.
+export async function register() {
+  // Notifications need the filesystem, so not on the edge runtime.
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startNotifications } = await import('./lib/notifications/engine');
+    startNotifications();
+  }
+}
@@ -0,0 +1,343 @@
+// lib/analytics.ts
+// Historical pipeline metrics, rebuilt from the change history.
+import { toCsv } from './csv';
+import { findReferralCycles, ReferrerStanding, referrerLeaderboard } from './referrals';
+import { isReferral } from './relationships';
+import { Link, Person, PipelineEvent, Stage } from './types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Dates are YYYY-MM-DD and both ends are included. `team` is the person's
+// latest team.
+export interface AnalyticsFilter {
+  from?: string;
+  to?: string;
+  team?: string;
+}
+
+// A stretch of time one person spent in one stage; `end` is null while they
+// are still there.
+export interface StageStay {
+  personId: string;
+  stage: string;
+  start: string;
+  end: string | null;
+}
+
+export interface AnalyticsReport {
+  filter: AnalyticsFilter;
+  funnel: { stage: string; entered: number; conversion: number | null }[];
+  timeInStage: {
+    stage: string;
+    stays: number;
+    averageDays: number | null;
+    medianDays: number | null;
+  }[];
+  // Weeks start on Monday (UTC).
+  throughput: { week: string; counts: Record<string, number>; total: number }[];
+  teams: { team: string; candidates: number; rejected: number; rejectionRate: number | null }[];
+  referrals: {
+    referrer: string;
+    referred: number;
+    advanced: number;
+    reachedLast: number;
+    rejected: number;
+  }[];
+  // Referrers as of now rather than over the range; a hire is someone in
+  // the last stage of the pipeline.
+  referrers: ReferrerStanding[];
+  // Names around each loop of referrals.
+  referralCycles: string[][];
+}
+
+export const reportSections = [
+  'funnel',
+  'timeInStage',
+  'throughput',
+  'teams',
+  'referrals',
+  'referrers',
+] as const;
+export type ReportSection = (typeof reportSections)[number];
+
+// Stage renames are recorded as status changes in the same revision as the
+// stage change; they continue a stay under the new name instead of ending it.
+function renamesIn(event: PipelineEvent): Map<string, string> {
+  const before = (event.before as Stage[]) || [];
+  const after = new Map(((event.after as Stage[]) || []).map((stage) => [stage.id, stage]));
+  const renames = new Map<string, string>();
+  before.forEach((stage) => {
+    const renamed = after.get(stage.id);
+    if (renamed && renamed.name !== stage.name) renames.set(stage.name, renamed.name);
+  });
+  return renames;
+}
+
+export function buildStays(events: PipelineEvent[]): StageStay[] {
+  const stays: StageStay[] = [];
+  const open = new Map<string, StageStay>();
+  const renamesByRevision = new Map<number, Map<string, string>>();
+
+  const close = (personId: string, at: string) => {
+    const stay = open.get(personId);
+    if (stay) stay.end = at;
+    open.delete(personId);
+  };
+  const enter = (personId: string, stage: string, at: string) => {
+    const stay = { personId, stage, start: at, end: null };
+    stays.push(stay);
+    open.set(personId, stay);
+  };
+
+  events.forEach((event) => {
+    switch (event.type) {
+      case 'stages_changed': {
+        const renames = renamesIn(event);
+        renamesByRevision.set(event.revision, renames);
+        // Earlier stays are reported under the stage's current name.
+        stays.forEach((stay) => {
+          if (renames.has(stay.stage)) stay.stage = renames.get(stay.stage)!;
+        });
+        break;
+      }
+      case 'created':
+        enter(event.person!.id, event.person!.status, event.at);
+        break;
+      case 'updated': {
+        if (event.field !== 'status') break;
+        const renames = renamesByRevision.get(event.revision);
+        if (renames && renames.get(event.before as string) === event.after) break;
+        close(event.personIds[0], event.at);
+        enter(event.personIds[0], event.after as string, event.at);
+        break;
+      }
+      case 'deleted':
+        close(event.person!.id, event.at);
+        break;
+    }
+  });
+  return stays;
+}
+
+// Latest name and team of everyone in the history, deleted people included.
+function knownPeople(events: PipelineEvent[], people: Person[]) {
+  const known = new Map<string, { name: string; team: string }>();
+  events.forEach((event) => {
+    if (event.type === 'created' || event.type === 'deleted') {
+      known.set(event.person!.id, { name: event.person!.name, team: event.person!.team });
+    } else if (event.type === 'updated' && (event.field === 'name' || event.field === 'team')) {
+      const person = known.get(event.personIds[0]);
+      if (person) person[event.field] = event.after as string;
+    }
+  });
+  people.forEach((person) => known.set(person.id, { name: person.name, team: person.team }));
+  return known;
+}
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Monday of the week `date` falls in, as YYYY-MM-DD.
+export const weekOf = (date: string) => {
+  const day = new Date(date);
+  const monday = new Date(
+    Date.UTC(
+      day.getUTCFullYear(),
+      day.getUTCMonth(),
+      day.getUTCDate() - ((day.getUTCDay() + 6) % 7)
+    )
+  );
+  return monday.toISOString().slice(0, 10);
+};
+
+export function buildReport(
+  events: PipelineEvent[],
+  people: Person[],
+  links: Link[],
+  stages: Stage[],
+  filter: AnalyticsFilter
+): AnalyticsReport {
+  const from = filter.from ? Date.parse(filter.from) : -Infinity;
+  const to = filter.to ? Date.parse(filter.to) + DAY : Infinity;
+  const inRange = (at: string) => Date.parse(at) >= from && Date.parse(at) < to;
+  const known = knownPeople(events, people);
+  const teamOf = (personId: string) => known.get(personId)?.team || '';
+  const onTeam = (personId: string) =>
+    filter.team === undefined || teamOf(personId) === filter.team;
+
+  const stays = buildStays(events).filter((stay) => onTeam(stay.personId));
+  const entered = stays.filter((stay) => inRange(stay.start));
+  const pipeline = stages.filter((stage) => !stage.terminal).map((stage) => stage.name);
+  const terminal = new Set(stages.filter((stage) => stage.terminal).map((stage) => stage.name));
+  const peopleIn = (list: StageStay[]) => new Set(list.map((stay) => stay.personId));
+
+  // Of the people who entered a stage, the share who went on to the next.
+  const enteredCounts = pipeline.map(
+    (stage) => peopleIn(entered.filter((stay) => stay.stage === stage)).size
+  );
+  const funnel = pipeline.map((stage, i) => ({
+    stage,
+    entered: enteredCounts[i],
+    conversion:
+      i + 1 < pipeline.length && enteredCounts[i] ? enteredCounts[i + 1] / enteredCounts[i] : null,
+  }));
+
+  // Stays that ended in the range, so the time is known.
+  const timeInStage = pipeline.map((stage) => {
+    const days = stays
+      .filter((stay) => stay.stage === stage && stay.end && inRange(stay.end))
+      .map((stay) => (Date.parse(stay.end!) - Date.parse(stay.start)) / DAY);
+    return { stage, stays: days.length, averageDays: average(days), medianDays: median(days) };
+  });
+
+  const weeks = new Map<string, Record<string, number>>();
+  entered.forEach((stay) => {
+    const week = weekOf(stay.start);
+    const counts = weeks.get(week) || {};
+    counts[stay.stage] = (counts[stay.stage] || 0) + 1;
+    weeks.set(week, counts);
+  });
+  const throughput = Array.from(weeks, ([week, counts]) => ({
+    week,
+    counts,
+    total: Object.values(counts).reduce((sum, n) => sum + n, 0),
+  })).sort((a, b) => a.week.localeCompare(b.week));
+
+  // Candidates active in the range, and how many of them were turned down.
+  const rejectedIds = peopleIn(entered.filter((stay) => terminal.has(stay.stage)));
+  const teamNames = Array.from(new Set(Array.from(peopleIn(entered), teamOf))).sort();
+  const teams = teamNames.map((team) => {
+    const candidates = Array.from(peopleIn(entered)).filter((id) => teamOf(id) === team);
+    const rejected = candidates.filter((id) => rejectedIds.has(id)).length;
+    return {
+      team,
+      candidates: candidates.length,
+      rejected,
+      rejectionRate: candidates.length ? rejected / candidates.length : null,
+    };
+  });
+
+  // How far the people each referrer brought in got. A person's referrer is
+  // whoever links to them as a referral; people nobody referred count as
+  // "No referrer". For one team, referrers on other teams go unnamed.
+  const stageIndex = new Map(pipeline.map((stage, i) => [stage, i]));
+  const furthest = new Map<string, number>();
+  entered.forEach((stay) => {
+    const index = stageIndex.get(stay.stage);
+    if (index !== undefined) {
+      furthest.set(stay.personId, Math.max(furthest.get(stay.personId) ?? -1, index));
+    }
+  });
+  const byReferrer = new Map<string, string[]>();
+  peopleIn(entered).forEach((id) => {
+    const link = links.find((l) => l.target === id && isReferral(l));
+    const referrer = !link
+      ? 'No referrer'
+      : !onTeam(link.source)
+        ? 'Someone on another requisition'
+        : known.get(link.source)?.name || 'A removed person';
+    byReferrer.set(referrer, [...(byReferrer.get(referrer) || []), id]);
+  });
+  const referrals = Array.from(byReferrer, ([referrer, ids]) => ({
+    referrer,
+    referred: ids.length,
+    advanced: ids.filter((id) => (furthest.get(id) ?? -1) > 0).length,
+    reachedLast: ids.filter((id) => furthest.get(id) === pipeline.length - 1).length,
+    rejected: ids.filter((id) => rejectedIds.has(id)).length,
+  })).sort((a, b) => b.referred - a.referred || a.referrer.localeCompare(b.referrer));
+
+  // For one team, only referrers and loops made up of people on it.
+  const lastStage = pipeline[pipeline.length - 1];
+  const referrers = referrerLeaderboard(
+    people,
+    links,
+    (person) => person.status === lastStage,
+    (person) => onTeam(person.id)
+  ).filter((standing) => onTeam(standing.referrerId));
+  const byId = new Map(people.map((p) => [p.id, p]));
+  const referralCycles = findReferralCycles(links)
+    .filter((cycle) => cycle.every(onTeam))
+    .map((cycle) => cycle.map((id) => byId.get(id)?.name || 'A removed person'));
+
+  return { filter, funnel, timeInStage, throughput, teams, referrals, referrers, referralCycles };
+}
+
+const formatNumber = (value: number | null) =>
+  value === null ? '' : String(Math.round(value * 100) / 100);
+
+// One section of a report as CSV rows with a header.
+export function reportToCsv(report: AnalyticsReport, section: ReportSection): string {
+  switch (section) {
+    case 'funnel':
+      return toCsv([
+        ['stage', 'entered', 'conversion_to_next'],
+        ...report.funnel.map((row) => [
+          row.stage,
+          String(row.entered),
+          formatNumber(row.conversion),
+        ]),
+      ]);
+    case 'timeInStage':
+      return toCsv([
+        ['stage', 'stays', 'average_days', 'median_days'],
+        ...report.timeInStage.map((row) => [
+          row.stage,
+          String(row.stays),
+          formatNumber(row.averageDays),
+          formatNumber(row.medianDays),
+        ]),
+      ]);
+    case 'throughput': {
+      const stages = Array.from(
+        new Set(report.throughput.flatMap((row) => Object.keys(row.counts)))
+      );
+      return toCsv([
+        ['week', ...stages, 'total'],
+        ...report.throughput.map((row) => [
+          row.week,
+          ...stages.map((stage) => String(row.counts[stage] || 0)),
+          String(row.total),
+        ]),
+      ]);
+    }
+    case 'teams':
+      return toCsv([
+        ['team', 'candidates', 'rejected', 'rejection_rate'],
+        ...report.teams.map((row) => [
+          row.team,
+          String(row.candidates),
+          String(row.rejected),
+          formatNumber(row.rejectionRate),
+        ]),
+      ]);
+    case 'referrals':
+      return toCsv([
+        ['referrer', 'referred', 'advanced', 'reached_last_stage', 'rejected'],
+        ...report.referrals.map((row) => [
+          row.referrer,
+          String(row.referred),
+          String(row.advanced),
+          String(row.reachedLast),
+          String(row.rejected),
+        ]),
+      ]);
+    case 'referrers':
+      return toCsv([
+        ['referrer', 'referred', 'network', 'hires', 'depth'],
+        ...report.referrers.map((row) => [
+          row.referrer,
+          String(row.referred),
+          String(row.network),
+          String(row.hires),
+          String(row.depth),
+        ]),
+      ]);
+  }
+}
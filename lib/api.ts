@@ -0,0 +1,442 @@
+// lib/api.ts
+// Client-side wrappers around the resource routes. Each change is a function
+// of the revision it is based on, so it can be re-sent after a conflict.
+import { AnalyticsFilter, AnalyticsReport, ReportSection } from './analytics';
+import { PublicUser, Role } from './auth/types';
+import type { BackupInfo } from './backups';
+import { fromETag, toETag } from './concurrency';
+import { MergeField } from './duplicates';
+import { ImportPreview, ImportSource } from './importExport';
+import { GraphLayout } from './layout/types';
+import {
+  ApplicationForm,
+  ApplicationStatus,
+  Attachment,
+  Feedback,
+  FeedbackSummary,
+  Interview,
+  Link,
+  NewInterview,
+  NewPerson,
+  NewRequisition,
+  Person,
+  PipelineEvent,
+  Recommendation,
+  RelationshipType,
+  Requisition,
+  Stage,
+  VersionedData,
+  defaultStages,
+} from './types';
+import { FieldError } from './validation';
+import { NewSavedView, SavedView } from './views/types';
+
+export type Change = (revision: number) => Promise<Response>;
+
+// Requests are made as the signed-in user, through the session cookie.
+const headers = (extra: Record<string, string> = {}) => ({
+  'Content-Type': 'application/json',
+  ...extra,
+});
+
+const jsonRequest = (url: string, method: string, body: unknown, revision: number) =>
+  fetch(url, {
+    method,
+    headers: headers({ 'If-Match': toETag(revision) }),
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const personUrl = (id: string) => `/api/people/${encodeURIComponent(id)}`;
+
+// `reassign` maps the id of each removed stage that still has people to the
+// id of the stage they move to.
+export const saveStages = (stages: Stage[], reassign: Record<string, string>): Change => (
+  revision
+) => jsonRequest('/api/stages', 'PUT', { stages, reassign }, revision);
+
+// Responds with the created person, including the id the server assigned.
+// `referredBy` is linked to them as `relationship`, a referral by default.
+// Likely duplicates of someone existing are refused unless `allowDuplicate`
+// is set.
+export const createPerson = (
+  person: NewPerson,
+  referredBy?: string,
+  relationship?: RelationshipType,
+  allowDuplicate = false
+): Change => (revision) =>
+  jsonRequest(
+    '/api/people',
+    'POST',
+    { ...person, referredBy, relationship, allowDuplicate },
+    revision
+  );
+
+export const updatePerson = (person: Person): Change => (revision) =>
+  jsonRequest(personUrl(person.id), 'PATCH', person, revision);
+
+export const deletePerson = (id: string): Change => (revision) =>
+  jsonRequest(personUrl(id), 'DELETE', undefined, revision);
+
+export const bulkUpdatePeople = (ids: string[], changes: Partial<Person>): Change => (revision) =>
+  jsonRequest('/api/people/bulk', 'POST', { ids, action: 'update', changes }, revision);
+
+export const bulkDeletePeople = (ids: string[]): Change => (revision) =>
+  jsonRequest('/api/people/bulk', 'POST', { ids, action: 'delete' }, revision);
+
+// Merges `duplicateId` into `survivorId`, taking the `take` fields from the
+// duplicate.
+export const mergePeople = (survivorId: string, duplicateId: string, take: MergeField[]): Change => (
+  revision
+) => jsonRequest('/api/people/merge', 'POST', { survivorId, duplicateId, take }, revision);
+
+export const createLink = (link: Link): Change => (revision) =>
+  jsonRequest('/api/links', 'POST', link, revision);
+
+export const deleteLink = ({ source, target, type }: Link): Change => (revision) =>
+  jsonRequest(
+    `/api/links?${new URLSearchParams({ source, target, type })}`,
+    'DELETE',
+    undefined,
+    revision
+  );
+
+const requisitionUrl = (id: string) => `/api/requisitions/${encodeURIComponent(id)}`;
+
+// Responds with the created requisition, including the id the server assigned.
+export const createRequisition = (requisition: NewRequisition): Change => (revision) =>
+  jsonRequest('/api/requisitions', 'POST', requisition, revision);
+
+// Renaming also moves everyone on the requisition.
+export const updateRequisition = (requisition: Requisition): Change => (revision) =>
+  jsonRequest(requisitionUrl(requisition.id), 'PATCH', requisition, revision);
+
+export const deleteRequisition = (id: string): Change => (revision) =>
+  jsonRequest(requisitionUrl(id), 'DELETE', undefined, revision);
+
+const interviewUrl = (id: string) => `/api/interviews/${encodeURIComponent(id)}`;
+
+// Double-booked interviewers are refused unless `allowDoubleBooking` is set.
+export const createInterview = (interview: NewInterview, allowDoubleBooking = false): Change => (
+  revision
+) => jsonRequest('/api/interviews', 'POST', { ...interview, allowDoubleBooking }, revision);
+
+export const updateInterview = (interview: Interview, allowDoubleBooking = false): Change => (
+  revision
+) =>
+  jsonRequest(
+    interviewUrl(interview.id),
+    'PATCH',
+    { ...interview, allowDoubleBooking },
+    revision
+  );
+
+export const deleteInterview = (id: string): Change => (revision) =>
+  jsonRequest(interviewUrl(id), 'DELETE', undefined, revision);
+
+// Scores the candidate as the current actor, on their current stage's scorecard.
+export const submitFeedback = (
+  personId: string,
+  ratings: Record<string, number>,
+  recommendation: Recommendation,
+  comments: string
+): Change => (revision) =>
+  jsonRequest('/api/feedback', 'POST', { personId, ratings, recommendation, comments }, revision);
+
+export const withdrawFeedback = (id: string): Change => (revision) =>
+  jsonRequest(`/api/feedback/${encodeURIComponent(id)}`, 'DELETE', undefined, revision);
+
+// With the user's calendar token, the feeds work without a session, so a
+// calendar client can subscribe to them.
+const withToken = (url: string, token?: string) =>
+  token ? `${url}?token=${encodeURIComponent(token)}` : url;
+
+export const personCalendarUrl = (id: string, token?: string) =>
+  withToken(`/api/calendar/people/${encodeURIComponent(id)}.ics`, token);
+
+export const interviewerCalendarUrl = (name: string, token?: string) =>
+  withToken(`/api/calendar/interviewers/${encodeURIComponent(name)}.ics`, token);
+
+export async function fetchCalendarToken(reset = false): Promise<string> {
+  const res = await fetch('/api/calendar/token', { method: reset ? 'POST' : 'GET' });
+  return (await res.json()).token;
+}
+
+// Imports every row without errors as one change.
+export const importPeople = (source: ImportSource, skipDuplicates: boolean): Change => (
+  revision
+) => jsonRequest('/api/import', 'POST', { ...source, skipDuplicates }, revision);
+
+export async function fetchData(): Promise<VersionedData> {
+  const res = await fetch('/api/data');
+  const data = await res.json();
+  const etag = res.headers.get('ETag');
+  return {
+    revision: etag ? fromETag(etag) : data.revision || 0,
+    nodes: data.nodes || [],
+    links: data.links || [],
+    stages: data.stages || defaultStages,
+    interviews: data.interviews || [],
+    // Only handed out per candidate; see fetchFeedback.
+    feedback: [],
+    requisitions: data.requisitions || [],
+  };
+}
+
+export async function fetchHistory(personId?: string): Promise<PipelineEvent[]> {
+  const query = personId ? `?personId=${encodeURIComponent(personId)}` : '';
+  const res = await fetch(`/api/history${query}`);
+  return res.json();
+}
+
+// Undo everything a revision changed; resolves to the revision of the undo.
+export async function revertRevision(revision: number): Promise<{ revision: number; skipped: number }> {
+  const res = await fetch('/api/history/revert', {
+    method: 'POST',
+    headers: headers(),
+    body: JSON.stringify({ revision }),
+  });
+  if (!res.ok) {
+    throw new Error((await res.json()).message);
+  }
+  return res.json();
+}
+
+// What restoring a backup would change, as history events.
+export interface BackupPreview extends BackupInfo {
+  revisionNow: number;
+  changes: PipelineEvent[];
+  // The people in the backup.
+  people: Person[];
+}
+
+export async function fetchBackups(): Promise<BackupInfo[]> {
+  const res = await fetch('/api/backups');
+  if (!res.ok) {
+    throw new Error((await res.json()).message);
+  }
+  return res.json();
+}
+
+export async function fetchBackupPreview(id: string): Promise<BackupPreview> {
+  const res = await fetch(`/api/backups/${encodeURIComponent(id)}`);
+  if (!res.ok) {
+    throw new Error((await res.json()).message);
+  }
+  return res.json();
+}
+
+export const restoreBackup = (id: string): Change => (revision) =>
+  jsonRequest('/api/backups/restore', 'POST', { id }, revision);
+
+// A requisition's public application form, as applicants see it.
+export interface PublicApplicationForm extends ApplicationForm {
+  id: string;
+  name: string;
+}
+
+// What an applicant can see of their application.
+export interface ApplicationReceipt {
+  name?: string;
+  position: string;
+  submittedAt: string;
+  status: ApplicationStatus;
+}
+
+const applyUrl = (requisitionId: string) => `/api/apply/${encodeURIComponent(requisitionId)}`;
+
+export async function fetchApplicationForm(requisitionId: string): Promise<PublicApplicationForm> {
+  const res = await fetch(applyUrl(requisitionId));
+  if (!res.ok) {
+    throw new Error((await res.json()).message);
+  }
+  return res.json();
+}
+
+// Responds with the applicant's status token, or the field errors.
+export const submitApplication = (requisitionId: string, application: Record<string, string>) =>
+  fetch(applyUrl(requisitionId), {
+    method: 'POST',
+    headers: headers(),
+    body: JSON.stringify(application),
+  });
+
+export async function fetchApplication(token: string): Promise<ApplicationReceipt> {
+  const res = await fetch(`/api/applications/${encodeURIComponent(token)}`);
+  if (!res.ok) {
+    throw new Error((await res.json()).message);
+  }
+  return res.json();
+}
+
+export async function previewImport(source: ImportSource): Promise<ImportPreview> {
+  const res = await fetch('/api/import/preview', {
+    method: 'POST',
+    headers: headers(),
+    body: JSON.stringify(source),
+  });
+  if (!res.ok) {
+    throw new Error((await res.json()).message);
+  }
+  return res.json();
+}
+
+export interface PersonFeedback {
+  // Null for interviewers who have not given feedback on this person yet.
+  summary: FeedbackSummary | null;
+  // Whether the current actor has given feedback on this person yet; until
+  // they have, others' submissions are hidden.
+  submitted: boolean;
+  feedback: Feedback[];
+  hidden: number;
+}
+
+export async function fetchFeedback(personId: string): Promise<PersonFeedback> {
+  const res = await fetch(`/api/feedback?personId=${encodeURIComponent(personId)}`, {
+    headers: headers(),
+  });
+  return res.json();
+}
+
+export async function fetchFeedbackSummaries(): Promise<Record<string, FeedbackSummary>> {
+  const res = await fetch('/api/feedback/summary');
+  return res.json();
+}
+
+const analyticsQuery = (filter: AnalyticsFilter, extra: Record<string, string> = {}) =>
+  new URLSearchParams({ ...filter, ...extra }).toString();
+
+export async function fetchAnalytics(filter: AnalyticsFilter): Promise<AnalyticsReport> {
+  const res = await fetch(`/api/analytics?${analyticsQuery(filter)}`);
+  if (!res.ok) {
+    throw new Error((await res.json()).message);
+  }
+  return res.json();
+}
+
+export const analyticsCsvUrl = (filter: AnalyticsFilter, section: ReportSection) =>
+  `/api/analytics?${analyticsQuery(filter, { format: 'csv', section })}`;
+
+// The signed-in user, or null when nobody is.
+export async function fetchMe(): Promise<PublicUser | null> {
+  const res = await fetch('/api/auth/me');
+  return res.ok ? res.json() : null;
+}
+
+export async function fetchLoginOptions(): Promise<{ password: boolean; oidc: boolean }> {
+  const res = await fetch('/api/auth/login');
+  return res.json();
+}
+
+export async function login(username: string, password: string): Promise<PublicUser> {
+  const res = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: headers(),
+    body: JSON.stringify({ username, password }),
+  });
+  if (!res.ok) {
+    throw new Error((await res.json()).message);
+  }
+  return res.json();
+}
+
+export async function logout() {
+  await fetch('/api/auth/logout', { method: 'POST' });
+}
+
+export interface UserInput {
+  username: string;
+  name: string;
+  role: Role;
+  team?: string;
+  password?: string;
+  unlinkOidc?: boolean;
+}
+
+// The standard validation errors of a failed response, joined into one
+// message.
+async function responseError(res: Response) {
+  const { message, errors } = await res.json();
+  return new Error(
+    errors ? errors.map((e: FieldError) => `${e.field} ${e.message}`).join('\n') : message
+  );
+}
+
+async function userRequest(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: headers(),
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    throw await responseError(res);
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+export const fetchUsers = (): Promise<PublicUser[]> => userRequest('/api/users', 'GET');
+
+export const createUser = (user: UserInput): Promise<PublicUser> =>
+  userRequest('/api/users', 'POST', user);
+
+export const updateUser = (id: string, changes: Partial<UserInput>): Promise<PublicUser> =>
+  userRequest(`/api/users/${encodeURIComponent(id)}`, 'PATCH', changes);
+
+export const deleteUser = (id: string) =>
+  userRequest(`/api/users/${encodeURIComponent(id)}`, 'DELETE');
+
+// The signed-in user's own layout of a graph view.
+const layoutUrl = (view: string) => `/api/layouts/${encodeURIComponent(view)}`;
+
+export const fetchLayout = (view: string): Promise<GraphLayout> =>
+  userRequest(layoutUrl(view), 'GET');
+
+export const saveLayout = (view: string, layout: GraphLayout): Promise<GraphLayout> =>
+  userRequest(layoutUrl(view), 'PUT', layout);
+
+export const fetchViews = (): Promise<SavedView[]> => userRequest('/api/views', 'GET');
+
+export const createView = (view: NewSavedView): Promise<SavedView> =>
+  userRequest('/api/views', 'POST', view);
+
+export const updateView = (id: string, changes: Partial<NewSavedView>): Promise<SavedView> =>
+  userRequest(`/api/views/${encodeURIComponent(id)}`, 'PATCH', changes);
+
+export const deleteView = (id: string) =>
+  userRequest(`/api/views/${encodeURIComponent(id)}`, 'DELETE');
+
+// Server-Sent Events for the page identified by `clientId`; see useLive.
+export const liveUrl = (clientId: string) => `/api/live?clientId=${encodeURIComponent(clientId)}`;
+
+// Which candidate the page has open, or null for none.
+export const announcePresence = (clientId: string, personId: string | null, editing: boolean) =>
+  userRequest('/api/live/presence', 'PUT', { clientId, personId, editing });
+
+const attachmentsUrl = (personId: string) => `${personUrl(personId)}/attachments`;
+
+export const attachmentUrl = (attachment: Attachment) =>
+  `${attachmentsUrl(attachment.personId)}/${encodeURIComponent(attachment.id)}`;
+
+export async function fetchAttachments(personId: string): Promise<Attachment[]> {
+  const res = await fetch(attachmentsUrl(personId));
+  return res.ok ? res.json() : [];
+}
+
+// The file is sent as it is, with its name in the query.
+export async function uploadAttachment(personId: string, file: File): Promise<Attachment> {
+  const res = await fetch(`${attachmentsUrl(personId)}?fileName=${encodeURIComponent(file.name)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': file.type || 'application/octet-stream' },
+    body: file,
+  });
+  if (!res.ok) {
+    throw await responseError(res);
+  }
+  return res.json();
+}
+
+export async function deleteAttachment(attachment: Attachment) {
+  const res = await fetch(attachmentUrl(attachment), { method: 'DELETE' });
+  if (!res.ok) {
+    throw await responseError(res);
+  }
+}
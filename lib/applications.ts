@@ -0,0 +1,85 @@
+// lib/applications.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic } from './storage/atomic';
+import { ApplicationStatus, Person, Requisition, Stage } from './types';
+
+// Applications sent through the public form, in APPLICATIONS_FILE (default
+// ./data.applications.json), so applicants can look theirs up with the token
+// they were given. Only a hash of the token is kept.
+export const applicationsFilePath = path.resolve(
+  process.env.APPLICATIONS_FILE || 'data.applications.json'
+);
+
+export interface Application {
+  tokenHash: string;
+  personId: string;
+  requisitionId: string;
+  // The requisition's name when they applied, in case it goes away.
+  requisitionName: string;
+  submittedAt: string;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+function readApplications(): Application[] {
+  if (!fs.existsSync(applicationsFilePath)) return [];
+  return JSON.parse(fs.readFileSync(applicationsFilePath, 'utf8'));
+}
+
+// Records an application and returns the applicant's token.
+export function recordApplication(personId: string, requisition: Requisition): string {
+  const token = crypto.randomBytes(24).toString('hex');
+  const application: Application = {
+    tokenHash: hashToken(token),
+    personId,
+    requisitionId: requisition.id,
+    requisitionName: requisition.name,
+    submittedAt: new Date().toISOString(),
+  };
+  writeFileAtomic(
+    applicationsFilePath,
+    JSON.stringify([...readApplications(), application], null, 2)
+  );
+  return token;
+}
+
+export const findApplication = (token: string) =>
+  /^[0-9a-f]{48}$/.test(token)
+    ? readApplications().find((a) => a.tokenHash === hashToken(token))
+    : undefined;
+
+// Received while in the first stage, closed in a terminal stage or once
+// removed, and in review anywhere in between.
+export function applicationStatus(person: Person | undefined, stages: Stage[]): ApplicationStatus {
+  const stage = person && stages.find((s) => s.name === person.status);
+  if (!person || stage?.terminal) return 'closed';
+  return person.status === stages[0]?.name ? 'received' : 'in_review';
+}
+
+// The public form accepts APPLY_RATE_LIMIT (default 5) applications an hour
+// from each address. Kept on globalThis, as every API route is bundled
+// separately.
+const WINDOW_MS = 60 * 60 * 1000;
+const attempts: Map<string, number[]> = ((globalThis as any).__applicationAttempts ||= new Map());
+
+// Counts an attempt from `address`; false once it is over the limit, with the
+// seconds until the next is allowed.
+export function allowApplication(
+  address: string,
+  now = Date.now()
+): { allowed: boolean; retryAfter: number } {
+  const limit = Number(process.env.APPLY_RATE_LIMIT) || 5;
+  // Forget addresses with no attempts left in the window.
+  attempts.forEach((times, key) => {
+    if (now - times[times.length - 1] >= WINDOW_MS) attempts.delete(key);
+  });
+  const recent = (attempts.get(address) || []).filter((at) => now - at < WINDOW_MS);
+  if (recent.length >= limit) {
+    attempts.set(address, recent);
+    return { allowed: false, retryAfter: Math.ceil((recent[0] + WINDOW_MS - now) / 1000) };
+  }
+  attempts.set(address, [...recent, now]);
+  return { allowed: true, retryAfter: 0 };
+}
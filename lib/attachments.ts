@@ -0,0 +1,116 @@
+// lib/attachments.ts
+import fs from 'fs';
+import path from 'path';
+import { newId } from './ids';
+import { Attachment } from './types';
+import { FieldError } from './validation';
+
+// Files kept with people, such as resumes, under ATTACHMENTS_DIR (default
+// ./attachments): one directory per person with the files and an index.json
+// of their metadata. They are kept when the person is deleted, so undoing the
+// deletion brings them back.
+export const attachmentsDir = path.resolve(process.env.ATTACHMENTS_DIR || 'attachments');
+
+// Largest accepted file, ATTACHMENT_MAX_BYTES, default 10 MB.
+export const maxAttachmentBytes = Number(process.env.ATTACHMENT_MAX_BYTES) || 10 * 1024 * 1024;
+
+// Accepted content types and the file extensions that go with them.
+export const attachmentTypes: Record<string, string[]> = {
+  'application/pdf': ['.pdf'],
+  'application/msword': ['.doc'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  'application/vnd.oasis.opendocument.text': ['.odt'],
+  'application/rtf': ['.rtf'],
+  'text/plain': ['.txt'],
+  'image/png': ['.png'],
+  'image/jpeg': ['.jpg', '.jpeg'],
+};
+
+// Person ids are escaped so no id can point outside the directory.
+const personDir = (personId: string) =>
+  path.join(attachmentsDir, encodeURIComponent(personId).replace(/\./g, '%2E'));
+
+const indexPath = (personId: string) => path.join(personDir(personId), 'index.json');
+
+export const attachmentPath = (attachment: Attachment) =>
+  path.join(personDir(attachment.personId), attachment.id);
+
+export function listAttachments(personId: string): Attachment[] {
+  if (!fs.existsSync(indexPath(personId))) return [];
+  return JSON.parse(fs.readFileSync(indexPath(personId), 'utf8'));
+}
+
+export const findAttachment = (personId: string, id: string) =>
+  listAttachments(personId).find((a) => a.id === id);
+
+const writeIndex = (personId: string, attachments: Attachment[]) =>
+  fs.writeFileSync(indexPath(personId), JSON.stringify(attachments, null, 2), 'utf8');
+
+// The content type to store a file under. Browsers don't always know the
+// type of office documents, so a missing or generic type is taken from the
+// extension; otherwise the two must agree.
+export function attachmentType(fileName: string, contentType: string): string | undefined {
+  const extension = path.extname(fileName).toLowerCase();
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (!type || type === 'application/octet-stream') {
+    return Object.keys(attachmentTypes).find((t) => attachmentTypes[t].includes(extension));
+  }
+  return attachmentTypes[type]?.includes(extension) ? type : undefined;
+}
+
+export function validateUpload(fileName: unknown, contentType: string): FieldError[] {
+  if (typeof fileName !== 'string' || fileName.trim() === '') {
+    return [{ field: 'fileName', message: 'must be a non-empty string' }];
+  }
+  if (/[\/\\\x00-\x1f]/.test(fileName) || fileName.length > 200) {
+    return [{ field: 'fileName', message: 'must be a plain file name of at most 200 characters' }];
+  }
+  if (!attachmentType(fileName, contentType)) {
+    const extensions = Object.values(attachmentTypes).flat().join(', ');
+    return [{ field: 'contentType', message: `must be one of ${extensions}` }];
+  }
+  return [];
+}
+
+export function saveAttachment(
+  personId: string,
+  fileName: string,
+  contentType: string,
+  content: Buffer,
+  uploadedBy: string
+): Attachment {
+  const attachment: Attachment = {
+    id: newId(),
+    personId,
+    fileName,
+    contentType: attachmentType(fileName, contentType)!,
+    size: content.length,
+    uploadedAt: new Date().toISOString(),
+    uploadedBy,
+  };
+  fs.mkdirSync(personDir(personId), { recursive: true });
+  fs.writeFileSync(attachmentPath(attachment), content);
+  writeIndex(personId, [...listAttachments(personId), attachment]);
+  return attachment;
+}
+
+export function removeAttachment(attachment: Attachment) {
+  writeIndex(
+    attachment.personId,
+    listAttachments(attachment.personId).filter((a) => a.id !== attachment.id)
+  );
+  fs.rmSync(attachmentPath(attachment), { force: true });
+}
+
+// Copies of every file kept with one person, kept with another, as when
+// merging duplicates. The originals stay in case the merge is undone.
+export function copyAttachments(fromPersonId: string, toPersonId: string): Attachment[] {
+  const copies = listAttachments(fromPersonId).map((attachment) => {
+    const copy: Attachment = { ...attachment, id: newId(), personId: toPersonId };
+    fs.mkdirSync(personDir(toPersonId), { recursive: true });
+    fs.copyFileSync(attachmentPath(attachment), attachmentPath(copy));
+    return copy;
+  });
+  if (copies.length) writeIndex(toPersonId, [...listAttachments(toPersonId), ...copies]);
+  return copies;
+}
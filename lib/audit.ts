@@ -0,0 +1,348 @@
+// lib/audit.ts
+import { renameFeedbackStages } from './feedback';
+import type { StorageTransaction } from './storage/types';
+import {
+  DataStructure,
+  Interview,
+  Link,
+  Person,
+  PipelineEvent,
+  Requisition,
+  Stage,
+} from './types';
+
+// Fields whose changes are recorded. Positions are left out on purpose: a
+// drag is not a pipeline change.
+export const trackedFields = [
+  'name',
+  'status',
+  'starred',
+  'team',
+  'notes',
+  'email',
+  'phone',
+  'linkedin',
+  'source',
+  'position',
+  'salaryExpectation',
+  'tags',
+] as const;
+
+export const ANONYMOUS = 'anonymous';
+
+const linkKey = (l: Link) => `${l.source}->${l.target}:${l.type}`;
+
+const sameStages = (a: Stage[], b: Stage[]) => JSON.stringify(a) === JSON.stringify(b);
+
+const sameInterview = (a: Interview, b: Interview) => JSON.stringify(a) === JSON.stringify(b);
+
+// Field values compare by content, so an unchanged list of tags is no change.
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Describe the difference between two states of the pipeline as events.
+export function diffEvents(
+  before: DataStructure,
+  after: DataStructure,
+  base: Pick<PipelineEvent, 'revision' | 'at' | 'actor'>
+): PipelineEvent[] {
+  const events: PipelineEvent[] = [];
+  const beforeById = new Map(before.nodes.map((n) => [n.id, n]));
+  const afterById = new Map(after.nodes.map((n) => [n.id, n]));
+  const afterLinks = new Set(after.links.map(linkKey));
+  const beforeLinks = new Set(before.links.map(linkKey));
+  const beforeInterviews = new Map((before.interviews || []).map((i) => [i.id, i]));
+  const afterInterviews = new Map((after.interviews || []).map((i) => [i.id, i]));
+  const beforeFeedback = new Map((before.feedback || []).map((f) => [f.id, f]));
+  const afterFeedback = new Map((after.feedback || []).map((f) => [f.id, f]));
+  const deleted = new Set<string>();
+
+  before.nodes.forEach((person) => {
+    if (afterById.has(person.id)) return;
+    deleted.add(person.id);
+    const links = before.links.filter(
+      (l) => (l.source === person.id || l.target === person.id) && !afterLinks.has(linkKey(l))
+    );
+    const interviews = (before.interviews || []).filter(
+      (i) => i.personId === person.id && !afterInterviews.has(i.id)
+    );
+    const feedback = (before.feedback || []).filter(
+      (f) => f.personId === person.id && !afterFeedback.has(f.id)
+    );
+    events.push({
+      ...base,
+      type: 'deleted',
+      personIds: [person.id],
+      person,
+      links,
+      interviews,
+      feedback,
+    });
+  });
+
+  after.nodes.forEach((person) => {
+    const previous = beforeById.get(person.id);
+    if (!previous) {
+      events.push({ ...base, type: 'created', personIds: [person.id], person });
+      return;
+    }
+    trackedFields.forEach((field) => {
+      if (!sameValue(previous[field], person[field])) {
+        events.push({
+          ...base,
+          type: 'updated',
+          personIds: [person.id],
+          field,
+          before: previous[field],
+          after: person[field],
+        });
+      }
+    });
+  });
+
+  before.links.forEach((link) => {
+    if (afterLinks.has(linkKey(link))) return;
+    // Already recorded with the deleted person.
+    if (deleted.has(link.source) || deleted.has(link.target)) return;
+    events.push({ ...base, type: 'link_removed', personIds: [link.source, link.target], link });
+  });
+
+  after.links.forEach((link) => {
+    if (beforeLinks.has(linkKey(link))) return;
+    events.push({ ...base, type: 'link_added', personIds: [link.source, link.target], link });
+  });
+
+  beforeInterviews.forEach((interview) => {
+    if (afterInterviews.has(interview.id)) return;
+    // Already recorded with the deleted person.
+    if (deleted.has(interview.personId)) return;
+    events.push({
+      ...base,
+      type: 'interview_removed',
+      personIds: [interview.personId],
+      interview,
+    });
+  });
+
+  afterInterviews.forEach((interview) => {
+    const previous = beforeInterviews.get(interview.id);
+    if (!previous) {
+      events.push({ ...base, type: 'interview_added', personIds: [interview.personId], interview });
+    } else if (!sameInterview(previous, interview)) {
+      events.push({
+        ...base,
+        type: 'interview_updated',
+        personIds: [interview.personId],
+        before: previous,
+        after: interview,
+      });
+    }
+  });
+
+  // Submissions are only ever added or withdrawn, never edited.
+  beforeFeedback.forEach((scorecard) => {
+    if (afterFeedback.has(scorecard.id) || deleted.has(scorecard.personId)) return;
+    events.push({ ...base, type: 'feedback_removed', personIds: [scorecard.personId], scorecard });
+  });
+
+  afterFeedback.forEach((scorecard) => {
+    if (beforeFeedback.has(scorecard.id)) return;
+    events.push({ ...base, type: 'feedback_added', personIds: [scorecard.personId], scorecard });
+  });
+
+  // Renames show up here and as a team change of everyone on the requisition.
+  if (before.requisitions && after.requisitions) {
+    const beforeRequisitions = new Map(before.requisitions.map((r) => [r.id, r]));
+    const afterRequisitions = new Map(after.requisitions.map((r) => [r.id, r]));
+    beforeRequisitions.forEach((requisition) => {
+      if (afterRequisitions.has(requisition.id)) return;
+      events.push({ ...base, type: 'requisition_removed', personIds: [], requisition });
+    });
+    afterRequisitions.forEach((requisition) => {
+      const previous = beforeRequisitions.get(requisition.id);
+      if (!previous) {
+        events.push({ ...base, type: 'requisition_added', personIds: [], requisition });
+      } else if (!sameValue(previous, requisition)) {
+        events.push({
+          ...base,
+          type: 'requisition_updated',
+          personIds: [],
+          before: previous,
+          after: requisition,
+        });
+      }
+    });
+  }
+
+  if (before.stages && after.stages && !sameStages(before.stages, after.stages)) {
+    events.push({
+      ...base,
+      type: 'stages_changed',
+      personIds: [],
+      before: before.stages,
+      after: after.stages,
+    });
+  }
+
+  return events;
+}
+
+const hasMembers = (tx: StorageTransaction, name: string) =>
+  tx.load().nodes.some((p) => p.team === name);
+
+// Apply the inverse of `events`, newest first. A change is skipped when the
+// data has moved on since (the field was edited again, a link end is gone),
+// and the number of skipped changes is returned.
+export function revertEvents(tx: StorageTransaction, events: PipelineEvent[]): number {
+  let skipped = 0;
+  const exists = (id: string) => tx.getPerson(id) !== undefined;
+
+  [...events].reverse().forEach((event) => {
+    switch (event.type) {
+      case 'created':
+        if (exists(event.person!.id)) {
+          tx.deletePerson(event.person!.id);
+        } else {
+          skipped++;
+        }
+        break;
+      case 'updated': {
+        const person = tx.getPerson(event.personIds[0]);
+        const field = event.field as keyof Person;
+        if (person && sameValue(person[field], event.after)) {
+          tx.updatePerson({ ...person, [field]: event.before });
+        } else {
+          skipped++;
+        }
+        break;
+      }
+      case 'deleted':
+        if (exists(event.person!.id)) {
+          skipped++;
+          break;
+        }
+        tx.createPerson(event.person!);
+        (event.links || []).forEach((link) => {
+          if (exists(link.source) && exists(link.target)) {
+            tx.createLink(link);
+          } else {
+            skipped++;
+          }
+        });
+        (event.interviews || []).forEach((interview) => tx.createInterview(interview));
+        (event.feedback || []).forEach((scorecard) => tx.createFeedback(scorecard));
+        break;
+      case 'link_added':
+        tx.deleteLink(event.link!);
+        break;
+      case 'link_removed':
+        if (exists(event.link!.source) && exists(event.link!.target)) {
+          tx.createLink(event.link!);
+        } else {
+          skipped++;
+        }
+        break;
+      case 'interview_added':
+        if (tx.getInterview(event.interview!.id)) {
+          tx.deleteInterview(event.interview!.id);
+        } else {
+          skipped++;
+        }
+        break;
+      case 'interview_updated': {
+        const interview = tx.getInterview((event.after as Interview).id);
+        if (interview && sameInterview(interview, event.after as Interview)) {
+          tx.updateInterview(event.before as Interview);
+        } else {
+          skipped++;
+        }
+        break;
+      }
+      case 'interview_removed':
+        if (exists(event.interview!.personId) && !tx.getInterview(event.interview!.id)) {
+          tx.createInterview(event.interview!);
+        } else {
+          skipped++;
+        }
+        break;
+      case 'feedback_added':
+        if (tx.getFeedback(event.scorecard!.id)) {
+          tx.deleteFeedback(event.scorecard!.id);
+        } else {
+          skipped++;
+        }
+        break;
+      case 'feedback_removed':
+        if (exists(event.scorecard!.personId) && !tx.getFeedback(event.scorecard!.id)) {
+          tx.createFeedback(event.scorecard!);
+        } else {
+          skipped++;
+        }
+        break;
+      case 'stages_changed': {
+        // Feedback moved along with a renamed stage moves back.
+        const names = new Map((event.before as Stage[]).map((stage) => [stage.id, stage.name]));
+        const renames = new Map(
+          (event.after as Stage[])
+            .filter((stage) => names.has(stage.id) && names.get(stage.id) !== stage.name)
+            .map((stage) => [stage.name, names.get(stage.id)!])
+        );
+        if (sameStages(tx.getStages(), event.after as Stage[])) {
+          tx.setStages(event.before as Stage[]);
+          renameFeedbackStages(tx, renames);
+        } else {
+          skipped++;
+        }
+        break;
+      }
+      case 'requisition_added': {
+        // Kept while anyone is still on it.
+        const { id, name } = event.requisition!;
+        const requisitions = tx.getRequisitions();
+        if (requisitions.some((r) => r.id === id) && !hasMembers(tx, name)) {
+          tx.setRequisitions(requisitions.filter((r) => r.id !== id));
+        } else {
+          skipped++;
+        }
+        break;
+      }
+      case 'requisition_updated': {
+        // Field by field, so a rename still goes back (as its candidates do)
+        // when the requisition was closed since.
+        const before = event.before as Requisition;
+        const after = event.after as Requisition;
+        const requisitions = tx.getRequisitions();
+        const current = requisitions.find((r) => r.id === after.id);
+        if (!current) {
+          skipped++;
+          break;
+        }
+        const reverted = { ...current };
+        let conflicts = false;
+        (Object.keys(after) as (keyof Requisition)[]).forEach((key) => {
+          if (sameValue(before[key], after[key])) return;
+          const taken =
+            key === 'name' && requisitions.some((r) => r.id !== after.id && r.name === before.name);
+          if (sameValue(current[key], after[key]) && !taken) {
+            Object.assign(reverted, { [key]: before[key] });
+          } else {
+            conflicts = true;
+          }
+        });
+        tx.setRequisitions(requisitions.map((r) => (r.id === after.id ? reverted : r)));
+        if (conflicts) skipped++;
+        break;
+      }
+      case 'requisition_removed': {
+        const { id, name } = event.requisition!;
+        const requisitions = tx.getRequisitions();
+        if (!requisitions.some((r) => r.id === id || r.name === name)) {
+          tx.setRequisitions([...requisitions, event.requisition!]);
+        } else {
+          skipped++;
+        }
+        break;
+      }
+    }
+  });
+  return skipped;
+}
@@ -0,0 +1,159 @@
+// lib/auth/access.ts
+// What each role may do and see. Used by the API routes to enforce it, and by
+// the page to hide what would be refused anyway.
+import { withoutFeedback } from '../feedback';
+import { interviewerKey } from '../interviews';
+import type { LiveChange, Presence } from '../realtime/types';
+import { Interview, Person, PipelineEvent, VersionedData } from '../types';
+import { Permission, Role } from './types';
+
+type Viewer = { role: Role; name: string; team?: string };
+
+// Admins may do everything.
+const grants: Record<Role, Permission[]> = {
+  admin: [],
+  recruiter: [
+    'people:edit',
+    'people:manage',
+    'notes:read',
+    'stages:manage',
+    'requisitions:manage',
+    'history:read',
+    'history:revert',
+    'interviews:manage',
+    'analytics:read',
+    'export',
+  ],
+  hiring_manager: [
+    'people:edit',
+    'notes:read',
+    'history:read',
+    'history:revert',
+    'interviews:manage',
+    'analytics:read',
+  ],
+  interviewer: [],
+};
+
+export const can = (user: Viewer, permission: Permission) =>
+  user.role === 'admin' || grants[user.role].includes(permission);
+
+export const seesEveryone = (user: Viewer) => user.role === 'admin' || user.role === 'recruiter';
+
+// Hiring managers see their team's candidates, interviewers the candidates
+// they are scheduled to interview, everyone else sees all of them.
+export function canSeePerson(user: Viewer, person: Person, interviews: Interview[]): boolean {
+  if (user.role === 'hiring_manager') {
+    return Boolean(user.team) && person.team === user.team;
+  }
+  if (user.role === 'interviewer') {
+    return interviews.some(
+      (i) =>
+        i.personId === person.id &&
+        i.interviewers.some((name) => interviewerKey(name) === interviewerKey(user.name))
+    );
+  }
+  return true;
+}
+
+export const visiblePersonIds = (user: Viewer, data: Pick<VersionedData, 'nodes' | 'interviews'>) =>
+  new Set(data.nodes.filter((p) => canSeePerson(user, p, data.interviews)).map((p) => p.id));
+
+// Notes and salary expectations are only for those who may read notes.
+export const redactPerson = (user: Viewer, person: Person): Person =>
+  can(user, 'notes:read')
+    ? person
+    : { ...person, notes: '', ...(person.salaryExpectation ? { salaryExpectation: '' } : {}) };
+
+// The part of the pipeline `user` may see: their candidates, the links and
+// interviews between them, the requisitions they are on, and no feedback.
+export function scopeData(user: Viewer, data: VersionedData) {
+  const visible = visiblePersonIds(user, data);
+  const scoped = withoutFeedback(data);
+  const nodes = scoped.nodes.filter((p) => visible.has(p.id));
+  return {
+    ...scoped,
+    nodes: nodes.map((p) => redactPerson(user, p)),
+    links: scoped.links.filter((l) => visible.has(l.source) && visible.has(l.target)),
+    interviews: scoped.interviews.filter((i) => visible.has(i.personId)),
+    requisitions: seesEveryone(user)
+      ? scoped.requisitions
+      : scoped.requisitions.filter(
+          (r) => r.name === user.team || nodes.some((p) => p.team === r.name)
+        ),
+  };
+}
+
+// The history entries `user` may see: for everyone but admins and recruiters,
+// only those about people they can see now. Changes to stages and
+// requisitions concern nobody in particular, so only the former see them.
+export function scopeEvents(
+  user: Viewer,
+  events: PipelineEvent[],
+  data: Pick<VersionedData, 'nodes' | 'interviews'>
+): PipelineEvent[] {
+  if (seesEveryone(user)) return events;
+  const visible = visiblePersonIds(user, data);
+  return events.filter(
+    (event) => event.personIds.length > 0 && event.personIds.every((id) => visible.has(id))
+  );
+}
+
+// Undoing a change needs the permission making it needs; scorecards can only
+// be taken back or restored by the interviewer who gave them.
+export function canRevert(user: Viewer, event: PipelineEvent): boolean {
+  switch (event.type) {
+    case 'updated':
+      return can(user, 'people:edit');
+    case 'created':
+    case 'deleted':
+    case 'link_added':
+    case 'link_removed':
+      return can(user, 'people:manage');
+    case 'interview_added':
+    case 'interview_updated':
+    case 'interview_removed':
+      return can(user, 'interviews:manage');
+    case 'feedback_added':
+    case 'feedback_removed':
+      return interviewerKey(event.scorecard!.interviewer) === interviewerKey(user.name);
+    case 'stages_changed':
+      return can(user, 'stages:manage');
+    case 'requisition_added':
+    case 'requisition_updated':
+    case 'requisition_removed':
+      return can(user, 'requisitions:manage');
+  }
+}
+
+// What a page open as `user` is pushed about a change. Those who see every
+// candidate and their notes get the events, without feedback; the others are
+// only told to reload, as the change may have moved candidates in or out of
+// their view.
+export function scopeLiveChange(
+  user: Viewer,
+  revision: number,
+  events: PipelineEvent[]
+): LiveChange {
+  if (!seesEveryone(user) || !can(user, 'notes:read')) {
+    return events.length ? { revision, reload: true } : { revision };
+  }
+  return {
+    revision,
+    events: events.map(({ scorecard, feedback, ...event }) => event),
+  };
+}
+
+// Who has a candidate open, for the candidates `user` may see, as pushed to
+// the page `clientId`. Only that page's own entry keeps its clientId.
+export function scopePresence(
+  user: Viewer,
+  clientId: string,
+  presence: Presence[],
+  data: Pick<VersionedData, 'nodes' | 'interviews'>
+): Presence[] {
+  const visible = seesEveryone(user) ? null : visiblePersonIds(user, data);
+  return presence
+    .filter((entry) => !visible || visible.has(entry.personId))
+    .map(({ clientId: id, ...entry }) => (id === clientId ? { ...entry, clientId } : entry));
+}
@@ -0,0 +1,106 @@
+// lib/auth/session.ts
+import crypto from 'crypto';
+import { TLSSocket } from 'tls';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { can } from './access';
+import { Permission, User } from './types';
+import { readUsers, updateUsers } from './users';
+
+const COOKIE = 'session';
+
+// Sessions last SESSION_HOURS, default 12.
+const sessionHours = () => Number(process.env.SESSION_HOURS) || 12;
+
+// Secure cookies only where the app is served over https, so plain
+// `yarn start` on localhost still works. Behind a proxy, set TRUST_PROXY to
+// go by the protocol it forwards.
+const isHttps = (req: NextApiRequest) =>
+  req.socket instanceof TLSSocket ||
+  Boolean(process.env.TRUST_PROXY && req.headers['x-forwarded-proto'] === 'https');
+
+const cookie = (req: NextApiRequest, value: string, maxAge: number) =>
+  [
+    `${COOKIE}=${value}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${maxAge}`,
+    ...(isHttps(req) ? ['Secure'] : []),
+  ].join('; ');
+
+export function startSession(req: NextApiRequest, res: NextApiResponse, user: User) {
+  const id = crypto.randomBytes(32).toString('hex');
+  const seconds = sessionHours() * 60 * 60;
+  updateUsers((store) => {
+    store.sessions.push({
+      id,
+      userId: user.id,
+      expiresAt: new Date(Date.now() + seconds * 1000).toISOString(),
+    });
+  });
+  res.setHeader('Set-Cookie', cookie(req, id, seconds));
+}
+
+export function endSession(req: NextApiRequest, res: NextApiResponse) {
+  const id = req.cookies[COOKIE];
+  if (id) {
+    updateUsers((store) => {
+      store.sessions = store.sessions.filter((s) => s.id !== id);
+    });
+  }
+  res.setHeader('Set-Cookie', cookie(req, '', 0));
+}
+
+// The signed-in user, or null.
+export function currentUser(req: NextApiRequest): User | null {
+  const id = req.cookies[COOKIE];
+  if (!id) return null;
+  const { users, sessions } = readUsers();
+  const session = sessions.find((s) => s.id === id && Date.parse(s.expiresAt) > Date.now());
+  return (session && users.find((u) => u.id === session.userId)) || null;
+}
+
+// Like checkIfMatch: returns null after answering 401 when nobody is signed in,
+// or 403 when the user lacks `permission`.
+export function requireUser(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  permission?: Permission
+): User | null {
+  const user = currentUser(req);
+  if (!user) {
+    res.status(401).json({ message: 'Sign in first' });
+    return null;
+  }
+  return permission && !requirePermission(res, user, permission) ? null : user;
+}
+
+// Calendar clients subscribe by URL and can't send the session cookie, so
+// the .ics feeds also take the user's calendar token as `?token=`.
+export function requireFeedUser(req: NextApiRequest, res: NextApiResponse): User | null {
+  const token = req.query.token;
+  const user =
+    typeof token === 'string' && token !== ''
+      ? readUsers().users.find((u) => u.calendarToken === token)
+      : undefined;
+  return user || requireUser(req, res);
+}
+
+// The user's calendar token, made on first use or whenever `reset` is set.
+export function calendarToken(user: User, reset = false): string {
+  return updateUsers(({ users }) => {
+    const stored = users.find((u) => u.id === user.id)!;
+    if (reset || !stored.calendarToken) {
+      stored.calendarToken = crypto.randomBytes(24).toString('hex');
+    }
+    return stored.calendarToken;
+  });
+}
+
+// For routes whose methods need different permissions. Returns false after
+// answering 403.
+export function requirePermission(res: NextApiResponse, user: User, permission: Permission) {
+  if (can(user, permission)) return true;
+  res.status(403).json({ message: 'You are not allowed to do that' });
+  return false;
+}
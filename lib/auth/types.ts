@@ -0,0 +1,56 @@
+// lib/auth/types.ts
+
+export const roles = ['admin', 'recruiter', 'hiring_manager', 'interviewer'] as const;
+export type Role = (typeof roles)[number];
+
+export const roleLabels: Record<Role, string> = {
+  admin: 'Admin',
+  recruiter: 'Recruiter',
+  hiring_manager: 'Hiring manager',
+  interviewer: 'Interviewer',
+};
+
+export interface User {
+  id: string;
+  // Signs in with this; unique, compared case-insensitively.
+  username: string;
+  // Shown in the history and matched against interviewer names.
+  name: string;
+  role: Role;
+  // The requisition a hiring manager sees candidates of.
+  team?: string;
+  // scrypt hash; users without one can only sign in with OIDC.
+  passwordHash?: string;
+  // `sub` of the linked OIDC account.
+  oidcSubject?: string;
+  // Lets calendar clients, which can't sign in, fetch the user's feeds.
+  calendarToken?: string;
+}
+
+// What clients are told about a user.
+export type PublicUser = Omit<User, 'passwordHash' | 'oidcSubject' | 'calendarToken'> & {
+  oidc: boolean;
+};
+
+export interface Session {
+  id: string;
+  userId: string;
+  expiresAt: string;
+}
+
+export type Permission =
+  | 'people:edit'
+  | 'people:manage'
+  | 'notes:read'
+  | 'stages:manage'
+  | 'requisitions:manage'
+  | 'pipeline:replace'
+  | 'history:read'
+  | 'history:revert'
+  | 'interviews:manage'
+  | 'analytics:read'
+  | 'export'
+  | 'notifications:manage'
+  | 'users:manage'
+  // Change or remove saved views others made.
+  | 'views:manage';
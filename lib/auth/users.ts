@@ -0,0 +1,48 @@
+// lib/auth/users.ts
+import fs from 'fs';
+import path from 'path';
+import { PublicUser, Session, User } from './types';
+
+// Accounts and signed-in sessions, in USERS_FILE, default ./data.users.json.
+// Kept apart from the pipeline so both storage backends share them.
+export const usersFilePath = path.resolve(process.env.USERS_FILE || 'data.users.json');
+
+export interface UserStore {
+  users: User[];
+  sessions: Session[];
+}
+
+export function readUsers(): UserStore {
+  if (!fs.existsSync(usersFilePath)) {
+    return { users: [], sessions: [] };
+  }
+  return JSON.parse(fs.readFileSync(usersFilePath, 'utf8'));
+}
+
+// Read, change and write back in one synchronous step, like the JSON storage.
+// Expired sessions are dropped on every write.
+export function updateUsers<T>(change: (store: UserStore) => T): T {
+  const store = readUsers();
+  const result = change(store);
+  store.sessions = store.sessions.filter((s) => Date.parse(s.expiresAt) > Date.now());
+  fs.writeFileSync(usersFilePath, JSON.stringify(store, null, 2), {
+    encoding: 'utf8',
+    mode: 0o600,
+  });
+  return result;
+}
+
+export const usernameKey = (username: string) => username.trim().toLowerCase();
+
+export const findUserByUsername = (users: User[], username: string) =>
+  users.find((u) => usernameKey(u.username) === usernameKey(username));
+
+export const toPublicUser = ({
+  passwordHash,
+  oidcSubject,
+  calendarToken,
+  ...user
+}: User): PublicUser => ({
+  ...user,
+  oidc: Boolean(oidcSubject),
+});
@@ -0,0 +1,85 @@
+// lib/backups.ts
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic } from './storage/atomic';
+import { VersionedData } from './types';
+
+// A copy of the whole pipeline is kept after every change under BACKUPS_DIR
+// (default ./backups), one JSON file per revision, whichever the storage
+// backend. The newest BACKUP_KEEP (default 50) are kept, and beyond those the
+// last of each day for BACKUP_KEEP_DAYS (default 30) days.
+export const backupsDir = path.resolve(process.env.BACKUPS_DIR || 'backups');
+const keepNewest = Number(process.env.BACKUP_KEEP) || 50;
+const keepDays = Number(process.env.BACKUP_KEEP_DAYS) || 30;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface BackupInfo {
+  // Also the file name, without .json.
+  id: string;
+  takenAt: string;
+  revision: number;
+  size: number;
+}
+
+// E.g. 2024-01-31T09-30-00-000Z-r12: the time with - for : and ., then the
+// revision. Only names like this are read, so no id can point elsewhere.
+const idPattern = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z-r(\d+)$/;
+
+const backupPath = (id: string) => path.join(backupsDir, `${id}.json`);
+
+function parseId(id: string): Omit<BackupInfo, 'size'> | undefined {
+  const match = idPattern.exec(id);
+  if (!match) return undefined;
+  const [, date, hours, minutes, seconds, millis, revision] = match;
+  return {
+    id,
+    takenAt: `${date}T${hours}:${minutes}:${seconds}.${millis}Z`,
+    revision: Number(revision),
+  };
+}
+
+// Newest first.
+export function listBackups(): BackupInfo[] {
+  if (!fs.existsSync(backupsDir)) return [];
+  return fs
+    .readdirSync(backupsDir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => parseId(file.slice(0, -'.json'.length)))
+    .filter((info): info is Omit<BackupInfo, 'size'> => !!info)
+    .map((info) => ({ ...info, size: fs.statSync(backupPath(info.id)).size }))
+    .sort((a, b) => b.takenAt.localeCompare(a.takenAt) || b.revision - a.revision);
+}
+
+export const hasBackup = (revision: number) =>
+  listBackups().some((backup) => backup.revision === revision);
+
+export function readBackup(id: string): VersionedData | undefined {
+  if (!parseId(id) || !fs.existsSync(backupPath(id))) return undefined;
+  return JSON.parse(fs.readFileSync(backupPath(id), 'utf8'));
+}
+
+// Backups past the retention policy.
+function expired(backups: BackupInfo[], now: Date): BackupInfo[] {
+  const lastOfDay = new Set<string>();
+  const days = new Set<string>();
+  backups.forEach((backup) => {
+    const day = backup.takenAt.slice(0, 10);
+    if (!days.has(day) && now.getTime() - Date.parse(backup.takenAt) < keepDays * DAY) {
+      lastOfDay.add(backup.id);
+    }
+    days.add(day);
+  });
+  return backups.filter((backup, i) => i >= keepNewest && !lastOfDay.has(backup.id));
+}
+
+// Keeps a copy of `data`, then removes the backups that are no longer kept.
+export function takeBackup(data: VersionedData, now = new Date()): BackupInfo {
+  const id = `${now.toISOString().replace(/[:.]/g, '-')}-r${data.revision}`;
+  fs.mkdirSync(backupsDir, { recursive: true });
+  writeFileAtomic(backupPath(id), JSON.stringify(data));
+  expired(listBackups(), now).forEach((backup) =>
+    fs.rmSync(backupPath(backup.id), { force: true })
+  );
+  return { ...parseId(id)!, size: fs.statSync(backupPath(id)).size };
+}
@@ -0,0 +1,50 @@
+// lib/concurrency.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { scopeData } from './auth/access';
+import type { User } from './auth/types';
+import { VersionedData } from './types';
+
+export const toETag = (revision: number) => `"${revision}"`;
+
+export const fromETag = (etag: string) =>
+  parseInt(etag.replace(/^W\//, '').replace(/"/g, ''), 10);
+
+// Next's res.json() replaces ETag with a hash of the body, so responses that
+// carry the revision are written directly.
+export function sendWithRevision(
+  res: NextApiResponse,
+  status: number,
+  body: unknown,
+  revision: number
+) {
+  res.setHeader('ETag', toETag(revision));
+  if (body === undefined) {
+    res.status(status).end();
+    return;
+  }
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.status(status).end(JSON.stringify(body));
+}
+
+// Writes may carry `If-Match` with the revision they were based on. Returns
+// false after answering 409 with the server's current state when that
+// revision is stale, limited to what `user` may see. Requests without the
+// header are always accepted.
+export function checkIfMatch(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  current: VersionedData,
+  user: User
+): boolean {
+  const header = req.headers['if-match'];
+  if (!header || header === '*' || fromETag(header) === current.revision) {
+    return true;
+  }
+  sendWithRevision(
+    res,
+    409,
+    { message: 'The pipeline was changed by someone else', current: scopeData(user, current) },
+    current.revision
+  );
+  return false;
+}
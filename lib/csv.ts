@@ -0,0 +1,62 @@
+// lib/csv.ts
+// Minimal RFC 4180 CSV: quoted fields may hold commas, quotes ("") and
+// newlines.
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines.
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+// Spreadsheets run a cell starting with one of these as a formula, and
+// anyone can apply with any name, so such cells are written after a '.
+// One already starting with ' before such a character gets another, so
+// reading it back is exact.
+const formulaStart = /^'*[=+\-@\t\r]/;
+
+// Undoes the ' put before such a cell, for reading back an export.
+export const unguardFormula = (value: string) =>
+  value.startsWith("'") && formulaStart.test(value) ? value.slice(1) : value;
+
+const escapeField = (cell: string) => {
+  const value = formulaStart.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+}
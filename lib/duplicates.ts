@@ -0,0 +1,131 @@
+// lib/duplicates.ts
+// Finding people entered twice, and merging the two records into one.
+import { interviewerKey } from './interviews';
+import { fuzzyNameMatch, normalize } from './query';
+import { isReferral, sameLink, typedLink } from './relationships';
+import { Feedback, Link, Person } from './types';
+
+// Names compare without accents, case or extra spaces.
+const nameKey = (name: string) => normalize(name).replace(/\s+/g, ' ');
+
+const normalizeEmail = (email: string | undefined) => (email || '').trim().toLowerCase();
+
+export interface DuplicateMatch {
+  person: Person;
+  // Why they look alike, e.g. "same email".
+  reasons: string[];
+}
+
+// Existing people `candidate` may be a duplicate of: the same name, the same
+// email, or a similar name with the same referrer (`referredBy`, or whoever
+// refers the candidate when they exist already).
+export function findDuplicates(
+  candidate: Pick<Person, 'name'> & Partial<Pick<Person, 'id' | 'email'>>,
+  people: Person[],
+  links: Link[],
+  referredBy?: string
+): DuplicateMatch[] {
+  const referrers = (id: string | undefined) =>
+    links.filter((link) => isReferral(link) && link.target === id).map((link) => link.source);
+  const candidateReferrers = referredBy ? [referredBy] : referrers(candidate.id);
+  const name = nameKey(candidate.name || '');
+  const email = normalizeEmail(candidate.email);
+
+  return people
+    .filter((person) => person.id !== candidate.id)
+    .map((person) => {
+      const reasons: string[] = [];
+      const sameName = name !== '' && nameKey(person.name) === name;
+      if (sameName) reasons.push('same name');
+      if (email && normalizeEmail(person.email) === email) reasons.push('same email');
+      if (
+        !sameName &&
+        name !== '' &&
+        (fuzzyNameMatch(person.name, name) || fuzzyNameMatch(name, person.name)) &&
+        referrers(person.id).some((id) => candidateReferrers.includes(id))
+      ) {
+        reasons.push('similar name, same referrer');
+      }
+      return { person, reasons };
+    })
+    .filter((match) => match.reasons.length > 0);
+}
+
+// "may be a duplicate of Ann Lee (same name, same email)"
+export const describeDuplicates = (matches: DuplicateMatch[]) =>
+  matches.map(
+    ({ person, reasons }) => `may be a duplicate of ${person.name} (${reasons.join(', ')})`
+  );
+
+// Fields a merge takes from one side or the other. Notes are joined and tags
+// combined instead.
+export const mergeFields = [
+  'name',
+  'status',
+  'team',
+  'starred',
+  'email',
+  'phone',
+  'linkedin',
+  'source',
+  'position',
+  'salaryExpectation',
+] as const;
+
+export type MergeField = (typeof mergeFields)[number];
+
+// Both notes, the survivor's first, unless one is empty or they are the same.
+export function mergeNotes(survivor: string, duplicate: string): string {
+  const [a, b] = [survivor.trim(), duplicate.trim()];
+  if (!b || a === b) return survivor;
+  if (!a) return duplicate;
+  return `${survivor.trimEnd()}\n\n${duplicate.trim()}`;
+}
+
+// The survivor with the `take` fields from the duplicate, both notes and all
+// tags. It keeps its id.
+export function mergePeople(survivor: Person, duplicate: Person, take: MergeField[]): Person {
+  const merged: Person = { ...survivor };
+  const fields: Partial<Record<MergeField, unknown>> = merged;
+  take.forEach((field) => {
+    fields[field] = duplicate[field];
+  });
+  merged.notes = mergeNotes(survivor.notes, duplicate.notes);
+  const tags = [...(survivor.tags || []), ...(duplicate.tags || [])];
+  if (tags.length) merged.tags = tags.filter((tag, i) => tags.indexOf(tag) === i);
+  return merged;
+}
+
+// The duplicate's links moved onto the survivor, leaving out those that
+// would link the survivor to itself or that it has already.
+export function repointLinks(survivorId: string, duplicateId: string, links: Link[]): Link[] {
+  const moved: Link[] = [];
+  const has = (link: Link) => [...links, ...moved].some((l) => sameLink(l, link));
+  links
+    .filter((link) => link.source === duplicateId || link.target === duplicateId)
+    .forEach((link) => {
+      const swap = (id: string) => (id === duplicateId ? survivorId : id);
+      const repointed = typedLink({
+        ...link,
+        source: swap(link.source),
+        target: swap(link.target),
+      });
+      if (repointed.source !== repointed.target && !has(repointed)) moved.push(repointed);
+    });
+  return moved;
+}
+
+// The duplicate's feedback moved onto the survivor. Feedback is given once
+// per stage, so where an interviewer scored both in the same stage, only the
+// survivor's is kept.
+export function repointFeedback(
+  survivorId: string,
+  duplicateId: string,
+  feedback: Feedback[]
+): Feedback[] {
+  const key = (f: Feedback) => `${f.stage}\n${interviewerKey(f.interviewer)}`;
+  const given = new Set(feedback.filter((f) => f.personId === survivorId).map(key));
+  return feedback
+    .filter((f) => f.personId === duplicateId && !given.has(key(f)))
+    .map((f) => ({ ...f, personId: survivorId }));
+}
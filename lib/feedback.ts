@@ -0,0 +1,86 @@
+// lib/feedback.ts
+import { interviewerKey } from './interviews';
+import type { StorageTransaction } from './storage/types';
+import { Feedback, FeedbackSummary, PipelineEvent, Stage, VersionedData } from './types';
+
+export const ratingScale = [1, 2, 3, 4];
+
+export const ratingLabels: Record<number, string> = {
+  1: 'Poor',
+  2: 'Mixed',
+  3: 'Good',
+  4: 'Excellent',
+};
+
+// The scorecard criteria for a candidate in the stage named `status`.
+export const criteriaFor = (stages: Stage[], status: string) =>
+  stages.find((stage) => stage.name === status)?.criteria || [];
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+export function summarizeFeedback(feedback: Feedback[]): FeedbackSummary {
+  return {
+    count: feedback.length,
+    average: average(feedback.flatMap((f) => Object.values(f.ratings))),
+    hire: feedback.filter((f) => f.recommendation === 'hire').length,
+    noHire: feedback.filter((f) => f.recommendation === 'no_hire').length,
+  };
+}
+
+// e.g. "3.2/4 · 2 hire, 1 no hire"
+export function formatSummary(summary: FeedbackSummary) {
+  const score = summary.average === null ? 'no ratings' : `${summary.average.toFixed(1)}/4`;
+  return `${score} · ${summary.hire} hire, ${summary.noHire} no hire`;
+}
+
+// A summary for every person with feedback, keyed by person id.
+export function summarizeByPerson(feedback: Feedback[]): Record<string, FeedbackSummary> {
+  const byPerson = new Map<string, Feedback[]>();
+  feedback.forEach((f) => byPerson.set(f.personId, [...(byPerson.get(f.personId) || []), f]));
+  return Object.fromEntries(
+    Array.from(byPerson, ([personId, list]) => [personId, summarizeFeedback(list)])
+  );
+}
+
+// Feedback is given once per stage, so feedback given in a renamed stage
+// moves to the new name with its people. `renames` maps old names to new.
+export function renameFeedbackStages(tx: StorageTransaction, renames: Map<string, string>) {
+  (tx.load().feedback || []).forEach((feedback) => {
+    const stage = renames.get(feedback.stage);
+    if (stage === undefined) return;
+    tx.deleteFeedback(feedback.id);
+    tx.createFeedback({ ...feedback, stage });
+  });
+}
+
+// Interviewers only see others' feedback on a candidate once they have
+// submitted their own, so they aren't swayed by it.
+export function visibleFeedback(feedback: Feedback[], viewer: string) {
+  const own = feedback.filter((f) => interviewerKey(f.interviewer) === interviewerKey(viewer));
+  return {
+    submitted: own.length > 0,
+    feedback: own.length ? feedback : [],
+    hidden: own.length ? 0 : feedback.length,
+  };
+}
+
+// Feedback is only handed out through /api/feedback; anything else that
+// sends the whole pipeline or its history goes through these first.
+export const withoutFeedback = ({ feedback, ...data }: VersionedData) => data;
+
+export function withoutFeedbackDetails(event: PipelineEvent): PipelineEvent {
+  // Who gave feedback is part of the history; what they said is not.
+  if (event.scorecard) {
+    const { id, personId, stage, interviewer, submittedAt } = event.scorecard;
+    return {
+      ...event,
+      scorecard: { id, personId, stage, interviewer, submittedAt } as Feedback,
+    };
+  }
+  if (event.feedback) {
+    const { feedback, ...rest } = event;
+    return rest;
+  }
+  return event;
+}
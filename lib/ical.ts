@@ -0,0 +1,62 @@
+// lib/ical.ts
+// Minimal RFC 5545 calendar of timed events, readable by any calendar client.
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description: string;
+  location: string;
+}
+
+// UTC date-time, e.g. 20240131T143000Z.
+const formatDate = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 bytes continue on the next line after a space.
+const fold = (line: string) => {
+  let folded = '';
+  let length = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (length + size > 75) {
+      folded += '\r\n ';
+      length = 1;
+    }
+    folded += char;
+    length += size;
+  }
+  return folded;
+};
+
+export function toICalendar(name: string, events: CalendarEvent[], now = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Hiring Pipeline//Interviews//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  events.forEach((event) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatDate(now)}`,
+      `DTSTART:${formatDate(event.start)}`,
+      `DTEND:${formatDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      `LOCATION:${escapeText(event.location)}`,
+      'END:VEVENT'
+    );
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,6 @@
+// lib/ids.ts
+import { randomUUID } from 'crypto';
+
+// Ids are only ever generated on the server so two clients can't pick the
+// same one.
+export const newId = () => randomUUID();
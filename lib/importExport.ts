@@ -0,0 +1,218 @@
+// lib/importExport.ts
+import { parseCsv, toCsv, unguardFormula } from './csv';
+import { isReferral } from './relationships';
+import { DataStructure, NewPerson, Person, Requisition } from './types';
+import { isEmail, isWebUrl } from './validation';
+
+// Person fields a CSV column can be mapped onto. `referredBy` holds the
+// referrer's name and becomes a link; `tags` are separated by commas.
+export const importFields = [
+  'name',
+  'status',
+  'team',
+  'starred',
+  'notes',
+  'referredBy',
+  'email',
+  'phone',
+  'linkedin',
+  'source',
+  'position',
+  'salaryExpectation',
+  'tags',
+] as const;
+export type ImportField = (typeof importFields)[number];
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportSource {
+  format: 'csv' | 'json';
+  content: string;
+  mapping?: ColumnMapping;
+}
+
+export interface ImportRow {
+  person: NewPerson;
+  referredBy: string;
+  // Name of the existing person (or earlier row) this row duplicates.
+  duplicateOf?: string;
+  errors: string[];
+}
+
+export interface ImportPreview {
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: ImportRow[];
+}
+
+// Profile fields come last so older spreadsheets keep their columns.
+export const exportHeaders = [
+  'id',
+  'name',
+  'status',
+  'team',
+  'starred',
+  'notes',
+  'referred_by',
+  'email',
+  'phone',
+  'linkedin',
+  'source',
+  'position',
+  'salary_expectation',
+  'tags',
+];
+
+// Profile fields imported as plain text.
+const profileTextFields = [
+  'email',
+  'phone',
+  'linkedin',
+  'source',
+  'position',
+  'salaryExpectation',
+] as const;
+
+// Header spellings recognized without an explicit mapping.
+const headerAliases: Record<ImportField, string[]> = {
+  name: ['name', 'full name', 'candidate'],
+  status: ['status', 'stage'],
+  team: ['team'],
+  starred: ['starred', 'star'],
+  notes: ['notes', 'note', 'comments'],
+  referredBy: ['referred by', 'referred_by', 'referredby', 'referrer'],
+  email: ['email', 'e-mail', 'email address'],
+  phone: ['phone', 'phone number', 'mobile'],
+  linkedin: ['linkedin', 'linkedin url'],
+  source: ['source'],
+  position: ['position', 'role', 'job'],
+  salaryExpectation: ['salary expectation', 'salary_expectation', 'salary'],
+  tags: ['tags', 'labels'],
+};
+
+const parseTags = (value: string) =>
+  value
+    .split(/[,;]/)
+    .map((tag) => tag.trim())
+    .filter((tag) => tag !== '');
+
+export const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const parseStarred = (value: string) =>
+  ['true', 'yes', 'y', '1', 'x', '⭐'].includes(value.trim().toLowerCase());
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  importFields.forEach((field) => {
+    const header = headers.find((h) => headerAliases[field].includes(normalizeName(h)));
+    if (header) mapping[field] = header;
+  });
+  return mapping;
+}
+
+// Turn an export (CSV or JSON) into a table of string cells.
+function readTable(source: ImportSource): { headers: string[]; records: Record<string, string>[] } {
+  if (source.format === 'json') {
+    const data: DataStructure = JSON.parse(source.content);
+    const headers = exportHeaders;
+    return { headers, records: exportRecords(data).map((row) => toRecord(headers, row)) };
+  }
+  const [headers = [], ...rows] = parseCsv(source.content).map((row) => row.map(unguardFormula));
+  return { headers, records: rows.map((row) => toRecord(headers, row)) };
+}
+
+const toRecord = (headers: string[], row: string[]) =>
+  Object.fromEntries(headers.map((header, i) => [header, row[i] ?? '']));
+
+// Map, check and flag duplicates in the rows of an import against the
+// people already in the pipeline. Teams must name an open requisition.
+export function previewImport(
+  source: ImportSource,
+  existing: Person[],
+  statuses: string[],
+  requisitions: Requisition[]
+): ImportPreview {
+  const { headers, records } = readTable(source);
+  const mapping = source.mapping || guessMapping(headers);
+  const seen = new Map(existing.map((p) => [normalizeName(p.name), p.name]));
+  const importedNames = new Set<string>();
+  const cell = (record: Record<string, string>, field: ImportField) =>
+    mapping[field] ? (record[mapping[field]!] ?? '').trim() : '';
+
+  const rows = records.map((record) => {
+    const errors: string[] = [];
+    const name = cell(record, 'name');
+    let status = cell(record, 'status');
+    if (!name) errors.push('name is missing');
+    if (!status) {
+      status = statuses[0];
+    } else if (!statuses.includes(status)) {
+      errors.push(`unknown status ${status}`);
+    }
+    const team = cell(record, 'team');
+    const requisition = requisitions.find((r) => r.name === team);
+    if (team && !requisition) {
+      errors.push(`unknown requisition ${team}`);
+    } else if (requisition && !requisition.open) {
+      errors.push(`requisition ${team} is closed`);
+    }
+    const person: NewPerson = {
+      name,
+      status,
+      team,
+      starred: parseStarred(cell(record, 'starred')),
+      notes: cell(record, 'notes'),
+    };
+    // Empty profile fields are left out rather than stored empty.
+    profileTextFields.forEach((field) => {
+      if (cell(record, field)) person[field] = cell(record, field);
+    });
+    const tags = parseTags(cell(record, 'tags'));
+    if (tags.length) person.tags = tags;
+    if (person.email && !isEmail(person.email)) errors.push(`invalid email ${person.email}`);
+    if (person.linkedin && !isWebUrl(person.linkedin)) {
+      errors.push(`invalid LinkedIn URL ${person.linkedin}`);
+    }
+    const key = normalizeName(name);
+    const duplicateOf = name ? seen.get(key) : undefined;
+    if (name && !duplicateOf) {
+      seen.set(key, name);
+      importedNames.add(key);
+    }
+    return { person, referredBy: cell(record, 'referredBy'), duplicateOf, errors };
+  });
+
+  // Referrers must be someone already there or in this import.
+  rows.forEach((row) => {
+    if (row.referredBy && !seen.has(normalizeName(row.referredBy))) {
+      row.errors.push(`unknown referrer ${row.referredBy}`);
+    }
+  });
+
+  return { headers, mapping, rows };
+}
+
+// One row of cells per person, in `exportHeaders` order.
+export function exportRecords(data: DataStructure): string[][] {
+  return data.nodes.map((person) => {
+    const referral = data.links.find((l) => l.target === person.id && isReferral(l));
+    const referrer = referral ? data.nodes.find((p) => p.id === referral.source) : undefined;
+    return [
+      person.id,
+      person.name,
+      person.status,
+      person.team,
+      person.starred ? 'true' : 'false',
+      person.notes,
+      referrer ? referrer.name : '',
+      person.email || '',
+      person.phone || '',
+      person.linkedin || '',
+      person.source || '',
+      person.position || '',
+      person.salaryExpectation || '',
+      (person.tags || []).join(', '),
+    ];
+  });
+}
+
+export const exportCsv = (data: DataStructure) => toCsv([exportHeaders, ...exportRecords(data)]);
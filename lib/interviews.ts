@@ -0,0 +1,73 @@
+// lib/interviews.ts
+import { CalendarEvent } from './ical';
+import { Interview, Person } from './types';
+
+export const interviewEnd = (interview: Pick<Interview, 'start' | 'durationMinutes'>) =>
+  new Date(Date.parse(interview.start) + interview.durationMinutes * 60000);
+
+// Interviewer names are compared ignoring case and surrounding spaces.
+export const interviewerKey = (name: string) => name.trim().toLowerCase();
+
+// Other interviews that overlap `interview` in time and share an
+// interviewer with it, each with the names that are double-booked.
+export function findDoubleBookings(
+  interview: Omit<Interview, 'id'> & { id?: string },
+  interviews: Interview[]
+): { interview: Interview; interviewers: string[] }[] {
+  const start = Date.parse(interview.start);
+  const end = interviewEnd(interview).getTime();
+  const names = new Set(interview.interviewers.map(interviewerKey));
+  return interviews
+    .filter(
+      (other) =>
+        other.id !== interview.id &&
+        Date.parse(other.start) < end &&
+        interviewEnd(other).getTime() > start
+    )
+    .map((other) => ({
+      interview: other,
+      interviewers: other.interviewers.filter((name) => names.has(interviewerKey(name))),
+    }))
+    .filter(({ interviewers }) => interviewers.length > 0);
+}
+
+export const describeDoubleBookings = (
+  doubleBookings: ReturnType<typeof findDoubleBookings>,
+  people: Person[]
+) =>
+  doubleBookings.map(({ interview, interviewers }) => {
+    const candidate = people.find((p) => p.id === interview.personId)?.name || 'someone';
+    const at = new Date(interview.start).toLocaleString();
+    return `${interviewers.join(', ')} already interviewing ${candidate} at ${at}`;
+  });
+
+// Interviews that haven't ended yet, soonest first.
+export const upcomingInterviews = (interviews: Interview[], now = new Date()) =>
+  interviews
+    .filter((interview) => interviewEnd(interview) > now)
+    .sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+
+// Only the fields an interview is made of, with names trimmed; anything else
+// in a request body is dropped.
+export const cleanInterview = (interview: Interview): Interview => ({
+  id: interview.id,
+  personId: interview.personId,
+  start: new Date(interview.start).toISOString(),
+  durationMinutes: interview.durationMinutes,
+  interviewers: interview.interviewers.map((name) => name.trim()),
+  round: interview.round.trim(),
+  location: interview.location,
+});
+
+export const toCalendarEvents = (interviews: Interview[], people: Person[]): CalendarEvent[] =>
+  interviews.map((interview) => {
+    const candidate = people.find((p) => p.id === interview.personId)?.name || 'Unknown candidate';
+    return {
+      uid: `${interview.id}@hiring-pipeline`,
+      start: new Date(interview.start),
+      end: interviewEnd(interview),
+      summary: `${interview.round} interview: ${candidate}`,
+      description: `Interviewers: ${interview.interviewers.join(', ')}`,
+      location: interview.location,
+    };
+  });
@@ -0,0 +1,133 @@
+// lib/layout/algorithms.ts
+import * as d3 from 'd3';
+import { LayoutAlgorithm, LayoutGraph, Position } from './types';
+
+// Graph id of a requisition's node.
+export const teamNodeId = (team: string) => `team_${team}`;
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 90;
+
+// Each requisition is a block: its node on top and its people in a square
+// grid below. Blocks fill rows of a square grid too, so there is no limit
+// on how many there are; people on no requisition get a block of their own.
+function gridLayout({ people, teams }: LayoutGraph): Record<string, Position> {
+  const positions: Record<string, Position> = {};
+  const groups = [...teams, ''].map((team) => ({
+    team,
+    members: people.filter((p) => p.team === team),
+  }));
+  const blocks = groups.filter((g) => g.team !== '' || g.members.length > 0);
+  const blocksPerRow = Math.max(1, Math.ceil(Math.sqrt(blocks.length)));
+  let top = 0;
+  for (let start = 0; start < blocks.length; start += blocksPerRow) {
+    let left = 0;
+    let rowHeight = 0;
+    blocks.slice(start, start + blocksPerRow).forEach(({ team, members }) => {
+      const columns = Math.max(1, Math.ceil(Math.sqrt(members.length)));
+      const header = team ? NODE_HEIGHT : 0;
+      if (team) {
+        positions[teamNodeId(team)] = { x: left + ((columns - 1) * NODE_WIDTH) / 2, y: top };
+      }
+      members.forEach(({ id }, i) => {
+        positions[id] = {
+          x: left + (i % columns) * NODE_WIDTH,
+          y: top + header + Math.floor(i / columns) * NODE_HEIGHT,
+        };
+      });
+      left += (columns + 1) * NODE_WIDTH;
+      rowHeight = Math.max(rowHeight, header + Math.ceil(members.length / columns) * NODE_HEIGHT);
+    });
+    top += rowHeight + NODE_HEIGHT;
+  }
+  return positions;
+}
+
+interface ForceNode extends d3.SimulationNodeDatum {
+  id: string;
+}
+
+// People pulled towards whoever they are linked to and towards their
+// requisition, pushed apart from everyone else. Run to the end up front; it
+// starts from the same spiral every time, so the result doesn't jump around.
+function forceLayout({ people, teams, links }: LayoutGraph): Record<string, Position> {
+  const nodes: ForceNode[] = [
+    ...teams.map((team) => ({ id: teamNodeId(team) })),
+    ...people.map(({ id }) => ({ id })),
+  ];
+  const ids = new Set(nodes.map((n) => n.id));
+  const edges = [
+    ...links.filter((l) => ids.has(l.source) && ids.has(l.target)),
+    ...people
+      .filter((p) => ids.has(teamNodeId(p.team)))
+      .map((p) => ({ source: teamNodeId(p.team), target: p.id })),
+  ].map(({ source, target }) => ({ source, target }));
+  const simulation = d3
+    .forceSimulation(nodes)
+    .force(
+      'link',
+      d3
+        .forceLink<ForceNode, d3.SimulationLinkDatum<ForceNode>>(edges)
+        .id((n) => n.id)
+        .distance(NODE_WIDTH)
+    )
+    .force('charge', d3.forceManyBody().strength(-600))
+    .force('collide', d3.forceCollide(NODE_WIDTH / 2))
+    .force('x', d3.forceX())
+    .force('y', d3.forceY())
+    .stop();
+  simulation.tick(300);
+  return Object.fromEntries(nodes.map((n) => [n.id, { x: n.x, y: n.y }]));
+}
+
+// Referral chains top-down: everyone below whoever referred them, people
+// nobody referred at the top, and the requisitions in a row above that.
+function treeLayout({ people, teams, links }: LayoutGraph): Record<string, Position> {
+  const ids = new Set(people.map((p) => p.id));
+  const parents = new Map<string, string>();
+  links.forEach(({ source, target, type }) => {
+    if (type !== 'referred_by' || !ids.has(source) || !ids.has(target)) return;
+    if (parents.has(target)) return;
+    // A referral that would close a loop is left out of the tree.
+    for (let up: string | undefined = source; up !== undefined; up = parents.get(up)) {
+      if (up === target) return;
+    }
+    parents.set(target, source);
+  });
+  // Everyone hangs off one made-up root, left out of the result.
+  const ROOT = '#root';
+  const root = d3
+    .stratify<{ id: string }>()
+    .id((d) => d.id)
+    .parentId((d) => (d.id === ROOT ? undefined : (parents.get(d.id) ?? ROOT)))([
+    { id: ROOT },
+    ...people.map(({ id }) => ({ id })),
+  ]);
+  d3.tree<{ id: string }>().nodeSize([NODE_WIDTH, NODE_HEIGHT * 1.5])(root);
+  const positions: Record<string, Position> = {};
+  root.descendants().forEach((node) => {
+    if (node.id !== ROOT) positions[node.id] = { x: node.x, y: node.y };
+  });
+  teams.forEach((team, i) => {
+    positions[teamNodeId(team)] = {
+      x: (i - (teams.length - 1) / 2) * NODE_WIDTH,
+      y: 0,
+    };
+  });
+  return positions;
+}
+
+// Where the algorithm puts every node of the graph, by graph id.
+export function computeLayout(
+  algorithm: LayoutAlgorithm,
+  graph: LayoutGraph
+): Record<string, Position> {
+  switch (algorithm) {
+    case 'force':
+      return forceLayout(graph);
+    case 'tree':
+      return treeLayout(graph);
+    default:
+      return gridLayout(graph);
+  }
+}
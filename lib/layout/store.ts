@@ -0,0 +1,26 @@
+// lib/layout/store.ts
+import fs from 'fs';
+import path from 'path';
+import { GraphLayout, defaultLayout } from './types';
+
+// Every user's saved layouts, by user id and then view name, in
+// LAYOUTS_FILE, default ./data.layouts.json. Kept out of the pipeline and its
+// history: moving a node isn't a change to anyone's candidates.
+export const layoutsFilePath = path.resolve(process.env.LAYOUTS_FILE || 'data.layouts.json');
+
+type LayoutStore = Record<string, Record<string, GraphLayout>>;
+
+function readLayouts(): LayoutStore {
+  if (!fs.existsSync(layoutsFilePath)) return {};
+  return JSON.parse(fs.readFileSync(layoutsFilePath, 'utf8'));
+}
+
+export const getLayout = (userId: string, view: string): GraphLayout =>
+  readLayouts()[userId]?.[view] || defaultLayout;
+
+// Read, change and write back in one synchronous step, like the JSON storage.
+export function saveLayout(userId: string, view: string, layout: GraphLayout) {
+  const store = readLayouts();
+  store[userId] = { ...store[userId], [view]: layout };
+  fs.writeFileSync(layoutsFilePath, JSON.stringify(store, null, 2), 'utf8');
+}
@@ -0,0 +1,32 @@
+// lib/layout/types.ts
+
+export type LayoutAlgorithm = 'grid' | 'force' | 'tree';
+
+export const layoutAlgorithms: { algorithm: LayoutAlgorithm; label: string }[] = [
+  { algorithm: 'grid', label: 'Grid by requisition' },
+  { algorithm: 'force', label: 'Force-directed' },
+  { algorithm: 'tree', label: 'Referral tree' },
+];
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+// One user's layout of one view: how it is laid out, and where they dragged
+// nodes since, by graph node id. Dragged nodes stay put until the next
+// re-layout.
+export interface GraphLayout {
+  algorithm: LayoutAlgorithm;
+  positions: Record<string, Position>;
+}
+
+export const defaultLayout: GraphLayout = { algorithm: 'grid', positions: {} };
+
+// What a layout places: people with the requisition they are on ('' for
+// none), the requisitions shown as nodes and the links between people.
+export interface LayoutGraph {
+  people: { id: string; team: string }[];
+  teams: string[];
+  links: { source: string; target: string; type: string }[];
+}
@@ -0,0 +1,42 @@
+// lib/notifications/config.ts
+import fs from 'fs';
+import path from 'path';
+import { NotificationConfig } from './types';
+
+// Rules and transports live in NOTIFICATIONS_FILE, default ./notifications.json.
+// It is read on every run, so edits apply without a restart.
+export const configFilePath = path.resolve(process.env.NOTIFICATIONS_FILE || 'notifications.json');
+
+// Without a config file there are no rules, and nothing is sent.
+export function loadConfig(): NotificationConfig {
+  if (!fs.existsSync(configFilePath)) {
+    return { transports: {}, rules: [] };
+  }
+  const config = JSON.parse(fs.readFileSync(configFilePath, 'utf8'));
+  return {
+    transports: config.transports || {},
+    rules: config.rules || [],
+    maxAttempts: config.maxAttempts,
+  };
+}
+
+// Problems that would stop a rule from ever being delivered.
+export function checkConfig(config: NotificationConfig): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  config.rules.forEach((rule, i) => {
+    const name = rule.id || `rules[${i}]`;
+    if (!rule.id) problems.push(`${name} has no id`);
+    if (ids.has(rule.id)) problems.push(`${name} is defined twice`);
+    ids.add(rule.id);
+    if (!config.transports[rule.transport]) {
+      problems.push(`${name} uses unknown transport ${rule.transport}`);
+    }
+    if (rule.when?.type !== 'entered_stage' && rule.when?.type !== 'in_stage_for') {
+      problems.push(`${name} has an unknown trigger`);
+    } else if (rule.when.type === 'in_stage_for' && !(rule.when.days > 0)) {
+      problems.push(`${name} needs a positive number of days`);
+    }
+  });
+  return problems;
+}
@@ -0,0 +1,31 @@
+// lib/notifications/deliveryLog.ts
+import fs from 'fs';
+import path from 'path';
+import { Delivery } from './types';
+
+// The delivery log and how far into the history rules have been checked,
+// in NOTIFICATIONS_LOG_FILE, default ./data.notifications.json.
+export const logFilePath = path.resolve(
+  process.env.NOTIFICATIONS_LOG_FILE || 'data.notifications.json'
+);
+
+export interface DeliveryLog {
+  // Revision up to which changes have been checked; null before the first run.
+  revision: number | null;
+  deliveries: Delivery[];
+}
+
+export function readLog(): DeliveryLog {
+  if (!fs.existsSync(logFilePath)) {
+    return { revision: null, deliveries: [] };
+  }
+  return JSON.parse(fs.readFileSync(logFilePath, 'utf8'));
+}
+
+// Read, change and write back in one synchronous step, like the JSON storage.
+export function updateLog(change: (log: DeliveryLog) => void): DeliveryLog {
+  const log = readLog();
+  change(log);
+  fs.writeFileSync(logFilePath, JSON.stringify(log, null, 2), 'utf8');
+  return log;
+}
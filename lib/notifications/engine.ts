@@ -0,0 +1,227 @@
+// lib/notifications/engine.ts
+import { newId } from '../ids';
+import { getStorage, Storage } from '../storage';
+import { Person, PipelineEvent } from '../types';
+import { checkConfig, loadConfig } from './config';
+import { readLog, updateLog } from './deliveryLog';
+import { renderTemplate } from './template';
+import { createTransport } from './transports';
+import { Delivery, NotificationConfig, NotificationRule } from './types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const RETRY_DELAY = 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+export interface RunResult {
+  queued: number;
+  sent: number;
+  failed: number;
+  problems: string[];
+}
+
+interface Match {
+  rule: NotificationRule;
+  person: Person;
+  key: string;
+  values: Record<string, string | number>;
+}
+
+// When each person entered the stage they are in now, from the history.
+// People whose entry isn't recorded are left out.
+function stageEntryTimes(events: PipelineEvent[], people: Person[]): Map<string, string> {
+  const entries = new Map<string, { status: string; at: string }>();
+  events.forEach((event) => {
+    if (event.type === 'created') {
+      entries.set(event.person!.id, { status: event.person!.status, at: event.at });
+    } else if (event.type === 'updated' && event.field === 'status') {
+      entries.set(event.personIds[0], { status: event.after as string, at: event.at });
+    }
+  });
+  const times = new Map<string, string>();
+  people.forEach((person) => {
+    const entry = entries.get(person.id);
+    if (entry && entry.status === person.status) times.set(person.id, entry.at);
+  });
+  return times;
+}
+
+// Candidates who moved into a rule's stage in `events`. Moves caused by a
+// stage being renamed don't count.
+function enteredStageMatches(
+  rules: NotificationRule[],
+  events: PipelineEvent[],
+  people: Person[]
+): Match[] {
+  const renames = new Set(events.filter((e) => e.type === 'stages_changed').map((e) => e.revision));
+  const matches: Match[] = [];
+  events.forEach((event) => {
+    if (renames.has(event.revision)) return;
+    let personId: string;
+    let stage: string;
+    let previousStage = '';
+    if (event.type === 'created') {
+      personId = event.person!.id;
+      stage = event.person!.status;
+    } else if (event.type === 'updated' && event.field === 'status') {
+      personId = event.personIds[0];
+      stage = event.after as string;
+      previousStage = event.before as string;
+    } else {
+      return;
+    }
+    const person = people.find((p) => p.id === personId);
+    if (!person) return;
+    rules
+      .filter((rule) => rule.when?.type === 'entered_stage' && rule.when.stage === stage)
+      .forEach((rule) => {
+        matches.push({
+          rule,
+          person,
+          key: `${rule.id}:${personId}:${event.revision}`,
+          values: { stage, previousStage, actor: event.actor, days: 0 },
+        });
+      });
+  });
+  return matches;
+}
+
+// Candidates who have been in a rule's stage for at least its number of
+// days; each stay is only notified about once.
+function inStageForMatches(
+  rules: NotificationRule[],
+  entryTimes: Map<string, string>,
+  people: Person[],
+  now: Date
+): Match[] {
+  const matches: Match[] = [];
+  rules.forEach((rule) => {
+    if (rule.when?.type !== 'in_stage_for') return;
+    const { stage, days } = rule.when;
+    people
+      .filter((person) => person.status === stage && entryTimes.has(person.id))
+      .forEach((person) => {
+        const since = entryTimes.get(person.id)!;
+        const elapsed = Math.floor((now.getTime() - Date.parse(since)) / DAY);
+        if (elapsed < days) return;
+        matches.push({
+          rule,
+          person,
+          key: `${rule.id}:${person.id}:${since}`,
+          values: { stage, previousStage: '', actor: '', days: elapsed },
+        });
+      });
+  });
+  return matches;
+}
+
+const toDelivery = ({ rule, person, key, values }: Match, now: Date): Delivery => {
+  const filled = { name: person.name, team: person.team, ...values };
+  return {
+    id: newId(),
+    ruleId: rule.id,
+    personId: person.id,
+    transport: rule.transport,
+    key,
+    message: {
+      subject: renderTemplate(rule.subject, filled),
+      body: renderTemplate(rule.body, filled),
+      ...(rule.to ? { to: rule.to } : {}),
+    },
+    status: 'pending',
+    attempts: 0,
+    createdAt: now.toISOString(),
+    nextAttemptAt: now.toISOString(),
+  };
+};
+
+// Queue a delivery for every rule that matches changes made since the last
+// run. The first run only records where the history is, so existing
+// candidates don't all trigger at once.
+function queueMatches(storage: Storage, config: NotificationConfig, now: Date): number {
+  let queued = 0;
+  updateLog((log) => {
+    const data = storage.load();
+    if (log.revision === null) {
+      log.revision = data.revision;
+      return;
+    }
+    const allEvents = storage.listEvents();
+    const newEvents = allEvents.filter((event) => event.revision > log.revision!);
+    const matches = [
+      ...enteredStageMatches(config.rules, newEvents, data.nodes),
+      ...inStageForMatches(config.rules, stageEntryTimes(allEvents, data.nodes), data.nodes, now),
+    ];
+    const known = new Set(log.deliveries.map((d) => d.key));
+    matches.forEach((match) => {
+      if (known.has(match.key)) return;
+      known.add(match.key);
+      log.deliveries.push(toDelivery(match, now));
+      queued++;
+    });
+    log.revision = Math.max(data.revision, ...newEvents.map((event) => event.revision));
+  });
+  return queued;
+}
+
+// Send every pending delivery that is due. A failed attempt is retried after
+// 1, 2, 4… minutes until `maxAttempts` is reached.
+async function deliverDue(config: NotificationConfig, now: Date) {
+  const maxAttempts = config.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+  const due = readLog().deliveries.filter(
+    (d) => d.status === 'pending' && Date.parse(d.nextAttemptAt!) <= now.getTime()
+  );
+  let sent = 0;
+  let failed = 0;
+  for (const delivery of due) {
+    const changes: Partial<Delivery> = { attempts: delivery.attempts + 1 };
+    try {
+      const transport = config.transports[delivery.transport];
+      if (!transport) throw new Error(`Unknown transport ${delivery.transport}`);
+      await createTransport(transport).send(delivery.message);
+      Object.assign(changes, { status: 'sent', sentAt: new Date().toISOString() });
+      changes.nextAttemptAt = undefined;
+      sent++;
+    } catch (error) {
+      changes.lastError = (error as Error).message;
+      if (changes.attempts! >= maxAttempts) {
+        Object.assign(changes, { status: 'failed', nextAttemptAt: undefined });
+        failed++;
+      } else {
+        const delay = RETRY_DELAY * 2 ** (changes.attempts! - 1);
+        changes.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      }
+    }
+    updateLog((log) => {
+      log.deliveries = log.deliveries.map((d) => (d.id === delivery.id ? { ...d, ...changes } : d));
+    });
+  }
+  return { sent, failed };
+}
+
+let running: Promise<RunResult> | null = null;
+
+// Check the rules and send what is due. Overlapping calls share one run.
+export function runNotifications(storage = getStorage(), now = new Date()): Promise<RunResult> {
+  if (!running) {
+    running = (async () => {
+      const config = loadConfig();
+      const problems = checkConfig(config);
+      const queued = queueMatches(storage, config, now);
+      const { sent, failed } = await deliverDue(config, now);
+      return { queued, sent, failed, problems };
+    })().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+// Run every NOTIFICATIONS_INTERVAL_SECONDS (default 30) for as long as the
+// server is up.
+export function startNotifications() {
+  const seconds = Number(process.env.NOTIFICATIONS_INTERVAL_SECONDS) || 30;
+  const run = () =>
+    runNotifications().catch((error) => console.error('Notifications failed:', error));
+  run();
+  setInterval(run, seconds * 1000).unref();
+}
@@ -0,0 +1,8 @@
+// lib/notifications/template.ts
+
+// Replace every {{name}} in `template` with `values.name`; unknown names are
+// left empty.
+export const renderTemplate = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) =>
+    values[name] === undefined ? '' : String(values[name])
+  );
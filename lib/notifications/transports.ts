@@ -0,0 +1,60 @@
+// lib/notifications/transports.ts
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { Transport, TransportConfig } from './types';
+
+// Each send either resolves once the message is accepted or throws, in
+// which case the delivery is retried later.
+export function createTransport(config: TransportConfig): Transport {
+  switch (config.type) {
+    case 'console':
+      return {
+        send: async (message) => {
+          console.log(`[notification] ${message.subject}\n${message.body}`);
+        },
+      };
+    case 'file':
+      return {
+        send: async (message) => {
+          const line = JSON.stringify({ at: new Date().toISOString(), ...message }) + '\n';
+          await fs.promises.appendFile(path.resolve(config.path), line, 'utf8');
+        },
+      };
+    case 'webhook':
+      return {
+        send: async (message) => {
+          const res = await fetch(config.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...config.headers },
+            body: JSON.stringify({ ...message, text: `${message.subject}\n${message.body}` }),
+          });
+          if (!res.ok) {
+            throw new Error(`${config.url} answered ${res.status}`);
+          }
+        },
+      };
+    case 'smtp': {
+      const mailer = nodemailer.createTransport({
+        host: config.host,
+        port: config.port,
+        secure: config.secure ?? config.port === 465,
+        auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+      });
+      return {
+        send: async (message) => {
+          const to = message.to || config.to || [];
+          if (!to.length) throw new Error('No recipients');
+          await mailer.sendMail({
+            from: config.from,
+            to: to.join(', '),
+            subject: message.subject,
+            text: message.body,
+          });
+        },
+      };
+    }
+    default:
+      throw new Error(`Unknown transport type ${(config as { type: string }).type}`);
+  }
+}
@@ -0,0 +1,71 @@
+// lib/notifications/types.ts
+
+// What makes a rule fire: a candidate moving into `stage`, or a candidate
+// having been in `stage` for at least `days`.
+export type Trigger =
+  { type: 'entered_stage'; stage: string } | { type: 'in_stage_for'; stage: string; days: number };
+
+export interface NotificationRule {
+  id: string;
+  when: Trigger;
+  // Name of an entry in `transports`.
+  transport: string;
+  // Templates; {{name}}, {{team}}, {{stage}}, {{previousStage}}, {{actor}}
+  // and {{days}} are filled in.
+  subject: string;
+  body: string;
+  // Recipients, for transports that have them. Overrides the transport's.
+  to?: string[];
+}
+
+export type TransportConfig =
+  | { type: 'console' }
+  | { type: 'file'; path: string }
+  | { type: 'webhook'; url: string; headers?: Record<string, string> }
+  | {
+      type: 'smtp';
+      host: string;
+      port: number;
+      secure?: boolean;
+      user?: string;
+      pass?: string;
+      from: string;
+      to?: string[];
+    };
+
+export interface NotificationConfig {
+  transports: Record<string, TransportConfig>;
+  rules: NotificationRule[];
+  // Failed deliveries are retried with a doubling delay, up to this many
+  // attempts in all.
+  maxAttempts?: number;
+}
+
+export interface Message {
+  subject: string;
+  body: string;
+  to?: string[];
+}
+
+export interface Transport {
+  send(message: Message): Promise<void>;
+}
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed';
+
+// One notification in the delivery log. `failed` means every attempt failed.
+export interface Delivery {
+  id: string;
+  ruleId: string;
+  personId: string;
+  transport: string;
+  // Identifies what was notified about, so it is only notified once.
+  key: string;
+  message: Message;
+  status: DeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt?: string;
+  sentAt?: string;
+  lastError?: string;
+}
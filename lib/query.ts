@@ -0,0 +1,260 @@
+// lib/query.ts
+// The query language of the filter bar, e.g.
+//   status:Interview OR status:CEO team:Backend starred notes:"python"
+// OR joins the terms on either side of it, and then all of the terms next
+// to each other must match, as in Gmail or GitHub search: the example is
+// (Interview or CEO) and Backend and starred and python. Parentheses group.
+// `-term` or `NOT term` negates. A word without a field searches names,
+// forgiving a typo. Field names and values ignore case.
+import { isReferral } from './relationships';
+import { Link, Person } from './types';
+
+export type Query =
+  | { type: 'and' | 'or'; terms: Query[] }
+  | { type: 'not'; term: Query }
+  | { type: 'match'; field: QueryField; value: string };
+
+// Fields that match when the value is contained in them.
+const textFields = {
+  name: 'name',
+  notes: 'notes',
+  email: 'email',
+  phone: 'phone',
+  linkedin: 'linkedin',
+  source: 'source',
+  position: 'position',
+  salary: 'salaryExpectation',
+} as const;
+
+export const queryFields = [
+  ...(Object.keys(textFields) as (keyof typeof textFields)[]),
+  // The whole stage, requisition or tag.
+  'status',
+  'team',
+  'tag',
+  // yes or no; `starred` on its own means yes.
+  'starred',
+  // Anyone in the chain of referrers above the candidate, by name.
+  'referredby',
+] as const;
+
+export type QueryField = (typeof queryFields)[number];
+
+type Token =
+  | { type: '(' | ')' | 'or' | 'and' | 'not' }
+  | { type: 'term'; field?: string; value: string; quoted: boolean };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  // A quoted string or a run of characters up to a space or parenthesis.
+  const readValue = () => {
+    if (text[i] === '"') {
+      const end = text.indexOf('"', i + 1);
+      if (end === -1) throw new Error('A quote is not closed');
+      const value = text.slice(i + 1, end);
+      i = end + 1;
+      return { value, quoted: true };
+    }
+    const start = i;
+    while (i < text.length && !/[\s()]/.test(text[i])) i++;
+    return { value: text.slice(start, i), quoted: false };
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char });
+      i++;
+    } else if (char === '-' && i + 1 < text.length && !/[\s()]/.test(text[i + 1])) {
+      tokens.push({ type: 'not' });
+      i++;
+    } else {
+      const field = /^([A-Za-z]+):/.exec(text.slice(i));
+      if (field) {
+        i += field[0].length;
+        tokens.push({ type: 'term', field: field[1].toLowerCase(), ...readValue() });
+        continue;
+      }
+      const { value, quoted } = readValue();
+      if (!quoted && (value === 'OR' || value === 'AND' || value === 'NOT')) {
+        tokens.push({ type: value.toLowerCase() as 'or' | 'and' | 'not' });
+      } else {
+        tokens.push({ type: 'term', value, quoted });
+      }
+    }
+  }
+  return tokens;
+}
+
+// Recursive descent over the tokens: and := or (AND? or)*,
+// or := unary (OR unary)*, unary := (NOT|-) unary | ( and ) | term.
+function parseTokens(tokens: Token[]): Query {
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const parseTerm = (): Query => {
+    const token = tokens[position++];
+    if (!token) throw new Error('The query ends too early');
+    if (token.type === '(') {
+      const inner = parseAnd();
+      if (peek()?.type !== ')') throw new Error('A parenthesis is not closed');
+      position++;
+      return inner;
+    }
+    if (token.type === 'not') return { type: 'not', term: parseTerm() };
+    if (token.type !== 'term') throw new Error(`Unexpected ${token.type.toUpperCase()}`);
+    if (token.field === undefined) {
+      if (!token.quoted && token.value.toLowerCase() === 'starred') {
+        return { type: 'match', field: 'starred', value: 'yes' };
+      }
+      return { type: 'match', field: 'name', value: token.value };
+    }
+    const field = queryFields.find((f) => f === token.field);
+    if (!field) {
+      throw new Error(`Unknown field ${token.field}; use one of ${queryFields.join(', ')}`);
+    }
+    if (token.value === '') throw new Error(`${field}: needs a value`);
+    if (
+      field === 'starred' &&
+      !['yes', 'no', 'true', 'false'].includes(token.value.toLowerCase())
+    ) {
+      throw new Error('starred: must be yes or no');
+    }
+    return { type: 'match', field, value: token.value };
+  };
+
+  const parseOr = (): Query => {
+    const terms = [parseTerm()];
+    while (peek()?.type === 'or') {
+      position++;
+      terms.push(parseTerm());
+    }
+    return terms.length === 1 ? terms[0] : { type: 'or', terms };
+  };
+
+  const parseAnd = (): Query => {
+    const terms = [parseOr()];
+    while (peek() && peek().type !== ')') {
+      if (peek().type === 'and') position++;
+      terms.push(parseOr());
+    }
+    return terms.length === 1 ? terms[0] : { type: 'and', terms };
+  };
+
+  const query = parseAnd();
+  if (position < tokens.length) throw new Error('A parenthesis is closed but not opened');
+  return query;
+}
+
+// An empty query is null and matches everyone.
+export function parseQuery(text: string): { query: Query | null; error?: string } {
+  try {
+    const tokens = tokenize(text);
+    return { query: tokens.length ? parseTokens(tokens) : null };
+  } catch (error) {
+    return { query: null, error: (error as Error).message };
+  }
+}
+
+// Lower case without accents, so "Jose" finds "José".
+export const normalize = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Contained in the name, or each word starts a word of the name or is a typo
+// away from one: one wrong letter from four letters on, two from eight.
+export function fuzzyNameMatch(name: string, text: string): boolean {
+  const haystack = normalize(name);
+  const needle = normalize(text);
+  if (haystack.includes(needle)) return true;
+  const words = haystack.split(/\s+/);
+  return needle.split(/\s+/).every((part) => {
+    const allowed = part.length >= 8 ? 2 : part.length >= 4 ? 1 : 0;
+    return words.some((word) => word.startsWith(part) || editDistance(word, part) <= allowed);
+  });
+}
+
+// Everyone above each person in the referral chains, loops included once.
+function referrerChains(people: Person[], links: Link[]): Map<string, Person[]> {
+  const byId = new Map(people.map((p) => [p.id, p]));
+  const referrers = new Map<string, string[]>();
+  links.filter(isReferral).forEach((link) => {
+    referrers.set(link.target, [...(referrers.get(link.target) || []), link.source]);
+  });
+  const chains = new Map<string, Person[]>();
+  people.forEach((person) => {
+    const seen = new Set<string>([person.id]);
+    const queue = [...(referrers.get(person.id) || [])];
+    const chain: Person[] = [];
+    while (queue.length) {
+      const id = queue.shift()!;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const referrer = byId.get(id);
+      if (referrer) chain.push(referrer);
+      queue.push(...(referrers.get(id) || []));
+    }
+    chains.set(person.id, chain);
+  });
+  return chains;
+}
+
+// The people `query` matches, in their order. `links` are needed for
+// referredby:.
+export function filterPeople(query: Query | null, people: Person[], links: Link[]): Person[] {
+  if (!query) return people;
+  let chains: Map<string, Person[]> | null = null;
+
+  const matches = (q: Query, person: Person): boolean => {
+    switch (q.type) {
+      case 'and':
+        return q.terms.every((term) => matches(term, person));
+      case 'or':
+        return q.terms.some((term) => matches(term, person));
+      case 'not':
+        return !matches(q.term, person);
+    }
+    const value = normalize(q.value);
+    switch (q.field) {
+      case 'name':
+        return fuzzyNameMatch(person.name, q.value);
+      case 'status':
+        return normalize(person.status) === value;
+      case 'team':
+        return normalize(person.team) === value;
+      case 'tag':
+        return (person.tags || []).some((tag) => normalize(tag) === value);
+      case 'starred':
+        return person.starred === (value === 'yes' || value === 'true');
+      case 'referredby':
+        chains = chains || referrerChains(people, links);
+        return chains.get(person.id)!.some((referrer) => fuzzyNameMatch(referrer.name, q.value));
+      default:
+        return normalize(String(person[textFields[q.field]] || '')).includes(value);
+    }
+  };
+
+  return people.filter((person) => matches(query, person));
+}
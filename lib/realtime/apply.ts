@@ -0,0 +1,77 @@
+// lib/realtime/apply.ts
+import { sameLink, typedLink } from '../relationships';
+import { Interview, Person, PipelineEvent, Requisition, Stage, VersionedData } from '../types';
+
+type LiveData = Omit<VersionedData, 'revision' | 'feedback'>;
+
+const upsert = <T extends { id: string }>(list: T[], item: T) =>
+  list.some((i) => i.id === item.id)
+    ? list.map((i) => (i.id === item.id ? item : i))
+    : [...list, item];
+
+// Apply pushed events to the state a page has. Each event carries the values
+// it set rather than a step from the previous state, so an event the page
+// already made itself applies again harmlessly. `complete` is false when an
+// event concerns someone the page doesn't have, and it should reload instead.
+export function applyEvents(
+  data: LiveData,
+  events: PipelineEvent[]
+): { data: LiveData; complete: boolean } {
+  let { nodes, links, stages, interviews, requisitions } = data;
+  let complete = true;
+  events.forEach((event) => {
+    switch (event.type) {
+      case 'created':
+        nodes = upsert(nodes, event.person!);
+        break;
+      case 'updated': {
+        const [id] = event.personIds;
+        if (!nodes.some((p) => p.id === id)) {
+          complete = false;
+          break;
+        }
+        nodes = nodes.map((p) =>
+          p.id === id ? { ...p, [event.field as keyof Person]: event.after } : p
+        );
+        break;
+      }
+      case 'deleted': {
+        const { id } = event.person!;
+        nodes = nodes.filter((p) => p.id !== id);
+        links = links.filter((l) => l.source !== id && l.target !== id);
+        interviews = interviews.filter((i) => i.personId !== id);
+        break;
+      }
+      case 'link_added':
+        if (!links.some((l) => sameLink(l, event.link!))) {
+          links = [...links, typedLink(event.link!)];
+        }
+        break;
+      case 'link_removed':
+        links = links.filter((l) => !sameLink(l, event.link!));
+        break;
+      case 'interview_added':
+        interviews = upsert(interviews, event.interview!);
+        break;
+      case 'interview_updated':
+        interviews = upsert(interviews, event.after as Interview);
+        break;
+      case 'interview_removed':
+        interviews = interviews.filter((i) => i.id !== event.interview!.id);
+        break;
+      case 'stages_changed':
+        stages = event.after as Stage[];
+        break;
+      case 'requisition_added':
+        requisitions = upsert(requisitions, event.requisition!);
+        break;
+      case 'requisition_updated':
+        requisitions = upsert(requisitions, event.after as Requisition);
+        break;
+      case 'requisition_removed':
+        requisitions = requisitions.filter((r) => r.id !== event.requisition!.id);
+        break;
+    }
+  });
+  return { data: { nodes, links, stages, interviews, requisitions }, complete };
+}
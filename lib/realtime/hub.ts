@@ -0,0 +1,63 @@
+// lib/realtime/hub.ts
+// Pushes committed changes and presence to the pages open on this server.
+// Next bundles each API route on its own, so the state lives on globalThis
+// for the route that writes and the stream route to share it. Pages open on
+// another server process aren't reached.
+import { PipelineEvent } from '../types';
+import { Presence } from './types';
+
+export interface LiveClient {
+  id: string;
+  userId: string;
+  sendChange(revision: number, events: PipelineEvent[]): void;
+  sendPresence(presence: Presence[]): void;
+}
+
+interface Hub {
+  clients: Map<string, LiveClient>;
+  presence: Map<string, Presence>;
+}
+
+const hub: Hub = ((globalThis as any).__pipelineHub ||= {
+  clients: new Map(),
+  presence: new Map(),
+});
+
+export const listPresence = () => Array.from(hub.presence.values());
+
+const broadcastPresence = () => {
+  const presence = listPresence();
+  hub.clients.forEach((client) => client.sendPresence(presence));
+};
+
+// Called by the storage once a transaction is written.
+export function publishChange(revision: number, events: PipelineEvent[]) {
+  hub.clients.forEach((client) => client.sendChange(revision, events));
+}
+
+// Returns a function that disconnects the client again, which also ends its
+// presence, or null when another user's page is connected with the same id.
+// A page of the same user reconnecting takes its place.
+export function connect(client: LiveClient): (() => void) | null {
+  const existing = hub.clients.get(client.id);
+  if (existing && existing.userId !== client.userId) return null;
+  hub.clients.set(client.id, client);
+  return () => {
+    if (hub.clients.get(client.id) !== client) return;
+    hub.clients.delete(client.id);
+    if (hub.presence.delete(client.id)) broadcastPresence();
+  };
+}
+
+export const isConnected = (clientId: string, userId: string) =>
+  hub.clients.get(clientId)?.userId === userId;
+
+// `presence` null means the page no longer has anyone open.
+export function setPresence(clientId: string, presence: Presence | null) {
+  if (presence) {
+    hub.presence.set(clientId, presence);
+  } else if (!hub.presence.delete(clientId)) {
+    return;
+  }
+  broadcastPresence();
+}
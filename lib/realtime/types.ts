@@ -0,0 +1,23 @@
+// lib/realtime/types.ts
+import { PipelineEvent } from '../types';
+
+// A committed change as pushed to an open page. Pages that see the whole
+// pipeline get its events to apply; the others are only told to reload.
+export interface LiveChange {
+  revision: number;
+  events?: PipelineEvent[];
+  reload?: boolean;
+}
+
+// Someone with a candidate open. Each open page has its own `clientId`, so
+// the same user in two tabs shows up twice. A page is only told its own
+// `clientId`, as knowing another's would let it take over that page's stream.
+export interface Presence {
+  clientId?: string;
+  userId: string;
+  name: string;
+  personId: string;
+  // In the edit dialog rather than only looking; a soft lock for others.
+  editing: boolean;
+  since: string;
+}
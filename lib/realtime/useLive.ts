@@ -0,0 +1,84 @@
+// lib/realtime/useLive.ts
+import { useEffect, useRef, useState } from 'react';
+import * as api from '../api';
+import { LiveChange, Presence } from './types';
+
+// What the page has open, for the others to see.
+export interface OpenCandidate {
+  personId: string;
+  editing: boolean;
+}
+
+// Keeps the live stream open while `enabled`, hands each pushed change to
+// `onChange`, and calls `onReconnect` when the stream comes back after a
+// break, as changes may have been missed meanwhile. `open` is announced
+// whenever it changes and again after reconnecting.
+export function useLive(
+  enabled: boolean,
+  open: OpenCandidate | null,
+  onChange: (change: LiveChange) => void,
+  onReconnect: () => void
+) {
+  // Not crypto.randomUUID, which plain-http pages other than localhost lack.
+  const [clientId] = useState(() => Math.random().toString(36).slice(2) + Date.now().toString(36));
+  const [connected, setConnected] = useState(false);
+  const [presence, setPresence] = useState<Presence[]>([]);
+  // The latest callbacks, so the stream isn't reopened on every render.
+  const handlers = useRef({ onChange, onReconnect });
+  handlers.current = { onChange, onReconnect };
+
+  useEffect(() => {
+    if (!enabled) return;
+    const source = new EventSource(api.liveUrl(clientId));
+    let opened = false;
+    source.onopen = () => {
+      if (opened) handlers.current.onReconnect();
+      opened = true;
+      setConnected(true);
+    };
+    // EventSource retries by itself.
+    source.onerror = () => setConnected(false);
+    source.addEventListener('change', (event) =>
+      handlers.current.onChange(JSON.parse((event as MessageEvent).data))
+    );
+    source.addEventListener('presence', (event) =>
+      setPresence(JSON.parse((event as MessageEvent).data))
+    );
+    return () => {
+      source.close();
+      setConnected(false);
+      setPresence([]);
+    };
+  }, [enabled, clientId]);
+
+  useEffect(() => {
+    if (!connected) return;
+    api
+      .announcePresence(clientId, open ? open.personId : null, open ? open.editing : false)
+      .catch(() => undefined);
+  }, [connected, open?.personId, open?.editing]);
+
+  return {
+    connected,
+    // This page's own entry, as the server has it.
+    mine: presence.find((p) => p.clientId === clientId),
+    others: presence.filter((p) => p.clientId !== clientId),
+  };
+}
+
+// Who else has `personId` open, editors first.
+export const presenceOn = (presence: Presence[], personId: string) =>
+  presence
+    .filter((p) => p.personId === personId)
+    .sort((a, b) => Number(b.editing) - Number(a.editing));
+
+// Others who opened `personId` for editing before this page did; until they
+// are done, the page holds back its own edits.
+export const lockHolders = (others: Presence[], mine: Presence | undefined, personId: string) =>
+  others.filter(
+    (p) => p.personId === personId && p.editing && (!mine || !mine.editing || p.since < mine.since)
+  );
+
+// "Ann (editing), Bob"
+export const describePresence = (presence: Presence[]) =>
+  presence.map((p) => (p.editing ? `${p.name} (editing)` : p.name)).join(', ');
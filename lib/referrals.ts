@@ -0,0 +1,175 @@
+// lib/referrals.ts
+// Who brought whom in, worked out from the referral links: trees, chains,
+// cycles and a leaderboard of referrers.
+import { isReferral } from './relationships';
+import { Link, Person } from './types';
+
+// Each person's referrals, and each person's referrers, by id.
+function referralMaps(links: Link[]) {
+  const referred = new Map<string, string[]>();
+  const referrers = new Map<string, string[]>();
+  links.filter(isReferral).forEach(({ source, target }) => {
+    referred.set(source, [...(referred.get(source) || []), target]);
+    referrers.set(target, [...(referrers.get(target) || []), source]);
+  });
+  return { referred, referrers };
+}
+
+// Everyone reachable from `id` one step at a time, without `id` itself.
+function reachable(id: string, next: Map<string, string[]>): Set<string> {
+  const seen = new Set<string>();
+  const queue = [...(next.get(id) || [])];
+  while (queue.length) {
+    const current = queue.shift()!;
+    if (current === id || seen.has(current)) continue;
+    seen.add(current);
+    queue.push(...(next.get(current) || []));
+  }
+  return seen;
+}
+
+// Everyone above `personId` in the referral chains and everyone below.
+export function referralChain(
+  personId: string,
+  links: Link[]
+): { upstream: Set<string>; downstream: Set<string> } {
+  const { referred, referrers } = referralMaps(links);
+  return {
+    upstream: reachable(personId, referrers),
+    downstream: reachable(personId, referred),
+  };
+}
+
+// Who referred `personId`, who referred them, and so on up, nearest first,
+// following the first referrer where there are several and stopping at a
+// loop.
+export function referrerPath(personId: string, links: Link[]): string[] {
+  const { referrers } = referralMaps(links);
+  const path: string[] = [];
+  for (let id = referrers.get(personId)?.[0]; id !== undefined; id = referrers.get(id)?.[0]) {
+    if (id === personId || path.includes(id)) break;
+    path.push(id);
+  }
+  return path;
+}
+
+export interface ReferralTree {
+  person: Person;
+  referred: ReferralTree[];
+}
+
+// The people `personId` referred, the people they referred, and so on. A
+// referral back into the tree is left out, so each person appears once.
+export function referralTree(
+  personId: string,
+  people: Person[],
+  links: Link[]
+): ReferralTree | null {
+  const byId = new Map(people.map((p) => [p.id, p]));
+  const { referred } = referralMaps(links);
+  const seen = new Set<string>();
+  const build = (id: string): ReferralTree | null => {
+    const person = byId.get(id);
+    if (!person || seen.has(id)) return null;
+    seen.add(id);
+    return { person, referred: [] };
+  };
+  const root = build(personId);
+  // Breadth first, so everyone sits at their shortest distance from the root.
+  const queue = root ? [root] : [];
+  while (queue.length) {
+    const tree = queue.shift()!;
+    (referred.get(tree.person.id) || []).forEach((id) => {
+      const child = build(id);
+      if (child) {
+        tree.referred.push(child);
+        queue.push(child);
+      }
+    });
+  }
+  return root;
+}
+
+// How many generations a tree goes down: 0 for nobody referred, 1 when none
+// of the people referred referred anyone, and so on.
+export const treeDepth = (tree: ReferralTree): number =>
+  tree.referred.reduce((depth, child) => Math.max(depth, treeDepth(child) + 1), 0);
+
+// Loops of referrals, such as A referred B who referred A, each once, as
+// person ids starting from the smallest.
+export function findReferralCycles(links: Link[]): string[][] {
+  const { referred } = referralMaps(links);
+  const cycles = new Map<string, string[]>();
+  const done = new Set<string>();
+  const path: string[] = [];
+  const onPath = new Set<string>();
+  const visit = (id: string) => {
+    path.push(id);
+    onPath.add(id);
+    (referred.get(id) || []).forEach((next) => {
+      if (onPath.has(next)) {
+        const cycle = path.slice(path.indexOf(next));
+        const start = cycle.indexOf(cycle.reduce((a, b) => (a < b ? a : b)));
+        const rotated = [...cycle.slice(start), ...cycle.slice(0, start)];
+        cycles.set(rotated.join(' '), rotated);
+      } else if (!done.has(next)) {
+        visit(next);
+      }
+    });
+    path.pop();
+    onPath.delete(id);
+    done.add(id);
+  };
+  Array.from(referred.keys()).forEach((id) => {
+    if (!done.has(id)) visit(id);
+  });
+  return Array.from(cycles.values());
+}
+
+export interface ReferrerStanding {
+  referrerId: string;
+  referrer: string;
+  // The people they referred themselves.
+  referred: number;
+  // Everyone below them in the chains, the people referred by the people
+  // they referred included.
+  network: number;
+  // Of the people they referred themselves, those `isHire` holds for.
+  hires: number;
+  // Generations in their referral tree.
+  depth: number;
+}
+
+// Everyone who referred someone, most referrals first, then most hires.
+// `counts` limits who is counted as referred, e.g. to a team.
+export function referrerLeaderboard(
+  people: Person[],
+  links: Link[],
+  isHire: (person: Person) => boolean,
+  counts: (person: Person) => boolean = () => true
+): ReferrerStanding[] {
+  const byId = new Map(people.map((p) => [p.id, p]));
+  const { referred } = referralMaps(links);
+  return Array.from(referred.keys())
+    .filter((id) => byId.has(id))
+    .map((id) => {
+      const direct = Array.from(new Set(referred.get(id)))
+        .map((target) => byId.get(target))
+        .filter((person): person is Person => !!person && person.id !== id && counts(person));
+      const tree = referralTree(id, people, links)!;
+      return {
+        referrerId: id,
+        referrer: byId.get(id)!.name,
+        referred: direct.length,
+        network: Array.from(reachable(id, referred)).filter(
+          (target) => byId.has(target) && counts(byId.get(target)!)
+        ).length,
+        hires: direct.filter(isHire).length,
+        depth: treeDepth(tree),
+      };
+    })
+    .filter((standing) => standing.referred > 0)
+    .sort(
+      (a, b) => b.referred - a.referred || b.hires - a.hires || a.referrer.localeCompare(b.referrer)
+    );
+}
@@ -0,0 +1,21 @@
+// lib/relationships.ts
+import { Link, RelationshipType, relationshipTypes } from './types';
+
+// A link as stored: only its ends and type, which defaults to a referral for
+// links from before relationships had types (old files, exports and history).
+export const typedLink = (link: { source: string; target: string; type?: string }): Link => ({
+  source: link.source,
+  target: link.target,
+  type: (link.type as RelationshipType) || 'referred_by',
+});
+
+// The same two people can be related in more than one way, but only once
+// per type.
+export const sameLink = (a: Link, b: Link) =>
+  a.source === b.source && a.target === b.target && typedLink(a).type === typedLink(b).type;
+
+export const isReferral = (link: Link) => typedLink(link).type === 'referred_by';
+
+// The type's label and edge style; unknown types are shown as referrals.
+export const relationshipFor = (type: RelationshipType | undefined) =>
+  relationshipTypes.find((r) => r.type === type) || relationshipTypes[0];
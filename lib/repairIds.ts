@@ -0,0 +1,66 @@
+// lib/repairIds.ts
+import { DataStructure, Link } from './types';
+
+export interface RenamedPerson {
+  name: string;
+  from: string;
+  to: string;
+}
+
+export interface RepairResult {
+  data: DataStructure;
+  renamed: RenamedPerson[];
+  // Links that pointed at a duplicated id and had to be assigned by guess.
+  ambiguous: Link[];
+}
+
+// Older clients numbered people `nodes.length + 1`, so adding after a delete
+// reused a live id. The first person with an id keeps it; later ones get a
+// fresh id. People and links were appended in creation order and a new
+// person's link always targets them, so the n-th link *targeting* a
+// duplicated id is given to the n-th person with it. Links *from* a
+// duplicated id can't be told apart and stay with the first person.
+export function repairDuplicateIds(data: DataStructure, newId: () => string): RepairResult {
+  const occurrences = new Map<string, string[]>();
+  const renamed: RenamedPerson[] = [];
+
+  const nodes = data.nodes.map((node) => {
+    const ids = occurrences.get(node.id);
+    if (!ids) {
+      occurrences.set(node.id, [node.id]);
+      return node;
+    }
+    const id = newId();
+    ids.push(id);
+    renamed.push({ name: node.name, from: node.id, to: id });
+    return { ...node, id };
+  });
+
+  const targetsSeen = new Map<string, number>();
+  const ambiguous: Link[] = [];
+  const seen = new Set<string>();
+  const links: Link[] = [];
+
+  data.links.forEach((link) => {
+    let { source, target } = link;
+    const targetIds = occurrences.get(target);
+    if (targetIds && targetIds.length > 1) {
+      const index = targetsSeen.get(target) || 0;
+      targetsSeen.set(target, index + 1);
+      if (index >= targetIds.length) ambiguous.push(link);
+      target = targetIds[Math.min(index, targetIds.length - 1)];
+    }
+    const sourceIds = occurrences.get(source);
+    if (sourceIds && sourceIds.length > 1) {
+      ambiguous.push(link);
+      source = sourceIds[0];
+    }
+    const key = `${source}->${target}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      links.push({ ...link, source, target });
+    }
+  });
+
+  return { data: { nodes, links }, renamed, ambiguous };
+}
@@ -0,0 +1,58 @@
+// lib/requisitions.ts
+import { Person, Requisition, Stage } from './types';
+
+// For data saved before requisitions existed: an open requisition for each
+// team in use. The id comes from the name so it stays the same until the
+// list is first saved.
+export function requisitionsFromTeams(people: Person[]): Requisition[] {
+  const names = Array.from(new Set(people.map((p) => p.team).filter((team) => team !== '')));
+  return names.map((name) => ({
+    id: `team_${name}`,
+    name,
+    headcount: 1,
+    hiringManager: '',
+    open: true,
+    targetDate: '',
+  }));
+}
+
+// Only the fields a requisition is made of, with text trimmed; anything else
+// in a request body is dropped.
+export const cleanRequisition = (requisition: Requisition): Requisition => ({
+  id: requisition.id,
+  name: requisition.name.trim(),
+  headcount: requisition.headcount,
+  hiringManager: requisition.hiringManager.trim(),
+  open: requisition.open,
+  targetDate: requisition.targetDate,
+  ...(requisition.applicationForm && {
+    applicationForm: {
+      enabled: requisition.applicationForm.enabled,
+      intro: requisition.applicationForm.intro.trim(),
+      fields: requisition.applicationForm.fields,
+    },
+  }),
+});
+
+// Names differing only in case or surrounding spaces are the same requisition, so a
+// typo can't open a second one.
+export const sameRequisitionName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Names candidates can be added to or moved to.
+export const openRequisitionNames = (requisitions: Requisition[]) =>
+  requisitions.filter((r) => r.open).map((r) => r.name);
+
+// Candidates count as hired once they reach the last stage that isn't
+// terminal.
+export const hiredStage = (stages: Stage[]) =>
+  stages.filter((stage) => !stage.terminal).pop()?.name;
+
+export function requisitionProgress(requisition: Requisition, people: Person[], stages: Stage[]) {
+  const members = people.filter((p) => p.team === requisition.name);
+  const hired = hiredStage(stages);
+  return {
+    candidates: members.length,
+    hired: members.filter((p) => p.status === hired).length,
+  };
+}
@@ -0,0 +1,17 @@
+// lib/storage/atomic.ts
+import fs from 'fs';
+
+// Writes to a temporary file next to `filePath`, flushes it to disk and then
+// renames it over `filePath`, so a crash part way leaves either the old file
+// or the new one, never a truncated mix.
+export function writeFileAtomic(filePath: string, content: string) {
+  const temporary = `${filePath}.${process.pid}.tmp`;
+  const fd = fs.openSync(temporary, 'w');
+  try {
+    fs.writeSync(fd, content, null, 'utf8');
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(temporary, filePath);
+}
@@ -0,0 +1,142 @@
+// lib/storage/base.ts
+import { ANONYMOUS, diffEvents } from '../audit';
+import { hasBackup, takeBackup } from '../backups';
+import { publishChange } from '../realtime/hub';
+import { sameLink, typedLink } from '../relationships';
+import { PipelineEvent, VersionedData } from '../types';
+import { EventFilter, Storage, StorageAdapter, StorageTransaction } from './types';
+
+// Wrap an adapter: every transaction records its changes as history events,
+// and the single-entity helpers are each a one-step transaction.
+export function createStorage(adapter: StorageAdapter): Storage {
+  // A failed backup doesn't stop or undo a change.
+  const backUp = (take: () => void) => {
+    try {
+      take();
+    } catch (error) {
+      console.error('Backup failed:', error);
+    }
+  };
+
+  // Once written, the change is pushed to the pages open on this server and
+  // the result is backed up. Data that has no backup yet, such as a data.json
+  // from before backups or put in place by hand, is backed up first.
+  const transaction = (work: (tx: StorageTransaction) => void, actor = ANONYMOUS) => {
+    backUp(() => {
+      const current = adapter.load();
+      if (!hasBackup(current.revision)) takeBackup(current);
+    });
+    let events: PipelineEvent[] = [];
+    const revision = adapter.transaction((tx, revision) => {
+      const before = tx.load();
+      work(tx);
+      events = diffEvents(before, tx.load(), { revision, actor, at: new Date().toISOString() });
+      tx.appendEvents(events);
+    });
+    publishChange(revision, events);
+    backUp(() => takeBackup(adapter.load()));
+    return revision;
+  };
+
+  return {
+    load: adapter.load,
+    listEvents: (filter = {}) => adapter.listEvents(filter),
+    transaction,
+    save: (data, actor) => transaction((tx) => tx.replaceAll(data), actor),
+    createPerson: (person, actor) => transaction((tx) => tx.createPerson(person), actor),
+    updatePerson: (person, actor) => transaction((tx) => tx.updatePerson(person), actor),
+    deletePerson: (id, actor) => transaction((tx) => tx.deletePerson(id), actor),
+    createLink: (link, actor) => transaction((tx) => tx.createLink(link), actor),
+    deleteLink: (link, actor) => transaction((tx) => tx.deleteLink(link), actor),
+    createInterview: (interview, actor) =>
+      transaction((tx) => tx.createInterview(interview), actor),
+    updateInterview: (interview, actor) =>
+      transaction((tx) => tx.updateInterview(interview), actor),
+    deleteInterview: (id, actor) => transaction((tx) => tx.deleteInterview(id), actor),
+    createFeedback: (feedback, actor) => transaction((tx) => tx.createFeedback(feedback), actor),
+    deleteFeedback: (id, actor) => transaction((tx) => tx.deleteFeedback(id), actor),
+  };
+}
+
+export const matchesEventFilter = (event: PipelineEvent, filter: EventFilter) =>
+  (filter.personId === undefined || event.personIds.includes(filter.personId)) &&
+  (filter.revision === undefined || event.revision === filter.revision) &&
+  (filter.afterRevision === undefined || event.revision > filter.afterRevision);
+
+// A transaction over an in-memory copy of the data, mutated in place. Events
+// are collected into `events` for the caller to persist.
+export function createMemoryTransaction(
+  data: VersionedData,
+  events: PipelineEvent[]
+): StorageTransaction {
+  return {
+    load: () => ({
+      nodes: [...data.nodes],
+      links: [...data.links],
+      stages: data.stages,
+      interviews: [...data.interviews],
+      feedback: [...data.feedback],
+      requisitions: data.requisitions,
+    }),
+    getPerson: (id) => data.nodes.find((n) => n.id === id),
+    createPerson: (person) => {
+      data.nodes.push(person);
+    },
+    updatePerson: (person) => {
+      data.nodes = data.nodes.map((n) => (n.id === person.id ? person : n));
+    },
+    deletePerson: (id) => {
+      data.nodes = data.nodes.filter((n) => n.id !== id);
+      data.links = data.links.filter((l) => l.source !== id && l.target !== id);
+      data.interviews = data.interviews.filter((i) => i.personId !== id);
+      data.feedback = data.feedback.filter((f) => f.personId !== id);
+    },
+    createLink: (link) => {
+      if (!data.links.some((l) => sameLink(l, link))) {
+        data.links.push(typedLink(link));
+      }
+    },
+    deleteLink: (link) => {
+      data.links = data.links.filter((l) => !sameLink(l, link));
+    },
+    getStages: () => data.stages,
+    setStages: (stages) => {
+      data.stages = stages;
+    },
+    getRequisitions: () => data.requisitions,
+    setRequisitions: (requisitions) => {
+      data.requisitions = requisitions;
+    },
+    getInterview: (id) => data.interviews.find((i) => i.id === id),
+    createInterview: (interview) => {
+      data.interviews.push(interview);
+    },
+    updateInterview: (interview) => {
+      data.interviews = data.interviews.map((i) => (i.id === interview.id ? interview : i));
+    },
+    deleteInterview: (id) => {
+      data.interviews = data.interviews.filter((i) => i.id !== id);
+    },
+    getFeedback: (id) => data.feedback.find((f) => f.id === id),
+    createFeedback: (feedback) => {
+      data.feedback.push(feedback);
+    },
+    deleteFeedback: (id) => {
+      data.feedback = data.feedback.filter((f) => f.id !== id);
+    },
+    replaceAll: ({ nodes, links, stages, interviews, feedback, requisitions }) => {
+      data.nodes = nodes;
+      data.links = links.map(typedLink);
+      if (stages) data.stages = stages;
+      if (requisitions) data.requisitions = requisitions;
+      // Without new interviews or feedback, those of people no longer there
+      // are dropped.
+      const ids = new Set(nodes.map((n) => n.id));
+      data.interviews = (interviews || data.interviews).filter((i) => ids.has(i.personId));
+      data.feedback = (feedback || data.feedback).filter((f) => ids.has(f.personId));
+    },
+    appendEvents: (newEvents) => {
+      events.push(...newEvents);
+    },
+  };
+}
@@ -0,0 +1,29 @@
+// lib/storage/index.ts
+import path from 'path';
+import { createJsonFileStorage } from './jsonFile';
+import { Storage } from './types';
+
+export type { EventFilter, Storage, StorageTransaction } from './types';
+
+// Backend selection:
+//   STORAGE_BACKEND=json   (default) DATA_FILE, default ./data.json
+//                                    EVENTS_FILE, default ./data.events.jsonl
+//   STORAGE_BACKEND=sqlite           SQLITE_FILE, default ./data.sqlite
+export const dataFilePath = path.resolve(process.env.DATA_FILE || 'data.json');
+export const eventsFilePath = path.resolve(process.env.EVENTS_FILE || 'data.events.jsonl');
+export const sqliteFilePath = path.resolve(process.env.SQLITE_FILE || 'data.sqlite');
+
+let storage: Storage | null = null;
+
+export function getStorage(): Storage {
+  if (!storage) {
+    if (process.env.STORAGE_BACKEND === 'sqlite') {
+      // Loaded lazily so the JSON backend doesn't need the native module.
+      const { createSqliteStorage } = require('./sqlite');
+      storage = createSqliteStorage(sqliteFilePath) as Storage;
+    } else {
+      storage = createJsonFileStorage(dataFilePath, eventsFilePath);
+    }
+  }
+  return storage;
+}
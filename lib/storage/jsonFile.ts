@@ -0,0 +1,62 @@
+// lib/storage/jsonFile.ts
+import fs from 'fs';
+import { typedLink } from '../relationships';
+import { requisitionsFromTeams } from '../requisitions';
+import { PipelineEvent, VersionedData, defaultStages } from '../types';
+import { writeFileAtomic } from './atomic';
+import { createMemoryTransaction, createStorage, matchesEventFilter } from './base';
+import { Storage } from './types';
+
+// The whole pipeline in one JSON file, replaced as a whole on every change,
+// with the history appended to a JSON-lines file next to it.
+export function createJsonFileStorage(filePath: string, eventsFilePath: string): Storage {
+  const load = (): VersionedData => {
+    if (!fs.existsSync(filePath)) {
+      return {
+        revision: 0,
+        nodes: [],
+        links: [],
+        stages: defaultStages,
+        interviews: [],
+        feedback: [],
+        requisitions: [],
+      };
+    }
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return {
+      revision: data.revision || 0,
+      nodes: data.nodes || [],
+      links: (data.links || []).map(typedLink),
+      stages: data.stages || defaultStages,
+      interviews: data.interviews || [],
+      feedback: data.feedback || [],
+      requisitions: data.requisitions || requisitionsFromTeams(data.nodes || []),
+    };
+  };
+
+  return createStorage({
+    load,
+    listEvents: (filter) => {
+      if (!fs.existsSync(eventsFilePath)) return [];
+      return fs
+        .readFileSync(eventsFilePath, 'utf8')
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+        .map((line) => JSON.parse(line) as PipelineEvent)
+        .filter((event) => matchesEventFilter(event, filter));
+    },
+    // Read, apply and write back in one synchronous step so that two
+    // requests handled by the same server never interleave.
+    transaction: (work) => {
+      const data = load();
+      const events: PipelineEvent[] = [];
+      data.revision += 1;
+      work(createMemoryTransaction(data, events), data.revision);
+      writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+      if (events.length) {
+        fs.appendFileSync(eventsFilePath, events.map((e) => JSON.stringify(e) + '\n').join(''), 'utf8');
+      }
+      return data.revision;
+    },
+  });
+}
@@ -0,0 +1,281 @@
+// lib/storage/sqlite.ts
+import Database from 'better-sqlite3';
+import { typedLink } from '../relationships';
+import { requisitionsFromTeams } from '../requisitions';
+import {
+  Feedback,
+  Interview,
+  Link,
+  Person,
+  PipelineEvent,
+  Requisition,
+  Stage,
+  VersionedData,
+  defaultStages,
+} from '../types';
+import { createStorage } from './base';
+import { EventFilter, Storage, StorageTransaction } from './types';
+
+const linksTable = `
+  CREATE TABLE IF NOT EXISTS links (
+    source TEXT NOT NULL,
+    target TEXT NOT NULL,
+    type TEXT NOT NULL DEFAULT 'referred_by',
+    PRIMARY KEY (source, target, type)
+  );
+`;
+
+// People, interviews and feedback are stored as JSON documents keyed by id
+// so new fields don't need a schema change; rowid keeps the insertion order.
+const schema = `
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS people (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  ${linksTable}
+  CREATE TABLE IF NOT EXISTS interviews (
+    id TEXT PRIMARY KEY,
+    person_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS interviews_person ON interviews (person_id);
+  CREATE TABLE IF NOT EXISTS feedback (
+    id TEXT PRIMARY KEY,
+    person_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS feedback_person ON feedback (person_id);
+  CREATE TABLE IF NOT EXISTS events (revision INTEGER NOT NULL, data TEXT NOT NULL);
+  CREATE INDEX IF NOT EXISTS events_revision ON events (revision);
+`;
+
+export function createSqliteStorage(filePath: string): Storage {
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.exec(schema);
+  // Files from before links had a type get the column, and its key, by
+  // copying the table; every existing link is a referral.
+  const linkColumns = db.prepare('PRAGMA table_info(links)').all() as { name: string }[];
+  if (!linkColumns.some((column) => column.name === 'type')) {
+    db.transaction(() =>
+      db.exec(`
+        ALTER TABLE links RENAME TO untyped_links;
+        ${linksTable}
+        INSERT INTO links (source, target) SELECT source, target FROM untyped_links ORDER BY rowid;
+        DROP TABLE untyped_links;
+      `)
+    )();
+  }
+
+  const statements = {
+    // Never below the newest event, so imported history keeps its revisions.
+    getRevision: db.prepare(
+      `SELECT MAX(
+         COALESCE((SELECT CAST(value AS INTEGER) FROM meta WHERE key = 'revision'), 0),
+         COALESCE((SELECT MAX(revision) FROM events), 0)
+       ) AS value`
+    ),
+    setRevision: db.prepare(
+      `INSERT INTO meta (key, value) VALUES ('revision', ?)
+       ON CONFLICT (key) DO UPDATE SET value = excluded.value`
+    ),
+    getStages: db.prepare(`SELECT value FROM meta WHERE key = 'stages'`),
+    setStages: db.prepare(
+      `INSERT INTO meta (key, value) VALUES ('stages', ?)
+       ON CONFLICT (key) DO UPDATE SET value = excluded.value`
+    ),
+    getRequisitions: db.prepare(`SELECT value FROM meta WHERE key = 'requisitions'`),
+    setRequisitions: db.prepare(
+      `INSERT INTO meta (key, value) VALUES ('requisitions', ?)
+       ON CONFLICT (key) DO UPDATE SET value = excluded.value`
+    ),
+    listPeople: db.prepare('SELECT data FROM people ORDER BY rowid'),
+    getPerson: db.prepare('SELECT data FROM people WHERE id = ?'),
+    insertPerson: db.prepare('INSERT INTO people (id, data) VALUES (?, ?)'),
+    updatePerson: db.prepare('UPDATE people SET data = ? WHERE id = ?'),
+    deletePerson: db.prepare('DELETE FROM people WHERE id = ?'),
+    deletePersonLinks: db.prepare('DELETE FROM links WHERE source = ? OR target = ?'),
+    deleteAllPeople: db.prepare('DELETE FROM people'),
+    listLinks: db.prepare('SELECT source, target, type FROM links ORDER BY rowid'),
+    insertLink: db.prepare('INSERT OR IGNORE INTO links (source, target, type) VALUES (?, ?, ?)'),
+    deleteLink: db.prepare('DELETE FROM links WHERE source = ? AND target = ? AND type = ?'),
+    deleteAllLinks: db.prepare('DELETE FROM links'),
+    listInterviews: db.prepare('SELECT data FROM interviews ORDER BY rowid'),
+    getInterview: db.prepare('SELECT data FROM interviews WHERE id = ?'),
+    insertInterview: db.prepare('INSERT INTO interviews (id, person_id, data) VALUES (?, ?, ?)'),
+    updateInterview: db.prepare('UPDATE interviews SET person_id = ?, data = ? WHERE id = ?'),
+    deleteInterview: db.prepare('DELETE FROM interviews WHERE id = ?'),
+    deletePersonInterviews: db.prepare('DELETE FROM interviews WHERE person_id = ?'),
+    deleteAllInterviews: db.prepare('DELETE FROM interviews'),
+    deleteOrphanInterviews: db.prepare(
+      'DELETE FROM interviews WHERE person_id NOT IN (SELECT id FROM people)'
+    ),
+    listFeedback: db.prepare('SELECT data FROM feedback ORDER BY rowid'),
+    getFeedback: db.prepare('SELECT data FROM feedback WHERE id = ?'),
+    insertFeedback: db.prepare('INSERT INTO feedback (id, person_id, data) VALUES (?, ?, ?)'),
+    deleteFeedback: db.prepare('DELETE FROM feedback WHERE id = ?'),
+    deletePersonFeedback: db.prepare('DELETE FROM feedback WHERE person_id = ?'),
+    deleteAllFeedback: db.prepare('DELETE FROM feedback'),
+    deleteOrphanFeedback: db.prepare(
+      'DELETE FROM feedback WHERE person_id NOT IN (SELECT id FROM people)'
+    ),
+    insertEvent: db.prepare('INSERT INTO events (revision, data) VALUES (?, ?)'),
+  };
+
+  const revision = () => {
+    const row = statements.getRevision.get() as { value: number };
+    return row.value;
+  };
+
+  const stages = (): Stage[] => {
+    const row = statements.getStages.get() as { value: string } | undefined;
+    return row ? JSON.parse(row.value) : defaultStages;
+  };
+
+  const people = () =>
+    (statements.listPeople.all() as { data: string }[]).map(
+      (row) => JSON.parse(row.data) as Person
+    );
+
+  // Until first saved, derived from the teams in use; see requisitionsFromTeams.
+  const requisitions = (): Requisition[] => {
+    const row = statements.getRequisitions.get() as { value: string } | undefined;
+    return row ? JSON.parse(row.value) : requisitionsFromTeams(people());
+  };
+
+  const load = (): VersionedData => {
+    const interviews = statements.listInterviews.all() as { data: string }[];
+    const feedback = statements.listFeedback.all() as { data: string }[];
+    return {
+      revision: revision(),
+      nodes: people(),
+      links: statements.listLinks.all() as Link[],
+      stages: stages(),
+      interviews: interviews.map((row) => JSON.parse(row.data) as Interview),
+      feedback: feedback.map((row) => JSON.parse(row.data) as Feedback),
+      requisitions: requisitions(),
+    };
+  };
+
+  const listEvents = (filter: EventFilter) => {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.personId !== undefined) {
+      conditions.push(`EXISTS (SELECT 1 FROM json_each(data, '$.personIds') WHERE value = ?)`);
+      params.push(filter.personId);
+    }
+    if (filter.revision !== undefined) {
+      conditions.push('revision = ?');
+      params.push(filter.revision);
+    }
+    if (filter.afterRevision !== undefined) {
+      conditions.push('revision > ?');
+      params.push(filter.afterRevision);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = db.prepare(`SELECT data FROM events ${where} ORDER BY rowid`).all(...params);
+    return (rows as { data: string }[]).map((row) => JSON.parse(row.data) as PipelineEvent);
+  };
+
+  const tx: StorageTransaction = {
+    load,
+    getPerson: (id) => {
+      const row = statements.getPerson.get(id) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+    createPerson: (person) => {
+      statements.insertPerson.run(person.id, JSON.stringify(person));
+    },
+    updatePerson: (person) => {
+      statements.updatePerson.run(JSON.stringify(person), person.id);
+    },
+    deletePerson: (id) => {
+      statements.deletePerson.run(id);
+      statements.deletePersonLinks.run(id, id);
+      statements.deletePersonInterviews.run(id);
+      statements.deletePersonFeedback.run(id);
+    },
+    createLink: (link) => {
+      const { source, target, type } = typedLink(link);
+      statements.insertLink.run(source, target, type);
+    },
+    deleteLink: (link) => {
+      const { source, target, type } = typedLink(link);
+      statements.deleteLink.run(source, target, type);
+    },
+    getStages: stages,
+    setStages: (newStages) => {
+      statements.setStages.run(JSON.stringify(newStages));
+    },
+    getRequisitions: requisitions,
+    setRequisitions: (newRequisitions) => {
+      statements.setRequisitions.run(JSON.stringify(newRequisitions));
+    },
+    getInterview: (id) => {
+      const row = statements.getInterview.get(id) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+    createInterview: (interview) => {
+      statements.insertInterview.run(interview.id, interview.personId, JSON.stringify(interview));
+    },
+    updateInterview: (interview) => {
+      statements.updateInterview.run(interview.personId, JSON.stringify(interview), interview.id);
+    },
+    deleteInterview: (id) => {
+      statements.deleteInterview.run(id);
+    },
+    getFeedback: (id) => {
+      const row = statements.getFeedback.get(id) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+    createFeedback: (feedback) => {
+      statements.insertFeedback.run(feedback.id, feedback.personId, JSON.stringify(feedback));
+    },
+    deleteFeedback: (id) => {
+      statements.deleteFeedback.run(id);
+    },
+    replaceAll: ({
+      nodes,
+      links,
+      stages: newStages,
+      interviews,
+      feedback,
+      requisitions: newRequisitions,
+    }) => {
+      if (newStages) tx.setStages(newStages);
+      if (newRequisitions) tx.setRequisitions(newRequisitions);
+      statements.deleteAllLinks.run();
+      statements.deleteAllPeople.run();
+      nodes.forEach((person) => tx.createPerson(person));
+      links.forEach((link) => tx.createLink(link));
+      // Without new interviews or feedback, those of people no longer there
+      // are dropped.
+      if (interviews) {
+        statements.deleteAllInterviews.run();
+        interviews.forEach((interview) => tx.createInterview(interview));
+      } else {
+        statements.deleteOrphanInterviews.run();
+      }
+      if (feedback) {
+        statements.deleteAllFeedback.run();
+        feedback.forEach((submission) => tx.createFeedback(submission));
+      } else {
+        statements.deleteOrphanFeedback.run();
+      }
+    },
+    appendEvents: (events) => {
+      events.forEach((event) => statements.insertEvent.run(event.revision, JSON.stringify(event)));
+    },
+  };
+
+  return createStorage({
+    load,
+    listEvents,
+    transaction: db.transaction((work: (tx: StorageTransaction, revision: number) => void) => {
+      const next = revision() + 1;
+      // Keep derived requisitions from changing with the people in them.
+      if (!statements.getRequisitions.get()) tx.setRequisitions(requisitions());
+      work(tx, next);
+      statements.setRevision.run(String(next));
+      return next;
+    }),
+  });
+}
@@ -0,0 +1,76 @@
+// lib/storage/types.ts
+import {
+  DataStructure,
+  Feedback,
+  Interview,
+  Link,
+  Person,
+  PipelineEvent,
+  Requisition,
+  Stage,
+  VersionedData,
+} from '../types';
+
+// Entity operations available inside a transaction. Nothing is written until
+// the transaction's work returns.
+export interface StorageTransaction {
+  // The state as changed so far by this transaction.
+  load(): DataStructure;
+  getPerson(id: string): Person | undefined;
+  createPerson(person: Person): void;
+  updatePerson(person: Person): void;
+  // Also removes every link touching the person, their interviews and the
+  // feedback on them.
+  deletePerson(id: string): void;
+  createLink(link: Link): void;
+  deleteLink(link: Link): void;
+  getStages(): Stage[];
+  setStages(stages: Stage[]): void;
+  getRequisitions(): Requisition[];
+  setRequisitions(requisitions: Requisition[]): void;
+  getInterview(id: string): Interview | undefined;
+  createInterview(interview: Interview): void;
+  updateInterview(interview: Interview): void;
+  deleteInterview(id: string): void;
+  getFeedback(id: string): Feedback | undefined;
+  createFeedback(feedback: Feedback): void;
+  deleteFeedback(id: string): void;
+  // Stages, interviews, feedback and requisitions are only replaced when
+  // `data` has them.
+  replaceAll(data: DataStructure): void;
+  appendEvents(events: PipelineEvent[]): void;
+}
+
+export interface EventFilter {
+  personId?: string;
+  revision?: number;
+  // Only events written after this revision.
+  afterRevision?: number;
+}
+
+// A persistence backend. Every write bumps the revision once, records what
+// changed in the history on behalf of `actor`, and returns the new revision.
+export interface Storage {
+  load(): VersionedData;
+  listEvents(filter?: EventFilter): PipelineEvent[];
+  save(data: DataStructure, actor?: string): number;
+  createPerson(person: Person, actor?: string): number;
+  updatePerson(person: Person, actor?: string): number;
+  deletePerson(id: string, actor?: string): number;
+  createLink(link: Link, actor?: string): number;
+  deleteLink(link: Link, actor?: string): number;
+  createInterview(interview: Interview, actor?: string): number;
+  updateInterview(interview: Interview, actor?: string): number;
+  deleteInterview(id: string, actor?: string): number;
+  createFeedback(feedback: Feedback, actor?: string): number;
+  deleteFeedback(id: string, actor?: string): number;
+  transaction(work: (tx: StorageTransaction) => void, actor?: string): number;
+}
+
+// What an adapter implements: `transaction` runs `work` atomically with the
+// revision it is about to write and returns that revision.
+export interface StorageAdapter {
+  load(): VersionedData;
+  listEvents(filter: EventFilter): PipelineEvent[];
+  transaction(work: (tx: StorageTransaction, revision: number) => void): number;
+}
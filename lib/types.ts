@@ -0,0 +1,264 @@
+// lib/types.ts
+// Shapes shared by the API routes and the client.
+
+export interface Person {
+  id: string;
+  name: string;
+  status: string;
+  starred: boolean;
+  // Name of the requisition the candidate is for, or '' for none.
+  team: string;
+  notes: string;
+  // The candidate profile; every field is optional.
+  email?: string;
+  phone?: string;
+  linkedin?: string;
+  // Where the candidate came from, e.g. "Referral" or "Job board".
+  source?: string;
+  // The position applied for.
+  position?: string;
+  // Free text, e.g. "70-80k EUR".
+  salaryExpectation?: string;
+  tags?: string[];
+  // Graph positions from before layouts were saved per user; no longer
+  // written, see lib/layout.
+  x?: number;
+  y?: number;
+}
+
+// Suggested sources; any other text is accepted too.
+export const candidateSources = [
+  'Referral',
+  'Job board',
+  'LinkedIn',
+  'Careers page',
+  'Agency',
+  'Event',
+];
+
+// A file kept with a person, such as a resume. The file itself is stored on
+// the server's disk, next to its metadata.
+export interface Attachment {
+  id: string;
+  personId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+  uploadedBy: string;
+}
+
+// A person before the server has assigned an id.
+export type NewPerson = Omit<Person, 'id'>;
+
+// How two people are related. A link reads "target <label> source": a
+// referral goes from the referrer to the person they referred.
+export type RelationshipType =
+  'referred_by' | 'interviewed_by' | 'reports_to' | 'duplicate_of' | 'sourced_by';
+
+export interface Link {
+  source: string;
+  target: string;
+  // Links saved before relationships had types are referrals.
+  type: RelationshipType;
+}
+
+// In menu order, with how their edges are drawn in the graph.
+export const relationshipTypes: {
+  type: RelationshipType;
+  label: string;
+  color: string;
+  dashed: boolean;
+}[] = [
+  { type: 'referred_by', label: 'referred by', color: '#7f8c8d', dashed: false },
+  { type: 'interviewed_by', label: 'interviewed by', color: '#2980b9', dashed: true },
+  { type: 'reports_to', label: 'reports to', color: '#27ae60', dashed: false },
+  { type: 'duplicate_of', label: 'duplicate of', color: '#c0392b', dashed: true },
+  { type: 'sourced_by', label: 'sourced by', color: '#d35400', dashed: true },
+];
+
+// A pipeline stage. `Person.status` holds the stage name; the id stays the
+// same across renames. People in a terminal stage are dimmed in the graph.
+export interface Stage {
+  id: string;
+  name: string;
+  color: string;
+  terminal: boolean;
+  // The stage's scorecard: what interviewers rate candidates on.
+  criteria?: string[];
+}
+
+// A job requisition: an opening on a team for `headcount` people.
+// `Person.team` holds the requisition name; the id stays the same across
+// renames. Closed requisitions take no new candidates.
+export interface Requisition {
+  id: string;
+  name: string;
+  headcount: number;
+  // Free-text name, like interviewers.
+  hiringManager: string;
+  open: boolean;
+  // YYYY-MM-DD, or '' without one.
+  targetDate: string;
+  // The public application form, for requisitions that have one.
+  applicationForm?: ApplicationForm;
+}
+
+export type NewRequisition = Omit<Requisition, 'id'>;
+
+// Fields the public application form can ask for besides the name. The
+// applicant's `message` is kept in the candidate's notes.
+export const applicationFields = [
+  'email',
+  'phone',
+  'linkedin',
+  'salaryExpectation',
+  'message',
+] as const;
+
+export type ApplicationField = (typeof applicationFields)[number];
+
+// A requisition's application form, shown to anyone while it is enabled and
+// the requisition is open. Fields left out aren't asked.
+export interface ApplicationForm {
+  enabled: boolean;
+  // Shown above the form.
+  intro: string;
+  fields: Partial<Record<ApplicationField, 'optional' | 'required'>>;
+}
+
+// All an applicant learns about their application: never the stage itself.
+export type ApplicationStatus = 'received' | 'in_review' | 'closed';
+
+// A scheduled interview with one candidate. `start` is an ISO date-time;
+// interviewers are free-text names.
+export interface Interview {
+  id: string;
+  personId: string;
+  start: string;
+  durationMinutes: number;
+  interviewers: string[];
+  round: string;
+  // A room or a video call link.
+  location: string;
+}
+
+export type NewInterview = Omit<Interview, 'id'>;
+
+// Suggested round types; any other name is accepted too.
+export const interviewRounds = ['Phone screen', 'Technical', 'System design', 'Culture', 'Final'];
+
+export type Recommendation = 'hire' | 'no_hire';
+
+// One interviewer's scorecard for a candidate at a stage. Ratings run from 1
+// (poor) to 4 (excellent), one per criterion of the stage.
+export interface Feedback {
+  id: string;
+  personId: string;
+  // Name of the stage the candidate was in.
+  stage: string;
+  interviewer: string;
+  submittedAt: string;
+  ratings: Record<string, number>;
+  recommendation: Recommendation;
+  comments: string;
+}
+
+// Feedback for one candidate rolled up; `average` is null without ratings.
+export interface FeedbackSummary {
+  count: number;
+  average: number | null;
+  hire: number;
+  noHire: number;
+}
+
+export interface DataStructure {
+  nodes: Person[];
+  links: Link[];
+  // In pipeline order. Left out, the current stages are kept.
+  stages?: Stage[];
+  // Left out, the current interviews are kept.
+  interviews?: Interview[];
+  // Left out, the current feedback is kept.
+  feedback?: Feedback[];
+  // Left out, the current requisitions are kept.
+  requisitions?: Requisition[];
+}
+
+// The pipeline as stored on the server; `revision` increases on every write.
+export interface VersionedData extends DataStructure {
+  revision: number;
+  stages: Stage[];
+  interviews: Interview[];
+  // Never sent to clients with the rest; see /api/feedback.
+  feedback: Feedback[];
+  requisitions: Requisition[];
+}
+
+export type PipelineEventType =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'link_added'
+  | 'link_removed'
+  | 'stages_changed'
+  | 'interview_added'
+  | 'interview_updated'
+  | 'interview_removed'
+  | 'feedback_added'
+  | 'feedback_removed'
+  | 'requisition_added'
+  | 'requisition_updated'
+  | 'requisition_removed';
+
+// One entry in the append-only history. Every event written by the same
+// transaction shares its revision.
+export interface PipelineEvent {
+  revision: number;
+  at: string;
+  actor: string;
+  type: PipelineEventType;
+  // The people this event concerns (both ends for link events).
+  personIds: string[];
+  // Snapshot of the person for `created` and `deleted`.
+  person?: Person;
+  // Links, interviews and feedback removed together with a `deleted` person.
+  links?: Link[];
+  interviews?: Interview[];
+  feedback?: Feedback[];
+  // The changed field for `updated`; `before`/`after` also hold the whole
+  // stage list for `stages_changed`.
+  field?: string;
+  before?: unknown;
+  after?: unknown;
+  // The link for `link_added` and `link_removed`.
+  link?: Link;
+  // The interview for `interview_added` and `interview_removed`; for
+  // `interview_updated`, `before`/`after` hold the whole interview.
+  interview?: Interview;
+  // The submission for `feedback_added` and `feedback_removed`.
+  scorecard?: Feedback;
+  // The requisition for `requisition_added` and `requisition_removed`; for
+  // `requisition_updated`, `before`/`after` hold the whole requisition.
+  requisition?: Requisition;
+}
+
+// The stages every pipeline starts with.
+export const defaultStages: Stage[] = [
+  { id: 'todo', name: 'To do', color: '#3498db', terminal: false },
+  {
+    id: 'interview',
+    name: 'Interview',
+    color: '#e67e22',
+    terminal: false,
+    criteria: ['Technical skills', 'Problem solving', 'Communication'],
+  },
+  {
+    id: 'ceo',
+    name: 'CEO',
+    color: '#2ecc71',
+    terminal: false,
+    criteria: ['Motivation', 'Culture add'],
+  },
+  { id: 'rejected', name: 'Rejected', color: '#e74c3c', terminal: true },
+];
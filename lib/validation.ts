@@ -0,0 +1,529 @@
+// lib/validation.ts
+import type { NextApiResponse } from 'next';
+import { roles } from './auth/types';
+import { layoutAlgorithms } from './layout/types';
+import { parseQuery } from './query';
+import { ApplicationForm, applicationFields, relationshipTypes } from './types';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isEmail = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+export const isWebUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Optional profile fields that are free text.
+const profileTextFields = ['phone', 'source', 'position', 'salaryExpectation'];
+
+// Check a person payload against the stage names in `statuses` and, when
+// given, the requisition names in `teams`. With `partial` set (PATCH),
+// missing fields are allowed but any field that is present must still be
+// valid.
+export function validatePerson(
+  value: unknown,
+  statuses: string[],
+  prefix = '',
+  partial = false,
+  teams?: string[]
+): FieldError[] {
+  if (!isObject(value)) {
+    return [{ field: prefix || 'body', message: 'must be an object' }];
+  }
+  const errors: FieldError[] = [];
+  const field = (name: string) => (prefix ? `${prefix}.${name}` : name);
+  const check = (name: string, valid: boolean, message: string) => {
+    if (value[name] === undefined) {
+      if (!partial) errors.push({ field: field(name), message: 'is required' });
+    } else if (!valid) {
+      errors.push({ field: field(name), message });
+    }
+  };
+
+  check('id', typeof value.id === 'string' && value.id !== '', 'must be a non-empty string');
+  check('name', typeof value.name === 'string' && value.name.trim() !== '', 'must be a non-empty string');
+  check(
+    'status',
+    typeof value.status === 'string' && statuses.includes(value.status),
+    `must be one of ${statuses.join(', ')}`
+  );
+  check('starred', typeof value.starred === 'boolean', 'must be a boolean');
+  check('team', typeof value.team === 'string', 'must be a string');
+  if (teams && typeof value.team === 'string' && value.team !== '' && !teams.includes(value.team)) {
+    errors.push({
+      field: field('team'),
+      message: teams.length
+        ? `must be empty or one of ${teams.join(', ')}`
+        : 'must be empty while no requisition is open',
+    });
+  }
+  check('notes', typeof value.notes === 'string', 'must be a string');
+  // Profile fields may be left out, and cleared with an empty string.
+  const optional = (name: string, valid: boolean, message: string) => {
+    if (value[name] !== undefined && !valid) errors.push({ field: field(name), message });
+  };
+  profileTextFields.forEach((name) =>
+    optional(name, typeof value[name] === 'string', 'must be a string')
+  );
+  optional(
+    'email',
+    typeof value.email === 'string' && (value.email === '' || isEmail(value.email)),
+    'must be an email address'
+  );
+  optional(
+    'linkedin',
+    typeof value.linkedin === 'string' && (value.linkedin === '' || isWebUrl(value.linkedin)),
+    'must be an http(s) URL'
+  );
+  optional(
+    'tags',
+    Array.isArray(value.tags) &&
+      value.tags.every((tag: unknown) => typeof tag === 'string' && tag.trim() !== ''),
+    'must be a list of non-empty strings'
+  );
+  ['x', 'y'].forEach((name) => {
+    if (value[name] !== undefined && (typeof value[name] !== 'number' || !isFinite(value[name]))) {
+      errors.push({ field: field(name), message: 'must be a finite number' });
+    }
+  });
+  return errors;
+}
+
+// Check a link's shape and, when `ids` is given, that both ends exist. A
+// missing type is a referral.
+export function validateLink(value: unknown, ids?: Set<string>, prefix = ''): FieldError[] {
+  if (!isObject(value)) {
+    return [{ field: prefix || 'body', message: 'must be an object' }];
+  }
+  const errors: FieldError[] = [];
+  const field = (name: string) => (prefix ? `${prefix}.${name}` : name);
+  (['source', 'target'] as const).forEach((name) => {
+    if (typeof value[name] !== 'string' || value[name] === '') {
+      errors.push({ field: field(name), message: 'must be a non-empty string' });
+    } else if (ids && !ids.has(value[name])) {
+      errors.push({ field: field(name), message: `refers to unknown person ${value[name]}` });
+    }
+  });
+  if (value.type !== undefined && !relationshipTypes.some((r) => r.type === value.type)) {
+    errors.push({
+      field: field('type'),
+      message: `must be one of ${relationshipTypes.map((r) => r.type).join(', ')}`,
+    });
+  }
+  return errors;
+}
+
+// Check an interview payload; `personId` must name someone in `personIds`.
+// With `partial` set (PATCH), missing fields are allowed.
+export function validateInterview(
+  value: unknown,
+  personIds: Set<string>,
+  prefix = '',
+  partial = false
+): FieldError[] {
+  if (!isObject(value)) {
+    return [{ field: prefix || 'body', message: 'must be an object' }];
+  }
+  const errors: FieldError[] = [];
+  const field = (name: string) => (prefix ? `${prefix}.${name}` : name);
+  const check = (name: string, valid: boolean, message: string) => {
+    if (value[name] === undefined) {
+      if (!partial) errors.push({ field: field(name), message: 'is required' });
+    } else if (!valid) {
+      errors.push({ field: field(name), message });
+    }
+  };
+
+  check(
+    'personId',
+    typeof value.personId === 'string' && personIds.has(value.personId),
+    'must be the id of an existing person'
+  );
+  check(
+    'start',
+    typeof value.start === 'string' && !isNaN(Date.parse(value.start)),
+    'must be an ISO date and time'
+  );
+  check(
+    'durationMinutes',
+    Number.isInteger(value.durationMinutes) && value.durationMinutes > 0,
+    'must be a positive whole number'
+  );
+  check(
+    'interviewers',
+    Array.isArray(value.interviewers) &&
+      value.interviewers.length > 0 &&
+      value.interviewers.every((name: unknown) => typeof name === 'string' && name.trim() !== ''),
+    'must be a non-empty list of names'
+  );
+  check('round', typeof value.round === 'string' && value.round.trim() !== '', 'must be a non-empty string');
+  check('location', typeof value.location === 'string', 'must be a string');
+  return errors;
+}
+
+// Check a feedback submission: a 1–4 rating for each of `criteria` and
+// nothing else, a recommendation, and comments.
+export function validateFeedback(value: unknown, criteria: string[]): FieldError[] {
+  if (!isObject(value)) {
+    return [{ field: 'body', message: 'must be an object' }];
+  }
+  const errors: FieldError[] = [];
+  if (!isObject(value.ratings)) {
+    errors.push({ field: 'ratings', message: 'must be an object' });
+  } else {
+    criteria.forEach((criterion) => {
+      const rating = value.ratings[criterion];
+      if (!Number.isInteger(rating) || rating < 1 || rating > 4) {
+        errors.push({ field: `ratings.${criterion}`, message: 'must be a rating from 1 to 4' });
+      }
+    });
+    Object.keys(value.ratings)
+      .filter((name) => !criteria.includes(name))
+      .forEach((name) => {
+        errors.push({ field: `ratings.${name}`, message: 'is not on the scorecard' });
+      });
+  }
+  if (value.recommendation !== 'hire' && value.recommendation !== 'no_hire') {
+    errors.push({ field: 'recommendation', message: 'must be hire or no_hire' });
+  }
+  if (value.comments !== undefined && typeof value.comments !== 'string') {
+    errors.push({ field: 'comments', message: 'must be a string' });
+  }
+  return errors;
+}
+
+// Check a requisition payload. With `partial` set (PATCH), missing fields
+// are allowed.
+export function validateRequisition(value: unknown, partial = false, prefix = ''): FieldError[] {
+  if (!isObject(value)) {
+    return [{ field: prefix || 'body', message: 'must be an object' }];
+  }
+  const errors: FieldError[] = [];
+  const field = (name: string) => (prefix ? `${prefix}.${name}` : name);
+  const check = (name: string, valid: boolean, message: string) => {
+    if (value[name] === undefined) {
+      if (!partial) errors.push({ field: field(name), message: 'is required' });
+    } else if (!valid) {
+      errors.push({ field: field(name), message });
+    }
+  };
+
+  check('name', typeof value.name === 'string' && value.name.trim() !== '', 'must be a non-empty string');
+  check(
+    'headcount',
+    Number.isInteger(value.headcount) && value.headcount > 0,
+    'must be a positive whole number'
+  );
+  check('hiringManager', typeof value.hiringManager === 'string', 'must be a string');
+  check('open', typeof value.open === 'boolean', 'must be a boolean');
+  check(
+    'targetDate',
+    typeof value.targetDate === 'string' &&
+      (value.targetDate === '' ||
+        (/^\d{4}-\d{2}-\d{2}$/.test(value.targetDate) && !isNaN(Date.parse(value.targetDate)))),
+    'must be a date like 2025-06-30, or empty'
+  );
+  if (value.applicationForm !== undefined) {
+    errors.push(...validateApplicationForm(value.applicationForm, field('applicationForm')));
+  }
+  return errors;
+}
+
+// Check a requisition's application form settings.
+export function validateApplicationForm(value: unknown, prefix = 'applicationForm'): FieldError[] {
+  if (!isObject(value)) {
+    return [{ field: prefix, message: 'must be an object' }];
+  }
+  const errors: FieldError[] = [];
+  if (typeof value.enabled !== 'boolean') {
+    errors.push({ field: `${prefix}.enabled`, message: 'must be a boolean' });
+  }
+  if (typeof value.intro !== 'string' || value.intro.length > 2000) {
+    errors.push({
+      field: `${prefix}.intro`,
+      message: 'must be a string of at most 2000 characters',
+    });
+  }
+  if (!isObject(value.fields)) {
+    errors.push({ field: `${prefix}.fields`, message: 'must be an object' });
+  } else {
+    Object.entries(value.fields).forEach(([name, setting]) => {
+      if (!(applicationFields as readonly string[]).includes(name)) {
+        errors.push({
+          field: `${prefix}.fields.${name}`,
+          message: `is not one of ${applicationFields.join(', ')}`,
+        });
+      } else if (setting !== 'optional' && setting !== 'required') {
+        errors.push({ field: `${prefix}.fields.${name}`, message: 'must be optional or required' });
+      }
+    });
+  }
+  return errors;
+}
+
+// Check an application sent through `form`: a name, the required fields,
+// and an email and LinkedIn URL that look like ones. Fields the form does
+// not ask for are ignored.
+export function validateApplication(value: unknown, form: ApplicationForm): FieldError[] {
+  if (!isObject(value)) {
+    return [{ field: 'body', message: 'must be an object' }];
+  }
+  const errors: FieldError[] = [];
+  const text = (name: string, max: number) => {
+    const given = value[name];
+    if (given !== undefined && (typeof given !== 'string' || given.length > max)) {
+      errors.push({ field: name, message: `must be text of at most ${max} characters` });
+      return '';
+    }
+    return (given || '').trim();
+  };
+  if (!text('name', 200)) errors.push({ field: 'name', message: 'is required' });
+  applicationFields
+    .filter((name) => form.fields[name])
+    .forEach((name) => {
+      const given = text(name, name === 'message' ? 5000 : 500);
+      if (!given) {
+        if (form.fields[name] === 'required') errors.push({ field: name, message: 'is required' });
+      } else if (name === 'email' && !isEmail(given)) {
+        errors.push({ field: name, message: 'must be an email address' });
+      } else if (name === 'linkedin' && !isWebUrl(given)) {
+        errors.push({ field: name, message: 'must be a link starting with http:// or https://' });
+      }
+    });
+  return errors;
+}
+
+// Check a stage list: at least one stage, unique ids and names.
+export function validateStages(value: unknown, prefix = 'stages'): FieldError[] {
+  if (!Array.isArray(value) || !value.length) {
+    return [{ field: prefix, message: 'must be a non-empty array' }];
+  }
+  const errors: FieldError[] = [];
+  const ids = new Set<string>();
+  const names = new Set<string>();
+  value.forEach((stage: unknown, i: number) => {
+    const field = (name: string) => `${prefix}[${i}].${name}`;
+    if (!isObject(stage)) {
+      errors.push({ field: `${prefix}[${i}]`, message: 'must be an object' });
+      return;
+    }
+    if (typeof stage.id !== 'string' || stage.id === '') {
+      errors.push({ field: field('id'), message: 'must be a non-empty string' });
+    } else if (ids.has(stage.id)) {
+      errors.push({ field: field('id'), message: `duplicates id ${stage.id}` });
+    } else {
+      ids.add(stage.id);
+    }
+    if (typeof stage.name !== 'string' || stage.name.trim() === '') {
+      errors.push({ field: field('name'), message: 'must be a non-empty string' });
+    } else if (names.has(stage.name)) {
+      errors.push({ field: field('name'), message: `duplicates name ${stage.name}` });
+    } else {
+      names.add(stage.name);
+    }
+    if (typeof stage.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(stage.color)) {
+      errors.push({ field: field('color'), message: 'must be a hex color like #3498db' });
+    }
+    if (typeof stage.terminal !== 'boolean') {
+      errors.push({ field: field('terminal'), message: 'must be a boolean' });
+    }
+    if (
+      stage.criteria !== undefined &&
+      (!Array.isArray(stage.criteria) ||
+        stage.criteria.some((c: unknown) => typeof c !== 'string' || c.trim() === '') ||
+        new Set(stage.criteria).size !== stage.criteria.length)
+    ) {
+      errors.push({ field: field('criteria'), message: 'must be a list of distinct names' });
+    }
+  });
+  return errors;
+}
+
+// Check a whole pipeline: every person, unique ids, every link end and,
+// when given, every interview and requisition.
+// People are checked against the payload's own stages when it has them, and
+// against its requisitions when it has those.
+export function validateDataStructure(value: unknown, currentStatuses: string[]): FieldError[] {
+  if (!isObject(value)) {
+    return [{ field: 'body', message: 'must be an object' }];
+  }
+  const errors: FieldError[] = [];
+  if (!Array.isArray(value.nodes)) {
+    errors.push({ field: 'nodes', message: 'must be an array' });
+  }
+  if (!Array.isArray(value.links)) {
+    errors.push({ field: 'links', message: 'must be an array' });
+  }
+  if (value.stages !== undefined) {
+    errors.push(...validateStages(value.stages));
+  }
+  if (value.requisitions !== undefined) {
+    if (!Array.isArray(value.requisitions)) {
+      errors.push({ field: 'requisitions', message: 'must be an array' });
+    } else {
+      const names = new Set<string>();
+      value.requisitions.forEach((requisition: unknown, i: number) => {
+        const prefix = `requisitions[${i}]`;
+        errors.push(...validateRequisition(requisition, false, prefix));
+        if (!isObject(requisition) || typeof requisition.id !== 'string' || requisition.id === '') {
+          errors.push({ field: `${prefix}.id`, message: 'must be a non-empty string' });
+        } else if (names.has(requisition.name)) {
+          errors.push({ field: `${prefix}.name`, message: `duplicates name ${requisition.name}` });
+        } else {
+          names.add(requisition.name);
+        }
+      });
+    }
+  }
+  if (errors.length) return errors;
+
+  const statuses = value.stages
+    ? value.stages.map((stage: { name: string }) => stage.name)
+    : currentStatuses;
+  // Everyone on a requisition, open or closed, can stay on it.
+  const teams = value.requisitions
+    ? value.requisitions.map((requisition: { name: string }) => requisition.name)
+    : undefined;
+  const ids = new Set<string>();
+  value.nodes.forEach((node: unknown, i: number) => {
+    errors.push(...validatePerson(node, statuses, `nodes[${i}]`, false, teams));
+    const id = isObject(node) ? node.id : undefined;
+    if (typeof id === 'string') {
+      if (ids.has(id)) {
+        errors.push({ field: `nodes[${i}].id`, message: `duplicates id ${id}` });
+      }
+      ids.add(id);
+    }
+  });
+  value.links.forEach((link: unknown, i: number) => {
+    errors.push(...validateLink(link, ids, `links[${i}]`));
+  });
+  if (value.interviews !== undefined) {
+    if (!Array.isArray(value.interviews)) {
+      errors.push({ field: 'interviews', message: 'must be an array' });
+    } else {
+      value.interviews.forEach((interview: unknown, i: number) => {
+        errors.push(...validateInterview(interview, ids, `interviews[${i}]`));
+        if (!isObject(interview) || typeof interview.id !== 'string' || interview.id === '') {
+          errors.push({ field: `interviews[${i}].id`, message: 'must be a non-empty string' });
+        }
+      });
+    }
+  }
+  return errors;
+}
+
+// Check a user account payload. Passwords are optional, for people who only
+// sign in with OIDC, but must be at least 8 characters when given. With
+// `partial` set (PATCH), missing fields are allowed.
+export function validateUser(value: unknown, partial = false): FieldError[] {
+  if (!isObject(value)) {
+    return [{ field: 'body', message: 'must be an object' }];
+  }
+  const errors: FieldError[] = [];
+  const check = (name: string, valid: boolean, message: string, required = true) => {
+    if (value[name] === undefined) {
+      if (required && !partial) errors.push({ field: name, message: 'is required' });
+    } else if (!valid) {
+      errors.push({ field: name, message });
+    }
+  };
+
+  check(
+    'username',
+    typeof value.username === 'string' && /^\S+$/.test(value.username),
+    'must be a non-empty string without spaces'
+  );
+  check('name', typeof value.name === 'string' && value.name.trim() !== '', 'must be a non-empty string');
+  check('role', roles.includes(value.role), `must be one of ${roles.join(', ')}`);
+  check('team', typeof value.team === 'string', 'must be a string', false);
+  check(
+    'password',
+    typeof value.password === 'string' && value.password.length >= 8,
+    'must be at least 8 characters',
+    false
+  );
+  return errors;
+}
+
+// Check a saved graph layout: a known algorithm and a position, in finite
+// numbers, for each node id.
+export function validateLayout(value: unknown): FieldError[] {
+  if (!isObject(value)) {
+    return [{ field: 'body', message: 'must be an object' }];
+  }
+  const errors: FieldError[] = [];
+  if (!layoutAlgorithms.some((a) => a.algorithm === value.algorithm)) {
+    errors.push({
+      field: 'algorithm',
+      message: `must be one of ${layoutAlgorithms.map((a) => a.algorithm).join(', ')}`,
+    });
+  }
+  if (!isObject(value.positions)) {
+    errors.push({ field: 'positions', message: 'must be an object' });
+    return errors;
+  }
+  Object.entries(value.positions).forEach(([id, position]) => {
+    const finite = (n: unknown) => typeof n === 'number' && isFinite(n);
+    if (!isObject(position) || !finite(position.x) || !finite(position.y)) {
+      errors.push({ field: `positions.${id}`, message: 'must be { x, y } in finite numbers' });
+    }
+  });
+  return errors;
+}
+
+export function validateSavedView(value: unknown, partial = false): FieldError[] {
+  if (!isObject(value)) {
+    return [{ field: 'body', message: 'must be an object' }];
+  }
+  const errors: FieldError[] = [];
+  if (!partial || value.name !== undefined) {
+    if (typeof value.name !== 'string' || !value.name.trim()) {
+      errors.push({ field: 'name', message: 'must be a non-empty string' });
+    } else if (value.name.trim().length > 100) {
+      errors.push({ field: 'name', message: 'must be at most 100 characters' });
+    }
+  }
+  if (!partial || value.query !== undefined) {
+    if (typeof value.query !== 'string') {
+      errors.push({ field: 'query', message: 'must be a string' });
+    } else {
+      const { error } = parseQuery(value.query);
+      if (error) errors.push({ field: 'query', message: error });
+    }
+  }
+  return errors;
+}
+
+export function validatePresence(value: unknown): FieldError[] {
+  if (!isObject(value)) {
+    return [{ field: 'body', message: 'must be an object' }];
+  }
+  const errors: FieldError[] = [];
+  if (typeof value.clientId !== 'string') {
+    errors.push({ field: 'clientId', message: 'must be a string' });
+  }
+  if (value.personId !== null && typeof value.personId !== 'string') {
+    errors.push({ field: 'personId', message: 'must be a string or null' });
+  }
+  if (typeof value.editing !== 'boolean') {
+    errors.push({ field: 'editing', message: 'must be a boolean' });
+  }
+  return errors;
+}
+
+// Send the standard 400 response listing every field error.
+export function sendValidationErrors(res: NextApiResponse, errors: FieldError[]) {
+  res.status(400).json({ message: 'Invalid payload', errors });
+}
+
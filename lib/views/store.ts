@@ -0,0 +1,19 @@
+// lib/views/store.ts
+import fs from 'fs';
+import path from 'path';
+import { SavedView } from './types';
+
+// Everyone's saved views, in VIEWS_FILE, default ./data.views.json. Like
+// layouts they aren't part of the pipeline or its history.
+export const viewsFilePath = path.resolve(process.env.VIEWS_FILE || 'data.views.json');
+
+export function readViews(): SavedView[] {
+  if (!fs.existsSync(viewsFilePath)) return [];
+  return JSON.parse(fs.readFileSync(viewsFilePath, 'utf8'));
+}
+
+// Callers read, change and write back within one synchronous step, like
+// the JSON storage, so two requests never interleave.
+export function writeViews(views: SavedView[]) {
+  fs.writeFileSync(viewsFilePath, JSON.stringify(views, null, 2), 'utf8');
+}
@@ -0,0 +1,21 @@
+// lib/views/types.ts
+
+// A named filter query everyone can open, and share as `/?view=<id>`.
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string;
+  // The account that saved it; only they and admins may change it.
+  ownerId: string;
+  ownerName: string;
+  createdAt: string;
+}
+
+export type NewSavedView = Pick<SavedView, 'name' | 'query'>;
+
+// Names differing only in case or surrounding spaces are the same view.
+export const sameViewName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// The key each view's graph layout is saved under; see lib/layout.
+export const layoutViewKey = (viewId: string | null) => (viewId ? `view-${viewId}` : 'pipeline');
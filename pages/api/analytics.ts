@@ -0,0 +1,49 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  AnalyticsFilter,
+  ReportSection,
+  buildReport,
+  reportSections,
+  reportToCsv,
+} from '../../lib/analytics';
+import { requireUser } from '../../lib/auth/session';
+import { getStorage } from '../../lib/storage';
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/analytics?from=&to=&team= reports on the history between two dates
+// (YYYY-MM-DD, both included). With format=csv&section=… one section of the
+// report is downloaded as CSV instead. Hiring managers only get their team's.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+  const user = requireUser(req, res, 'analytics:read');
+  if (!user) return;
+  const { from, to, team, format = 'json', section } = req.query as Record<string, string>;
+  if ((from && !datePattern.test(from)) || (to && !datePattern.test(to))) {
+    res.status(400).json({ message: 'from and to must be dates like 2024-01-31' });
+    return;
+  }
+  const filter: AnalyticsFilter = {
+    ...(from ? { from } : {}),
+    ...(to ? { to } : {}),
+    ...(user.role === 'hiring_manager' ? { team: user.team } : team !== undefined ? { team } : {}),
+  };
+  const storage = getStorage();
+  const data = storage.load();
+  const report = buildReport(storage.listEvents(), data.nodes, data.links, data.stages, filter);
+
+  if (format === 'json') {
+    res.status(200).json(report);
+  } else if (format === 'csv' && reportSections.includes(section as ReportSection)) {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="analytics-${section}.csv"`);
+    res.status(200).send(reportToCsv(report, section as ReportSection));
+  } else {
+    res.status(400).json({
+      message: `format must be json, or csv with section ${reportSections.join(', ')}`,
+    });
+  }
+}
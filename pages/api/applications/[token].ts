@@ -0,0 +1,26 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { applicationStatus, findApplication } from '../../../lib/applications';
+import { getStorage } from '../../../lib/storage';
+
+// An applicant's view of their application, by the token they were given:
+// the position and a coarse status, and nothing from inside the pipeline.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    const application = findApplication(String(req.query.token));
+    if (!application) {
+      res.status(404).json({ message: 'Application not found' });
+      return;
+    }
+    const current = getStorage().load();
+    const person = current.nodes.find((n) => n.id === application.personId);
+    const requisition = current.requisitions.find((r) => r.id === application.requisitionId);
+    res.status(200).json({
+      name: person?.name,
+      position: requisition?.name || application.requisitionName,
+      submittedAt: application.submittedAt,
+      status: applicationStatus(person, current.stages),
+    });
+  } else {
+    res.status(405).end();
+  }
+}
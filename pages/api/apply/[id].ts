@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { allowApplication, recordApplication } from '../../../lib/applications';
+import { newId } from '../../../lib/ids';
+import { getStorage } from '../../../lib/storage';
+import { Person, applicationFields } from '../../../lib/types';
+import { sendValidationErrors, validateApplication } from '../../../lib/validation';
+
+// The connection's address. Behind a proxy, set TRUST_PROXY to use the
+// address it saw instead; without one, clients could send any they like.
+const clientAddress = (req: NextApiRequest) =>
+  (process.env.TRUST_PROXY &&
+    String(req.headers['x-forwarded-for'] || '')
+      .split(',')
+      .pop()!
+      .trim()) ||
+  req.socket.remoteAddress ||
+  '';
+
+// The public application form of an open requisition. No session needed.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const storage = getStorage();
+  const current = storage.load();
+  const requisition = current.requisitions.find((r) => r.id === req.query.id);
+  const form = requisition?.open ? requisition.applicationForm : undefined;
+  if (!form?.enabled) {
+    res.status(404).json({ message: 'This position is not taking applications' });
+    return;
+  }
+
+  if (req.method === 'GET') {
+    res.status(200).json({ id: requisition.id, name: requisition.name, ...form });
+  } else if (req.method === 'POST') {
+    const { allowed, retryAfter } = allowApplication(clientAddress(req));
+    if (!allowed) {
+      res.setHeader('Retry-After', String(retryAfter));
+      res.status(429).json({ message: 'Too many applications, please try again later' });
+      return;
+    }
+    const body = req.body || {};
+    // `website` is hidden from people, so only bots fill it in. They get
+    // what looks like a success and nothing is saved.
+    if (body.website) {
+      res.status(201).json({ token: crypto.randomBytes(24).toString('hex') });
+      return;
+    }
+    const errors = validateApplication(body, form);
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    const given = (field: string) => (body[field] || '').trim();
+    const person: Person = {
+      id: newId(),
+      name: given('name'),
+      status: current.stages[0].name,
+      starred: false,
+      team: requisition.name,
+      notes: given('message') && `Application message:\n${given('message')}`,
+      source: 'Careers page',
+    };
+    applicationFields
+      .filter((field) => field !== 'message' && form.fields[field] && given(field))
+      .forEach((field) => (person[field] = given(field)));
+    storage.transaction((tx) => tx.createPerson(person), 'Application form');
+    res.status(201).json({ token: recordApplication(person.id, requisition) });
+  } else {
+    res.status(405).end();
+  }
+}
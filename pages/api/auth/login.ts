@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { oidcEnabled } from '../../../lib/auth/oidc';
+import { verifyPassword } from '../../../lib/auth/passwords';
+import { startSession } from '../../../lib/auth/session';
+import { findUserByUsername, readUsers, toPublicUser } from '../../../lib/auth/users';
+
+// GET says which ways of signing in are available; POST { username, password }
+// signs in and sets the session cookie.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    res.status(200).json({ password: true, oidc: oidcEnabled() });
+  } else if (req.method === 'POST') {
+    const { username, password } = req.body || {};
+    const user =
+      typeof username === 'string' ? findUserByUsername(readUsers().users, username) : undefined;
+    if (!user || typeof password !== 'string' || !verifyPassword(password, user.passwordHash)) {
+      res.status(401).json({ message: 'Wrong username or password' });
+      return;
+    }
+    startSession(req, res, user);
+    res.status(200).json(toPublicUser(user));
+  } else {
+    res.status(405).end();
+  }
+}
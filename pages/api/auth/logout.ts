@@ -0,0 +1,11 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { endSession } from '../../../lib/auth/session';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.status(405).end();
+    return;
+  }
+  endSession(req, res);
+  res.status(204).end();
+}
@@ -0,0 +1,14 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../../../lib/auth/session';
+import { toPublicUser } from '../../../lib/auth/users';
+
+// The signed-in user, or 401.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+  const user = requireUser(req, res);
+  if (!user) return;
+  res.status(200).json(toPublicUser(user));
+}
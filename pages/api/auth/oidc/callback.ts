@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { exchangeCode, redirectUri } from '../../../../lib/auth/oidc';
+import { startSession } from '../../../../lib/auth/session';
+import { findUserByUsername, updateUsers } from '../../../../lib/auth/users';
+
+// The provider sends the browser back here. An account is found by its linked
+// subject, or on first sign-in by a username equal to the email the provider
+// has verified, which links it. The provider's username is never used, as
+// its users can usually pick it. Nobody gets an account by signing in.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+  const fail = (message: string) =>
+    res.redirect(302, `/?loginError=${encodeURIComponent(message)}`);
+  const { code, state, error } = req.query as Record<string, string>;
+  const [expectedState, nonce] = (req.cookies.oidc || '').split('.');
+  if (error || !code || !state || state !== expectedState) {
+    fail(error ? `The provider refused the sign-in: ${error}` : 'The sign-in expired, try again');
+    return;
+  }
+
+  try {
+    const claims = await exchangeCode(code, nonce, redirectUri(req));
+    const user = updateUsers(({ users }) => {
+      const linked = users.find((u) => u.oidcSubject === claims.sub);
+      if (linked) return linked;
+      const match =
+        claims.email && claims.email_verified === true
+          ? findUserByUsername(users, claims.email)
+          : undefined;
+      if (match?.oidcSubject) return undefined;
+      if (match) match.oidcSubject = claims.sub;
+      return match;
+    });
+    if (!user) {
+      fail(`No account for ${claims.email || claims.preferred_username || claims.sub}`);
+      return;
+    }
+    startSession(req, res, user);
+    res.redirect(302, '/');
+  } catch (e) {
+    fail((e as Error).message);
+  }
+}
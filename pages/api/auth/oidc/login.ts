@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { authorizationUrl, oidcEnabled, redirectUri } from '../../../../lib/auth/oidc';
+
+// Sends the browser to the provider. The state and nonce are kept in a
+// short-lived cookie to check the callback against.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+  if (!oidcEnabled()) {
+    res.status(404).json({ message: 'OIDC sign-in is not configured' });
+    return;
+  }
+  const state = crypto.randomBytes(16).toString('hex');
+  const nonce = crypto.randomBytes(16).toString('hex');
+  try {
+    const url = await authorizationUrl(state, nonce, redirectUri(req));
+    res.setHeader(
+      'Set-Cookie',
+      `oidc=${state}.${nonce}; Path=/api/auth/oidc; HttpOnly; SameSite=Lax; Max-Age=600`
+    );
+    res.redirect(302, url);
+  } catch (error) {
+    res.status(502).json({ message: (error as Error).message });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { diffEvents } from '../../../lib/audit';
+import { requireUser } from '../../../lib/auth/session';
+import { listBackups, readBackup } from '../../../lib/backups';
+import { getStorage } from '../../../lib/storage';
+
+// GET previews restoring a backup: the changes it would make to the pipeline
+// as it is now, as history events, and the people in the backup so that
+// they can be named.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+  const user = requireUser(req, res, 'pipeline:replace');
+  if (!user) return;
+  const id = req.query.id as string;
+  const backup = readBackup(id);
+  if (!backup) {
+    res.status(404).json({ message: `Backup ${id} not found` });
+    return;
+  }
+  const current = getStorage().load();
+  const changes = diffEvents(current, backup, {
+    revision: current.revision + 1,
+    at: new Date().toISOString(),
+    actor: user.name,
+  });
+  res.status(200).json({
+    ...listBackups().find((b) => b.id === id),
+    revisionNow: current.revision,
+    changes,
+    people: backup.nodes,
+  });
+}
@@ -0,0 +1,14 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../../../lib/auth/session';
+import { listBackups } from '../../../lib/backups';
+
+// GET lists the backups of the pipeline, newest first. Only for those who
+// may replace the whole pipeline, as restoring one does.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+  if (!requireUser(req, res, 'pipeline:replace')) return;
+  res.status(200).json(listBackups());
+}
@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../../../lib/auth/session';
+import { readBackup } from '../../../lib/backups';
+import { checkIfMatch, sendWithRevision } from '../../../lib/concurrency';
+import { getStorage } from '../../../lib/storage';
+
+// POST { id } puts the whole pipeline back as it was in a backup, as a new
+// revision, so the history keeps everything since and the restore can be
+// undone like any other change.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.status(405).end();
+    return;
+  }
+  const user = requireUser(req, res, 'pipeline:replace');
+  if (!user) return;
+  const storage = getStorage();
+  const current = storage.load();
+  const id = req.body?.id;
+  const backup = typeof id === 'string' ? readBackup(id) : undefined;
+  if (!backup) {
+    res.status(404).json({ message: `Backup ${id} not found` });
+    return;
+  }
+  if (!checkIfMatch(req, res, current, user)) return;
+  const { nodes, links, stages, interviews, feedback, requisitions } = backup;
+  const revision = storage.save(
+    { nodes, links, stages, interviews, feedback, requisitions },
+    user.name
+  );
+  sendWithRevision(
+    res,
+    200,
+    { message: `Restored revision ${backup.revision}`, revision },
+    revision
+  );
+}
@@ -0,0 +1,30 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { visiblePersonIds } from '../../../../lib/auth/access';
+import { requireFeedUser } from '../../../../lib/auth/session';
+import { toICalendar } from '../../../../lib/ical';
+import { interviewerKey, toCalendarEvents } from '../../../../lib/interviews';
+import { getStorage } from '../../../../lib/storage';
+
+// GET /api/calendar/interviewers/<name>.ics: every interview the person
+// sits on with candidates the user can see.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+  const user = requireFeedUser(req, res);
+  if (!user) return;
+  const name = (req.query.name as string).replace(/\.ics$/, '');
+  const data = getStorage().load();
+  const visible = visiblePersonIds(user, data);
+  const interviews = data.interviews.filter(
+    (i) =>
+      visible.has(i.personId) &&
+      i.interviewers.some((interviewer) => interviewerKey(interviewer) === interviewerKey(name))
+  );
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', 'inline; filename="interviews.ics"');
+  res
+    .status(200)
+    .send(toICalendar(`Interviews: ${name}`, toCalendarEvents(interviews, data.nodes)));
+}
@@ -0,0 +1,29 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { canSeePerson } from '../../../../lib/auth/access';
+import { requireFeedUser } from '../../../../lib/auth/session';
+import { toICalendar } from '../../../../lib/ical';
+import { toCalendarEvents } from '../../../../lib/interviews';
+import { getStorage } from '../../../../lib/storage';
+
+// GET /api/calendar/people/<id>.ics: every interview of one candidate.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+  const user = requireFeedUser(req, res);
+  if (!user) return;
+  const id = (req.query.id as string).replace(/\.ics$/, '');
+  const data = getStorage().load();
+  const person = data.nodes.find((n) => n.id === id && canSeePerson(user, n, data.interviews));
+  if (!person) {
+    res.status(404).json({ message: `Person ${id} not found` });
+    return;
+  }
+  const interviews = data.interviews.filter((i) => i.personId === id);
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', 'inline; filename="interviews.ics"');
+  res
+    .status(200)
+    .send(toICalendar(`Interviews: ${person.name}`, toCalendarEvents(interviews, data.nodes)));
+}
@@ -0,0 +1,17 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { calendarToken, requireUser } from '../../../lib/auth/session';
+
+// The signed-in user's calendar token, for subscribing to the .ics feeds.
+// GET makes one if they have none yet; POST replaces it, so links shared
+// before stop working.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  if (req.method === 'GET') {
+    res.status(200).json({ token: calendarToken(user) });
+  } else if (req.method === 'POST') {
+    res.status(200).json({ token: calendarToken(user, true) });
+  } else {
+    res.status(405).end();
+  }
+}
@@ -1,21 +1,45 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import fs from 'fs';
-import path from 'path';
-
-const dataFilePath = path.join(process.cwd(), 'data.json');
+import { scopeData } from '../../lib/auth/access';
+import { requireUser } from '../../lib/auth/session';
+import { checkIfMatch, sendWithRevision } from '../../lib/concurrency';
+import { requisitionsFromTeams } from '../../lib/requisitions';
+import { getStorage } from '../../lib/storage';
+import { DataStructure } from '../../lib/types';
+import { sendValidationErrors, validateDataStructure } from '../../lib/validation';
 
+// GET is limited to what the user may see; replacing everything is for admins.
 export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res, req.method === 'POST' ? 'pipeline:replace' : undefined);
+  if (!user) return;
+
   if (req.method === 'GET') {
-    if (fs.existsSync(dataFilePath)) {
-      const data = fs.readFileSync(dataFilePath, 'utf8');
-      res.status(200).json(JSON.parse(data));
-    } else {
-      res.status(200).json({ nodes: [], links: [] });
-    }
+    const data = getStorage().load();
+    sendWithRevision(res, 200, scopeData(user, data), data.revision);
   } else if (req.method === 'POST') {
-    const data = req.body;
-    fs.writeFileSync(dataFilePath, JSON.stringify(data, null, 2), 'utf8');
-    res.status(200).json({ message: 'Data saved' });
+    const storage = getStorage();
+    const current = storage.load();
+    const errors = validateDataStructure(req.body, current.stages.map((stage) => stage.name));
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    if (!checkIfMatch(req, res, current, user)) return;
+    const { nodes, links, stages, interviews, requisitions }: DataStructure = req.body;
+    // Without requisitions, teams that have none get an open one.
+    const missing = requisitionsFromTeams(nodes).filter(
+      (r) => !current.requisitions.some((existing) => existing.name === r.name)
+    );
+    const revision = storage.save(
+      {
+        nodes,
+        links,
+        stages,
+        interviews,
+        requisitions: requisitions || [...current.requisitions, ...missing],
+      },
+      user.name
+    );
+    sendWithRevision(res, 200, { message: 'Data saved', revision }, revision);
   } else {
     res.status(405).end();
   }
@@ -0,0 +1,43 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../../lib/auth/session';
+import { exportCsv } from '../../lib/importExport';
+import { filterPeople, parseQuery } from '../../lib/query';
+import { getStorage } from '../../lib/storage';
+
+// GET /api/export?format=csv|json, optionally filtered like the page by a
+// query `q`, or by status, team and starred=true. Only links between
+// exported people are kept.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+  if (!requireUser(req, res, 'export')) return;
+  const { format = 'json', q = '', status, team, starred } = req.query as Record<string, string>;
+  const { query, error } = parseQuery(q);
+  if (error) {
+    res.status(400).json({ message: `q: ${error}` });
+    return;
+  }
+  const data = getStorage().load();
+
+  const nodes = filterPeople(query, data.nodes, data.links).filter((node) => {
+    const statusMatch = status ? node.status === status : true;
+    const starredMatch = starred === 'true' ? node.starred === true : true;
+    const teamMatch = team ? node.team === team : true;
+    return statusMatch && starredMatch && teamMatch;
+  });
+  const ids = new Set(nodes.map((node) => node.id));
+  const links = data.links.filter((link) => ids.has(link.source) && ids.has(link.target));
+
+  if (format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="pipeline.csv"');
+    res.status(200).send(exportCsv({ nodes, links }));
+  } else if (format === 'json') {
+    res.setHeader('Content-Disposition', 'attachment; filename="pipeline.json"');
+    res.status(200).json({ nodes, links });
+  } else {
+    res.status(400).json({ message: 'format must be csv or json' });
+  }
+}
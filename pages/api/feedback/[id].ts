@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../../../lib/auth/session';
+import { checkIfMatch, sendWithRevision } from '../../../lib/concurrency';
+import { interviewerKey } from '../../../lib/interviews';
+import { getStorage } from '../../../lib/storage';
+
+// DELETE withdraws a submission; only the interviewer who gave it can.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'DELETE') {
+    res.status(405).end();
+    return;
+  }
+  const user = requireUser(req, res);
+  if (!user) return;
+  const id = req.query.id as string;
+  const storage = getStorage();
+  const current = storage.load();
+  if (!checkIfMatch(req, res, current, user)) return;
+  const existing = current.feedback.find((f) => f.id === id);
+  if (!existing) {
+    res.status(404).json({ message: `Feedback ${id} not found` });
+    return;
+  }
+  const actor = user.name;
+  if (interviewerKey(existing.interviewer) !== interviewerKey(actor)) {
+    res.status(403).json({ message: `Only ${existing.interviewer} can withdraw this feedback` });
+    return;
+  }
+  const revision = storage.deleteFeedback(id, actor);
+  sendWithRevision(res, 204, undefined, revision);
+}
@@ -0,0 +1,78 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { canSeePerson, seesEveryone } from '../../../lib/auth/access';
+import { requireUser } from '../../../lib/auth/session';
+import { checkIfMatch, sendWithRevision } from '../../../lib/concurrency';
+import { criteriaFor, summarizeFeedback, visibleFeedback } from '../../../lib/feedback';
+import { newId } from '../../../lib/ids';
+import { interviewerKey } from '../../../lib/interviews';
+import { getStorage } from '../../../lib/storage';
+import { Feedback } from '../../../lib/types';
+import { sendValidationErrors, validateFeedback } from '../../../lib/validation';
+
+// Feedback is given and seen as the signed-in user, on candidates they can
+// see.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const storage = getStorage();
+  const current = storage.load();
+  const actor = user.name;
+  const findPerson = (id: unknown) =>
+    current.nodes.find((n) => n.id === id && canSeePerson(user, n, current.interviews));
+
+  if (req.method === 'GET') {
+    // GET ?personId=… : the summary, plus the submissions the caller may see.
+    // Like the submissions, the summary is null to interviewers until they
+    // have given their own; admins and recruiters always see it.
+    const personId = req.query.personId as string;
+    if (!findPerson(personId)) {
+      res.status(404).json({ message: `Person ${personId} not found` });
+      return;
+    }
+    const forPerson = current.feedback.filter((f) => f.personId === personId);
+    const visible = visibleFeedback(forPerson, actor);
+    const summary = visible.submitted || seesEveryone(user) ? summarizeFeedback(forPerson) : null;
+    sendWithRevision(res, 200, { summary, ...visible }, current.revision);
+  } else if (req.method === 'POST') {
+    // POST { personId, ratings, recommendation, comments } scores the
+    // candidate on the scorecard of the stage they are in.
+    const person = findPerson(req.body?.personId);
+    if (!person) {
+      res.status(404).json({ message: `Person ${req.body?.personId} not found` });
+      return;
+    }
+    const errors = validateFeedback(req.body, criteriaFor(current.stages, person.status));
+    if (
+      current.feedback.some(
+        (f) =>
+          f.personId === person.id &&
+          f.stage === person.status &&
+          interviewerKey(f.interviewer) === interviewerKey(actor)
+      )
+    ) {
+      errors.push({
+        field: 'interviewer',
+        message: `${actor} already gave feedback on ${person.name} in ${person.status}`,
+      });
+    }
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    if (!checkIfMatch(req, res, current, user)) return;
+    const feedback: Feedback = {
+      id: newId(),
+      personId: person.id,
+      stage: person.status,
+      interviewer: actor,
+      submittedAt: new Date().toISOString(),
+      ratings: req.body.ratings,
+      recommendation: req.body.recommendation,
+      comments: req.body.comments || '',
+    };
+    const revision = storage.createFeedback(feedback, actor);
+    sendWithRevision(res, 201, feedback, revision);
+  } else {
+    res.status(405).end();
+  }
+}
@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { seesEveryone, visiblePersonIds } from '../../../lib/auth/access';
+import { requireUser } from '../../../lib/auth/session';
+import { sendWithRevision } from '../../../lib/concurrency';
+import { summarizeByPerson, visibleFeedback } from '../../../lib/feedback';
+import { getStorage } from '../../../lib/storage';
+
+// GET the aggregated score of every candidate with feedback, by person id.
+// Even totals would sway an interviewer, so they only get those of the
+// candidates they have given feedback on themselves; admins and recruiters
+// get them all.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+  const user = requireUser(req, res);
+  if (!user) return;
+  const data = getStorage().load();
+  const visible = visiblePersonIds(user, data);
+  const feedback = data.feedback.filter(
+    (f) =>
+      visible.has(f.personId) &&
+      (seesEveryone(user) ||
+        visibleFeedback(
+          data.feedback.filter((other) => other.personId === f.personId),
+          user.name
+        ).submitted)
+  );
+  sendWithRevision(res, 200, summarizeByPerson(feedback), data.revision);
+}
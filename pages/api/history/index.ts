@@ -0,0 +1,19 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { scopeEvents } from '../../../lib/auth/access';
+import { requireUser } from '../../../lib/auth/session';
+import { withoutFeedbackDetails } from '../../../lib/feedback';
+import { getStorage } from '../../../lib/storage';
+
+// GET /api/history?personId=… lists the history, optionally for one person.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    const user = requireUser(req, res, 'history:read');
+    if (!user) return;
+    const personId = req.query.personId as string | undefined;
+    const storage = getStorage();
+    const events = scopeEvents(user, storage.listEvents({ personId }), storage.load());
+    res.status(200).json(events.map(withoutFeedbackDetails));
+  } else {
+    res.status(405).end();
+  }
+}
@@ -0,0 +1,39 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { revertEvents } from '../../../lib/audit';
+import { canRevert, scopeEvents } from '../../../lib/auth/access';
+import { requireUser } from '../../../lib/auth/session';
+import { sendWithRevision } from '../../../lib/concurrency';
+import { getStorage } from '../../../lib/storage';
+
+// POST /api/history/revert { revision } undoes every change made by that
+// revision as a new revision. Reverting the revert redoes it. Users who only
+// see some candidates may only revert changes to those, and only changes they
+// would be allowed to make.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'POST') {
+    const user = requireUser(req, res, 'history:revert');
+    if (!user) return;
+    const storage = getStorage();
+    const target = Number(req.body?.revision);
+    const events = storage.listEvents({ revision: target });
+    if (!events.length) {
+      res.status(404).json({ message: `No changes recorded for revision ${req.body?.revision}` });
+      return;
+    }
+    if (scopeEvents(user, events, storage.load()).length < events.length) {
+      res.status(403).json({ message: 'That change involves candidates you can not see' });
+      return;
+    }
+    if (!events.every((event) => canRevert(user, event))) {
+      res.status(403).json({ message: 'You are not allowed to undo that change' });
+      return;
+    }
+    let skipped = 0;
+    const revision = storage.transaction((tx) => {
+      skipped = revertEvents(tx, events);
+    }, user.name);
+    sendWithRevision(res, 200, { revision, skipped }, revision);
+  } else {
+    res.status(405).end();
+  }
+}
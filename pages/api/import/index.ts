@@ -0,0 +1,72 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../../../lib/auth/session';
+import { checkIfMatch, sendWithRevision } from '../../../lib/concurrency';
+import { newId } from '../../../lib/ids';
+import { ImportSource, normalizeName, previewImport } from '../../../lib/importExport';
+import { getStorage } from '../../../lib/storage';
+
+// POST { format, content, mapping?, skipDuplicates? } imports every row
+// without errors as one change, then links each to their referrer by name.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.status(405).end();
+    return;
+  }
+  const user = requireUser(req, res, 'people:manage');
+  if (!user) return;
+  const source: ImportSource & { skipDuplicates?: boolean } = req.body;
+  const storage = getStorage();
+  const current = storage.load();
+
+  let rows;
+  try {
+    rows = previewImport(
+      source,
+      current.nodes,
+      current.stages.map((stage) => stage.name),
+      current.requisitions
+    ).rows;
+  } catch (error) {
+    res.status(400).json({ message: `Could not read the file: ${(error as Error).message}` });
+    return;
+  }
+  if (!checkIfMatch(req, res, current, user)) return;
+
+  const accepted = rows.filter(
+    (row) => !row.errors.length && !(source.skipDuplicates && row.duplicateOf)
+  );
+  // Referrers resolve to people already there first, then to imported rows.
+  const idsByName = new Map<string, string>();
+  current.nodes.forEach((p) => {
+    if (!idsByName.has(normalizeName(p.name))) idsByName.set(normalizeName(p.name), p.id);
+  });
+  const created = accepted.map((row) => {
+    const person = { id: newId(), ...row.person };
+    if (!idsByName.has(normalizeName(person.name))) {
+      idsByName.set(normalizeName(person.name), person.id);
+    }
+    return { person, referredBy: row.referredBy };
+  });
+
+  const skipped = rows.length - created.length;
+  if (!created.length) {
+    sendWithRevision(
+      res,
+      200,
+      { revision: current.revision, created: 0, skipped },
+      current.revision
+    );
+    return;
+  }
+
+  const revision = storage.transaction((tx) => {
+    created.forEach(({ person }) => tx.createPerson(person));
+    created.forEach(({ person, referredBy }) => {
+      const source = referredBy && idsByName.get(normalizeName(referredBy));
+      if (source && source !== person.id) {
+        tx.createLink({ source, target: person.id, type: 'referred_by' });
+      }
+    });
+  }, user.name);
+  sendWithRevision(res, 200, { revision, created: created.length, skipped }, revision);
+}
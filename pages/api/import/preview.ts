@@ -0,0 +1,27 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../../../lib/auth/session';
+import { ImportSource, previewImport } from '../../../lib/importExport';
+import { getStorage } from '../../../lib/storage';
+
+// POST { format, content, mapping? } shows how an import would be read,
+// without saving anything. Without a mapping, columns are matched by header.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.status(405).end();
+    return;
+  }
+  if (!requireUser(req, res, 'people:manage')) return;
+  const source: ImportSource = req.body;
+  const data = getStorage().load();
+  try {
+    const preview = previewImport(
+      source,
+      data.nodes,
+      data.stages.map((stage) => stage.name),
+      data.requisitions
+    );
+    res.status(200).json(preview);
+  } catch (error) {
+    res.status(400).json({ message: `Could not read the file: ${(error as Error).message}` });
+  }
+}
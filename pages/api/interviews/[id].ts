@@ -0,0 +1,70 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { visiblePersonIds } from '../../../lib/auth/access';
+import { requirePermission, requireUser } from '../../../lib/auth/session';
+import { checkIfMatch, sendWithRevision } from '../../../lib/concurrency';
+import {
+  cleanInterview,
+  describeDoubleBookings,
+  findDoubleBookings,
+} from '../../../lib/interviews';
+import { getStorage } from '../../../lib/storage';
+import { sendValidationErrors, validateInterview } from '../../../lib/validation';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const id = req.query.id as string;
+  const storage = getStorage();
+  const current = storage.load();
+  // Interviews of candidates the user can't see are reported as missing.
+  const visible = visiblePersonIds(user, current);
+  const people = current.nodes.filter((n) => visible.has(n.id));
+  const existing = current.interviews.find((i) => i.id === id && visible.has(i.personId));
+
+  if (req.method === 'GET') {
+    if (!existing) {
+      res.status(404).json({ message: `Interview ${id} not found` });
+      return;
+    }
+    sendWithRevision(res, 200, existing, current.revision);
+  } else if (req.method === 'PATCH') {
+    // Only the fields sent are changed; rescheduling is checked for
+    // double-bookings like a new interview.
+    if (!requirePermission(res, user, 'interviews:manage')) return;
+    const errors = validateInterview(req.body, visible, '', true);
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    if (!checkIfMatch(req, res, current, user)) return;
+    if (!existing) {
+      res.status(404).json({ message: `Interview ${id} not found` });
+      return;
+    }
+    const updated = cleanInterview({ ...existing, ...req.body, id });
+    const doubleBookings = findDoubleBookings(updated, current.interviews);
+    if (doubleBookings.length && !req.body.allowDoubleBooking) {
+      sendValidationErrors(
+        res,
+        describeDoubleBookings(doubleBookings, people).map((message) => ({
+          field: 'interviewers',
+          message,
+        }))
+      );
+      return;
+    }
+    const revision = storage.updateInterview(updated, user.name);
+    sendWithRevision(res, 200, updated, revision);
+  } else if (req.method === 'DELETE') {
+    if (!requirePermission(res, user, 'interviews:manage')) return;
+    if (!checkIfMatch(req, res, current, user)) return;
+    if (!existing) {
+      res.status(404).json({ message: `Interview ${id} not found` });
+      return;
+    }
+    const revision = storage.deleteInterview(id, user.name);
+    sendWithRevision(res, 204, undefined, revision);
+  } else {
+    res.status(405).end();
+  }
+}
@@ -0,0 +1,64 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { visiblePersonIds } from '../../../lib/auth/access';
+import { requirePermission, requireUser } from '../../../lib/auth/session';
+import { checkIfMatch, sendWithRevision } from '../../../lib/concurrency';
+import { newId } from '../../../lib/ids';
+import {
+  cleanInterview,
+  describeDoubleBookings,
+  findDoubleBookings,
+  interviewerKey,
+  upcomingInterviews,
+} from '../../../lib/interviews';
+import { getStorage } from '../../../lib/storage';
+import { sendValidationErrors, validateInterview } from '../../../lib/validation';
+
+// Only interviews of candidates the user can see are listed or scheduled.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const storage = getStorage();
+  const current = storage.load();
+  const visible = visiblePersonIds(user, current);
+  const people = current.nodes.filter((n) => visible.has(n.id));
+
+  if (req.method === 'GET') {
+    // Optionally only one candidate's, one interviewer's, or those to come.
+    const { personId, interviewer, upcoming } = req.query as Record<string, string>;
+    let interviews = current.interviews.filter((i) => visible.has(i.personId));
+    if (personId) interviews = interviews.filter((i) => i.personId === personId);
+    if (interviewer) {
+      interviews = interviews.filter((i) =>
+        i.interviewers.some((name) => interviewerKey(name) === interviewerKey(interviewer))
+      );
+    }
+    if (upcoming === 'true') interviews = upcomingInterviews(interviews);
+    sendWithRevision(res, 200, interviews, current.revision);
+  } else if (req.method === 'POST') {
+    // The server assigns the id. Double-booking an interviewer is refused
+    // unless `allowDoubleBooking` is set.
+    if (!requirePermission(res, user, 'interviews:manage')) return;
+    const errors = validateInterview(req.body, visible);
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    const interview = cleanInterview({ ...req.body, id: newId() });
+    const doubleBookings = findDoubleBookings(interview, current.interviews);
+    if (doubleBookings.length && !req.body.allowDoubleBooking) {
+      sendValidationErrors(
+        res,
+        describeDoubleBookings(doubleBookings, people).map((message) => ({
+          field: 'interviewers',
+          message,
+        }))
+      );
+      return;
+    }
+    if (!checkIfMatch(req, res, current, user)) return;
+    const revision = storage.createInterview(interview, user.name);
+    sendWithRevision(res, 201, interview, revision);
+  } else {
+    res.status(405).end();
+  }
+}
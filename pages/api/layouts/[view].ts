@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../../../lib/auth/session';
+import { getLayout, saveLayout } from '../../../lib/layout/store';
+import { GraphLayout } from '../../../lib/layout/types';
+import { sendValidationErrors, validateLayout } from '../../../lib/validation';
+
+// GET reads and PUT replaces the signed-in user's own layout of a view.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const view = req.query.view as string;
+  if (!/^[\w-]{1,64}$/.test(view)) {
+    res.status(404).json({ message: `View ${view} not found` });
+    return;
+  }
+
+  if (req.method === 'GET') {
+    res.status(200).json(getLayout(user.id, view));
+  } else if (req.method === 'PUT') {
+    const errors = validateLayout(req.body);
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    const { algorithm, positions }: GraphLayout = req.body;
+    const layout = {
+      algorithm,
+      positions: Object.fromEntries(
+        Object.entries(positions).map(([id, { x, y }]) => [id, { x, y }])
+      ),
+    };
+    saveLayout(user.id, view, layout);
+    res.status(200).json(layout);
+  } else {
+    res.status(405).end();
+  }
+}
@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { visiblePersonIds } from '../../../lib/auth/access';
+import { requirePermission, requireUser } from '../../../lib/auth/session';
+import { checkIfMatch, sendWithRevision } from '../../../lib/concurrency';
+import { sameLink, typedLink } from '../../../lib/relationships';
+import { getStorage } from '../../../lib/storage';
+import { sendValidationErrors, validateLink } from '../../../lib/validation';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const storage = getStorage();
+  const current = storage.load();
+
+  if (req.method === 'GET') {
+    const visible = visiblePersonIds(user, current);
+    const links = current.links.filter((l) => visible.has(l.source) && visible.has(l.target));
+    sendWithRevision(res, 200, links, current.revision);
+  } else if (req.method === 'POST') {
+    if (!requirePermission(res, user, 'people:manage')) return;
+    if (!checkIfMatch(req, res, current, user)) return;
+    // Without a type, the link is a referral.
+    const errors = validateLink(req.body, new Set(current.nodes.map((n) => n.id)));
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    const link = typedLink(req.body);
+    if (current.links.some((l) => sameLink(l, link))) {
+      sendWithRevision(res, 200, link, current.revision);
+      return;
+    }
+    const revision = storage.createLink(link, user.name);
+    sendWithRevision(res, 201, link, revision);
+  } else if (req.method === 'DELETE') {
+    // DELETE /api/links?source=1&target=2&type=reports_to; without a type,
+    // the referral is deleted.
+    if (!requirePermission(res, user, 'people:manage')) return;
+    if (!checkIfMatch(req, res, current, user)) return;
+    const link = typedLink({
+      source: req.query.source as string,
+      target: req.query.target as string,
+      type: req.query.type as string | undefined,
+    });
+    if (!current.links.some((l) => sameLink(l, link))) {
+      res.status(404).json({ message: 'Link not found' });
+      return;
+    }
+    const revision = storage.deleteLink(link, user.name);
+    sendWithRevision(res, 204, undefined, revision);
+  } else {
+    res.status(405).end();
+  }
+}
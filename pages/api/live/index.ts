@@ -0,0 +1,58 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { scopeLiveChange, scopePresence } from '../../../lib/auth/access';
+import { requireUser } from '../../../lib/auth/session';
+import { connect, listPresence, LiveClient } from '../../../lib/realtime/hub';
+import { getStorage } from '../../../lib/storage';
+
+// Comments keep proxies from closing an idle stream.
+const KEEPALIVE_MS = 25 * 1000;
+
+// Stays open and pushes `change` and `presence` events to the page as
+// Server-Sent Events, for as long as the page keeps it open.
+export const config = { api: { responseLimit: false } };
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+  const clientId = req.query.clientId as string;
+  if (!/^[\w-]{8,64}$/.test(clientId || '')) {
+    res.status(400).json({ message: 'clientId must be 8-64 letters, digits, - or _' });
+    return;
+  }
+
+  const send = (event: string, data: unknown) =>
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  const client: LiveClient = {
+    id: clientId,
+    userId: user.id,
+    sendChange: (revision, events) => send('change', scopeLiveChange(user, revision, events)),
+    sendPresence: (presence) =>
+      send('presence', scopePresence(user, clientId, presence, getStorage().load())),
+  };
+  const disconnect = connect(client);
+  if (!disconnect) {
+    res.status(409).json({ message: 'That clientId is in use by someone else' });
+    return;
+  }
+
+  // no-transform keeps compression from holding events back.
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+  });
+  client.sendPresence(listPresence());
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_MS);
+
+  return new Promise<void>((resolve) => {
+    res.on('close', () => {
+      clearInterval(keepalive);
+      disconnect();
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,50 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { canSeePerson } from '../../../lib/auth/access';
+import { requirePermission, requireUser } from '../../../lib/auth/session';
+import { isConnected, setPresence } from '../../../lib/realtime/hub';
+import { getStorage } from '../../../lib/storage';
+import { sendValidationErrors, validatePresence } from '../../../lib/validation';
+
+// PUT `{ clientId, personId, editing }` tells the others which candidate the
+// page with that live stream has open; `personId: null` that it has none.
+// The presence ends by itself when the stream closes.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  if (req.method !== 'PUT') {
+    res.status(405).end();
+    return;
+  }
+  const errors = validatePresence(req.body);
+  if (errors.length) {
+    sendValidationErrors(res, errors);
+    return;
+  }
+  const { clientId, personId, editing } = req.body;
+  if (!isConnected(clientId, user.id)) {
+    res.status(404).json({ message: 'No live stream is open with this clientId' });
+    return;
+  }
+  if (personId === null) {
+    setPresence(clientId, null);
+    res.status(204).end();
+    return;
+  }
+
+  const data = getStorage().load();
+  const person = data.nodes.find((p) => p.id === personId);
+  if (!person || !canSeePerson(user, person, data.interviews)) {
+    res.status(404).json({ message: `Person ${personId} not found` });
+    return;
+  }
+  if (editing && !requirePermission(res, user, 'people:edit')) return;
+  setPresence(clientId, {
+    clientId,
+    userId: user.id,
+    name: user.name,
+    personId,
+    editing,
+    since: new Date().toISOString(),
+  });
+  res.status(204).end();
+}
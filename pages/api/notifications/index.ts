@@ -0,0 +1,19 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../../../lib/auth/session';
+import { checkConfig, loadConfig } from '../../../lib/notifications/config';
+import { readLog } from '../../../lib/notifications/deliveryLog';
+
+// GET /api/notifications?status=… lists the delivery log, newest first,
+// with any problems found in the rules.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).end();
+    return;
+  }
+  if (!requireUser(req, res, 'notifications:manage')) return;
+  const status = req.query.status as string | undefined;
+  const deliveries = readLog()
+    .deliveries.filter((d) => !status || d.status === status)
+    .reverse();
+  res.status(200).json({ problems: checkConfig(loadConfig()), deliveries });
+}
@@ -0,0 +1,14 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../../../lib/auth/session';
+import { runNotifications } from '../../../lib/notifications/engine';
+
+// POST checks the rules and sends what is due now instead of waiting for
+// the next scheduled run.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.status(405).end();
+    return;
+  }
+  if (!requireUser(req, res, 'notifications:manage')) return;
+  res.status(200).json(await runNotifications());
+}
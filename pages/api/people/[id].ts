@@ -0,0 +1,64 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { canSeePerson, redactPerson } from '../../../lib/auth/access';
+import { requirePermission, requireUser } from '../../../lib/auth/session';
+import { checkIfMatch, sendWithRevision } from '../../../lib/concurrency';
+import { openRequisitionNames } from '../../../lib/requisitions';
+import { getStorage } from '../../../lib/storage';
+import { Person } from '../../../lib/types';
+import { sendValidationErrors, validatePerson } from '../../../lib/validation';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const id = req.query.id as string;
+  const storage = getStorage();
+  const current = storage.load();
+  // People the user may not see are reported as missing.
+  const existing = current.nodes.find(
+    (n) => n.id === id && canSeePerson(user, n, current.interviews)
+  );
+
+  if (req.method === 'GET') {
+    if (!existing) {
+      res.status(404).json({ message: `Person ${id} not found` });
+      return;
+    }
+    sendWithRevision(res, 200, redactPerson(user, existing), current.revision);
+  } else if (req.method === 'PATCH') {
+    if (!requirePermission(res, user, 'people:edit')) return;
+    // Only the fields sent are changed; the id itself can't be. People can
+    // stay on a closed requisition but not move onto one.
+    const statuses = current.stages.map((stage) => stage.name);
+    const teams = openRequisitionNames(current.requisitions);
+    if (existing?.team) teams.push(existing.team);
+    const errors = validatePerson(req.body, statuses, '', true, teams);
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    if (!checkIfMatch(req, res, current, user)) return;
+    if (!existing) {
+      res.status(404).json({ message: `Person ${id} not found` });
+      return;
+    }
+    const updated: Person = { ...existing, ...req.body, id };
+    if (!canSeePerson(user, updated, current.interviews)) {
+      res.status(403).json({ message: `You can't move ${existing.name} to another team` });
+      return;
+    }
+    const revision = storage.updatePerson(updated, user.name);
+    sendWithRevision(res, 200, updated, revision);
+  } else if (req.method === 'DELETE') {
+    if (!requirePermission(res, user, 'people:manage')) return;
+    if (!checkIfMatch(req, res, current, user)) return;
+    if (!existing) {
+      res.status(404).json({ message: `Person ${id} not found` });
+      return;
+    }
+    // Deleting a person also drops every link touching them.
+    const revision = storage.deletePerson(id, user.name);
+    sendWithRevision(res, 204, undefined, revision);
+  } else {
+    res.status(405).end();
+  }
+}
@@ -0,0 +1,37 @@
+import fs from 'fs';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { attachmentPath, findAttachment, removeAttachment } from '../../../../../lib/attachments';
+import { canSeePerson } from '../../../../../lib/auth/access';
+import { requirePermission, requireUser } from '../../../../../lib/auth/session';
+import { getStorage } from '../../../../../lib/storage';
+
+// GET downloads an attachment; DELETE removes it.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const id = req.query.id as string;
+  const data = getStorage().load();
+  const person = data.nodes.find((n) => n.id === id && canSeePerson(user, n, data.interviews));
+  const attachment = person && findAttachment(id, req.query.attachmentId as string);
+  if (!attachment) {
+    res.status(404).json({ message: `Attachment ${req.query.attachmentId} not found` });
+    return;
+  }
+
+  if (req.method === 'GET') {
+    // Always downloaded, never shown in the page, whatever the file holds.
+    res.setHeader('Content-Type', attachment.contentType);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`
+    );
+    res.status(200).end(fs.readFileSync(attachmentPath(attachment)));
+  } else if (req.method === 'DELETE') {
+    if (!requirePermission(res, user, 'people:edit')) return;
+    removeAttachment(attachment);
+    res.status(204).end();
+  } else {
+    res.status(405).end();
+  }
+}
@@ -0,0 +1,80 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  listAttachments,
+  maxAttachmentBytes,
+  saveAttachment,
+  validateUpload,
+} from '../../../../../lib/attachments';
+import { canSeePerson } from '../../../../../lib/auth/access';
+import { requirePermission, requireUser } from '../../../../../lib/auth/session';
+import { getStorage } from '../../../../../lib/storage';
+import { sendValidationErrors } from '../../../../../lib/validation';
+
+// Uploads are the raw file, not JSON.
+export const config = { api: { bodyParser: false } };
+
+// Resolves to null as soon as the body grows past `limit`.
+function readBody(req: NextApiRequest, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.removeAllListeners('data');
+        req.resume();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// GET lists a person's attachments; POST ?fileName= uploads one, sent as
+// the request body with its Content-Type.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const id = req.query.id as string;
+  const data = getStorage().load();
+  const person = data.nodes.find((n) => n.id === id && canSeePerson(user, n, data.interviews));
+  if (!person) {
+    res.status(404).json({ message: `Person ${id} not found` });
+    return;
+  }
+
+  if (req.method === 'GET') {
+    res.status(200).json(listAttachments(id));
+  } else if (req.method === 'POST') {
+    if (!requirePermission(res, user, 'people:edit')) return;
+    const fileName = req.query.fileName;
+    const contentType = req.headers['content-type'] || '';
+    const errors = validateUpload(fileName, contentType);
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    const tooLarge = { message: `Files can be at most ${maxAttachmentBytes} bytes` };
+    if (Number(req.headers['content-length']) > maxAttachmentBytes) {
+      res.status(413).json(tooLarge);
+      return;
+    }
+    const content = await readBody(req, maxAttachmentBytes);
+    if (!content) {
+      res.status(413).json(tooLarge);
+      return;
+    }
+    if (!content.length) {
+      sendValidationErrors(res, [{ field: 'body', message: 'must not be empty' }]);
+      return;
+    }
+    res
+      .status(201)
+      .json(saveAttachment(id, (fileName as string).trim(), contentType, content, user.name));
+  } else {
+    res.status(405).end();
+  }
+}
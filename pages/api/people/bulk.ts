@@ -0,0 +1,66 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../../../lib/auth/session';
+import { checkIfMatch, sendWithRevision } from '../../../lib/concurrency';
+import { openRequisitionNames } from '../../../lib/requisitions';
+import { getStorage } from '../../../lib/storage';
+import { FieldError, sendValidationErrors, validatePerson } from '../../../lib/validation';
+
+// Fields a bulk update may change.
+const bulkFields = ['status', 'starred', 'team'];
+
+// POST { ids, action: 'update', changes } or { ids, action: 'delete' }
+// applies the action to every listed person as a single revision.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.status(405).end();
+    return;
+  }
+  const user = requireUser(req, res, 'people:manage');
+  if (!user) return;
+  const storage = getStorage();
+  const current = storage.load();
+  const { ids, action, changes = {} } = req.body || {};
+
+  const errors: FieldError[] = [];
+  if (!Array.isArray(ids) || !ids.length || ids.some((id) => typeof id !== 'string')) {
+    errors.push({ field: 'ids', message: 'must be a non-empty array of ids' });
+  } else {
+    ids
+      .filter((id: string) => !current.nodes.some((n) => n.id === id))
+      .forEach((id: string) => errors.push({ field: 'ids', message: `unknown person ${id}` }));
+  }
+  if (action === 'update') {
+    Object.keys(changes)
+      .filter((field) => !bulkFields.includes(field))
+      .forEach((field) =>
+        errors.push({ field: `changes.${field}`, message: 'can not be changed in bulk' })
+      );
+    errors.push(
+      ...validatePerson(
+        changes,
+        current.stages.map((stage) => stage.name),
+        'changes',
+        true,
+        openRequisitionNames(current.requisitions)
+      )
+    );
+  } else if (action !== 'delete') {
+    errors.push({ field: 'action', message: 'must be update or delete' });
+  }
+  if (errors.length) {
+    sendValidationErrors(res, errors);
+    return;
+  }
+  if (!checkIfMatch(req, res, current, user)) return;
+
+  const revision = storage.transaction((tx) => {
+    ids.forEach((id: string) => {
+      if (action === 'delete') {
+        tx.deletePerson(id);
+      } else {
+        tx.updatePerson({ ...tx.getPerson(id)!, ...changes });
+      }
+    });
+  }, user.name);
+  sendWithRevision(res, 200, { revision, count: ids.length }, revision);
+}
@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { redactPerson, visiblePersonIds } from '../../../lib/auth/access';
+import { requirePermission, requireUser } from '../../../lib/auth/session';
+import { checkIfMatch, sendWithRevision } from '../../../lib/concurrency';
+import { describeDuplicates, findDuplicates } from '../../../lib/duplicates';
+import { newId } from '../../../lib/ids';
+import { openRequisitionNames } from '../../../lib/requisitions';
+import { getStorage } from '../../../lib/storage';
+import { Person } from '../../../lib/types';
+import { sendValidationErrors, validateLink, validatePerson } from '../../../lib/validation';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const storage = getStorage();
+
+  if (req.method === 'GET') {
+    const data = storage.load();
+    const visible = visiblePersonIds(user, data);
+    const people = data.nodes.filter((p) => visible.has(p.id)).map((p) => redactPerson(user, p));
+    sendWithRevision(res, 200, people, data.revision);
+  } else if (req.method === 'POST') {
+    if (!requirePermission(res, user, 'people:manage')) return;
+    // The server assigns the id; `referredBy` optionally links an existing
+    // person to the new one in the same write, as a referral unless
+    // `relationship` names another type. Someone who looks like an existing
+    // person is refused unless `allowDuplicate` is set.
+    const { id: _ignored, referredBy, relationship, allowDuplicate, ...fields } = req.body || {};
+    const person: Person = { id: newId(), ...fields };
+    const current = storage.load();
+    const ids = new Set([...current.nodes.map((n) => n.id), person.id]);
+    const errors = [
+      ...validatePerson(
+        person,
+        current.stages.map((stage) => stage.name),
+        '',
+        false,
+        openRequisitionNames(current.requisitions)
+      ),
+      ...(referredBy === undefined
+        ? []
+        : validateLink({ source: referredBy, target: person.id, type: relationship }, ids)
+            .filter((e) => e.field !== 'target')
+            .map((e) => ({ ...e, field: e.field === 'type' ? 'relationship' : 'referredBy' }))),
+    ];
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    const duplicates = findDuplicates(person, current.nodes, current.links, referredBy);
+    if (duplicates.length && !allowDuplicate) {
+      sendValidationErrors(
+        res,
+        describeDuplicates(duplicates).map((message) => ({ field: 'name', message }))
+      );
+      return;
+    }
+    if (!checkIfMatch(req, res, current, user)) return;
+    const revision = storage.transaction((tx) => {
+      tx.createPerson(person);
+      if (referredBy !== undefined) {
+        tx.createLink({
+          source: referredBy,
+          target: person.id,
+          type: relationship || 'referred_by',
+        });
+      }
+    }, user.name);
+    sendWithRevision(res, 201, person, revision);
+  } else {
+    res.status(405).end();
+  }
+}
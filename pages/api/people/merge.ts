@@ -0,0 +1,69 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { copyAttachments } from '../../../lib/attachments';
+import { requireUser } from '../../../lib/auth/session';
+import { checkIfMatch, sendWithRevision } from '../../../lib/concurrency';
+import { mergeFields, mergePeople, repointFeedback, repointLinks } from '../../../lib/duplicates';
+import { newId } from '../../../lib/ids';
+import { getStorage } from '../../../lib/storage';
+import { FieldError, sendValidationErrors, validatePerson } from '../../../lib/validation';
+
+// POST { survivorId, duplicateId, take } merges the duplicate into the
+// survivor as a single revision: the survivor gets the `take` fields from
+// the duplicate, both notes and all tags, and the duplicate's links,
+// interviews, feedback and attachments; then the duplicate is deleted. Where
+// an interviewer scored both in the same stage, the survivor's feedback wins.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.status(405).end();
+    return;
+  }
+  const user = requireUser(req, res, 'people:manage');
+  if (!user) return;
+  const storage = getStorage();
+  const current = storage.load();
+  const { survivorId, duplicateId, take = [] } = req.body || {};
+  const survivor = current.nodes.find((n) => n.id === survivorId);
+  const duplicate = current.nodes.find((n) => n.id === duplicateId);
+
+  const errors: FieldError[] = [];
+  if (!survivor) errors.push({ field: 'survivorId', message: `unknown person ${survivorId}` });
+  if (!duplicate) errors.push({ field: 'duplicateId', message: `unknown person ${duplicateId}` });
+  if (survivor && survivorId === duplicateId) {
+    errors.push({ field: 'duplicateId', message: 'must be someone other than the survivor' });
+  }
+  if (!Array.isArray(take) || take.some((field) => !mergeFields.includes(field))) {
+    errors.push({ field: 'take', message: `must be a list of ${mergeFields.join(', ')}` });
+  }
+  if (errors.length) {
+    sendValidationErrors(res, errors);
+    return;
+  }
+  // The merged person may stay on either side's requisition, open or not.
+  const merged = mergePeople(survivor!, duplicate!, take);
+  const mergeErrors = validatePerson(
+    merged,
+    current.stages.map((stage) => stage.name)
+  ).map((e) => ({ ...e, field: `take.${e.field}` }));
+  if (mergeErrors.length) {
+    sendValidationErrors(res, mergeErrors);
+    return;
+  }
+  if (!checkIfMatch(req, res, current, user)) return;
+
+  const revision = storage.transaction((tx) => {
+    tx.updatePerson(merged);
+    repointLinks(merged.id, duplicate!.id, current.links).forEach((link) => tx.createLink(link));
+    current.interviews
+      .filter((interview) => interview.personId === duplicate!.id)
+      .forEach((interview) => tx.updateInterview({ ...interview, personId: merged.id }));
+    // Copies, as the duplicate's own feedback is deleted with them and comes
+    // back if the merge is undone.
+    repointFeedback(merged.id, duplicate!.id, current.feedback).forEach((feedback) =>
+      tx.createFeedback({ ...feedback, id: newId() })
+    );
+    // Also drops their remaining links.
+    tx.deletePerson(duplicate!.id);
+  }, user.name);
+  copyAttachments(duplicate!.id, merged.id);
+  sendWithRevision(res, 200, merged, revision);
+}
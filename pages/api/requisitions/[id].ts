@@ -0,0 +1,91 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { scopeData } from '../../../lib/auth/access';
+import { requirePermission, requireUser } from '../../../lib/auth/session';
+import { updateUsers } from '../../../lib/auth/users';
+import { checkIfMatch, sendWithRevision } from '../../../lib/concurrency';
+import { cleanRequisition, sameRequisitionName } from '../../../lib/requisitions';
+import { getStorage } from '../../../lib/storage';
+import { sendValidationErrors, validateRequisition } from '../../../lib/validation';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const id = req.query.id as string;
+  const storage = getStorage();
+  const current = storage.load();
+  const existing = current.requisitions.find((r) => r.id === id);
+
+  if (req.method === 'GET') {
+    const visible = scopeData(user, current).requisitions.find((r) => r.id === id);
+    if (!visible) {
+      res.status(404).json({ message: `Requisition ${id} not found` });
+      return;
+    }
+    sendWithRevision(res, 200, visible, current.revision);
+  } else if (req.method === 'PATCH') {
+    // Only the fields sent are changed. A rename moves everyone on the
+    // requisition, and the hiring managers of it, along.
+    if (!requirePermission(res, user, 'requisitions:manage')) return;
+    const errors = validateRequisition(req.body, true);
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    if (!checkIfMatch(req, res, current, user)) return;
+    if (!existing) {
+      res.status(404).json({ message: `Requisition ${id} not found` });
+      return;
+    }
+    const updated = cleanRequisition({ ...existing, ...req.body, id });
+    if (
+      current.requisitions.some((r) => r.id !== id && sameRequisitionName(r.name, updated.name))
+    ) {
+      sendValidationErrors(res, [
+        { field: 'name', message: `a requisition named ${updated.name} already exists` },
+      ]);
+      return;
+    }
+    const renamed = updated.name !== existing.name;
+    const revision = storage.transaction((tx) => {
+      tx.setRequisitions(tx.getRequisitions().map((r) => (r.id === id ? updated : r)));
+      if (renamed) {
+        current.nodes
+          .filter((person) => person.team === existing.name)
+          .forEach((person) => tx.updatePerson({ ...person, team: updated.name }));
+      }
+    }, user.name);
+    if (renamed) {
+      updateUsers((store) => {
+        store.users.forEach((account) => {
+          if (account.team === existing.name) account.team = updated.name;
+        });
+      });
+    }
+    sendWithRevision(res, 200, updated, revision);
+  } else if (req.method === 'DELETE') {
+    // Requisitions with candidates can be closed but not removed.
+    if (!requirePermission(res, user, 'requisitions:manage')) return;
+    if (!checkIfMatch(req, res, current, user)) return;
+    if (!existing) {
+      res.status(404).json({ message: `Requisition ${id} not found` });
+      return;
+    }
+    const count = current.nodes.filter((person) => person.team === existing.name).length;
+    if (count) {
+      sendValidationErrors(res, [
+        {
+          field: 'id',
+          message: `${count} people are on ${existing.name}; move them or close it instead`,
+        },
+      ]);
+      return;
+    }
+    const revision = storage.transaction(
+      (tx) => tx.setRequisitions(tx.getRequisitions().filter((r) => r.id !== id)),
+      user.name
+    );
+    sendWithRevision(res, 204, undefined, revision);
+  } else {
+    res.status(405).end();
+  }
+}
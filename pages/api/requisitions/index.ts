@@ -0,0 +1,42 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { scopeData } from '../../../lib/auth/access';
+import { requirePermission, requireUser } from '../../../lib/auth/session';
+import { checkIfMatch, sendWithRevision } from '../../../lib/concurrency';
+import { newId } from '../../../lib/ids';
+import { cleanRequisition, sameRequisitionName } from '../../../lib/requisitions';
+import { getStorage } from '../../../lib/storage';
+import { sendValidationErrors, validateRequisition } from '../../../lib/validation';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const storage = getStorage();
+  const current = storage.load();
+
+  if (req.method === 'GET') {
+    sendWithRevision(res, 200, scopeData(user, current).requisitions, current.revision);
+  } else if (req.method === 'POST') {
+    // The server assigns the id; names must be unique, ignoring case.
+    if (!requirePermission(res, user, 'requisitions:manage')) return;
+    const errors = validateRequisition(req.body);
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    const requisition = cleanRequisition({ ...req.body, id: newId() });
+    if (current.requisitions.some((r) => sameRequisitionName(r.name, requisition.name))) {
+      sendValidationErrors(res, [
+        { field: 'name', message: `a requisition named ${requisition.name} already exists` },
+      ]);
+      return;
+    }
+    if (!checkIfMatch(req, res, current, user)) return;
+    const revision = storage.transaction(
+      (tx) => tx.setRequisitions([...tx.getRequisitions(), requisition]),
+      user.name
+    );
+    sendWithRevision(res, 201, requisition, revision);
+  } else {
+    res.status(405).end();
+  }
+}
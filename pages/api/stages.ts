@@ -0,0 +1,84 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requirePermission, requireUser } from '../../lib/auth/session';
+import { checkIfMatch, sendWithRevision } from '../../lib/concurrency';
+import { renameFeedbackStages } from '../../lib/feedback';
+import { newId } from '../../lib/ids';
+import { getStorage } from '../../lib/storage';
+import { Stage } from '../../lib/types';
+import { FieldError, sendValidationErrors, validateStages } from '../../lib/validation';
+
+// PUT { stages, reassign } replaces the stage list. People and the feedback
+// given in a stage follow it when renamed; people in a removed stage move to
+// the stage whose id is `reassign[removedStageId]`.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const storage = getStorage();
+  const current = storage.load();
+
+  if (req.method === 'GET') {
+    sendWithRevision(res, 200, current.stages, current.revision);
+  } else if (req.method === 'PUT') {
+    if (!requirePermission(res, user, 'stages:manage')) return;
+    const body = req.body || {};
+    // New stages get an id; anything that isn't a stage is left for
+    // validateStages to report.
+    const stages: Stage[] = Array.isArray(body.stages)
+      ? body.stages.map((stage: unknown) =>
+          typeof stage === 'object' && stage !== null && !Array.isArray(stage)
+            ? { ...stage, id: (stage as Stage).id || newId() }
+            : stage
+        )
+      : body.stages;
+    const reassign: Record<string, string> = body.reassign || {};
+    const errors: FieldError[] = validateStages(stages);
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+
+    const byId = new Map(stages.map((stage) => [stage.id, stage]));
+    // Old stage name -> new stage name, for every stage people may be in,
+    // and for the renamed stages alone.
+    const moves = new Map<string, string>();
+    const renames = new Map<string, string>();
+    current.stages.forEach((old) => {
+      const kept = byId.get(old.id);
+      if (kept) {
+        if (kept.name !== old.name) {
+          moves.set(old.name, kept.name);
+          renames.set(old.name, kept.name);
+        }
+        return;
+      }
+      const count = current.nodes.filter((n) => n.status === old.name).length;
+      if (!count) return;
+      const target = byId.get(reassign[old.id]);
+      if (!target) {
+        errors.push({
+          field: `reassign.${old.id}`,
+          message: `${count} people are in ${old.name}; choose a stage to move them to`,
+        });
+      } else {
+        moves.set(old.name, target.name);
+      }
+    });
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    if (!checkIfMatch(req, res, current, user)) return;
+
+    const revision = storage.transaction((tx) => {
+      tx.setStages(stages);
+      current.nodes.forEach((person) => {
+        const status = moves.get(person.status);
+        if (status) tx.updatePerson({ ...person, status });
+      });
+      renameFeedbackStages(tx, renames);
+    }, user.name);
+    sendWithRevision(res, 200, stages, revision);
+  } else {
+    res.status(405).end();
+  }
+}
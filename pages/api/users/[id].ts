@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { hashPassword } from '../../../lib/auth/passwords';
+import { requireUser } from '../../../lib/auth/session';
+import { User } from '../../../lib/auth/types';
+import { findUserByUsername, readUsers, toPublicUser, updateUsers } from '../../../lib/auth/users';
+import { sendValidationErrors, validateUser } from '../../../lib/validation';
+
+// Admins change or remove accounts. Setting `unlinkOidc` forgets the linked
+// OIDC account. There must always be an admin left.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const admin = requireUser(req, res, 'users:manage');
+  if (!admin) return;
+  const id = req.query.id as string;
+  const { users } = readUsers();
+  const existing = users.find((u) => u.id === id);
+
+  if (req.method === 'PATCH') {
+    const errors = validateUser(req.body, true);
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    if (!existing) {
+      res.status(404).json({ message: `User ${id} not found` });
+      return;
+    }
+    const { username, name, role, team, password, unlinkOidc } = req.body;
+    const { oidcSubject, ...rest } = existing;
+    const updated: User = {
+      ...rest,
+      ...(unlinkOidc || !oidcSubject ? {} : { oidcSubject }),
+      ...(username !== undefined ? { username } : {}),
+      ...(name !== undefined ? { name: name.trim() } : {}),
+      ...(role !== undefined ? { role } : {}),
+      ...(team !== undefined ? { team } : {}),
+      ...(password ? { passwordHash: hashPassword(password) } : {}),
+    };
+    const taken = username !== undefined && findUserByUsername(users, username);
+    if (taken && taken.id !== id) {
+      errors.push({ field: 'username', message: `${username} is taken` });
+    }
+    if (updated.role === 'hiring_manager' && !updated.team) {
+      errors.push({ field: 'team', message: 'is required for hiring managers' });
+    }
+    if (!users.some((u) => (u.id === id ? updated : u).role === 'admin')) {
+      errors.push({ field: 'role', message: 'there must be at least one admin' });
+    }
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    updateUsers((store) => {
+      store.users = store.users.map((u) => (u.id === id ? updated : u));
+    });
+    res.status(200).json(toPublicUser(updated));
+  } else if (req.method === 'DELETE') {
+    if (!existing) {
+      res.status(404).json({ message: `User ${id} not found` });
+      return;
+    }
+    if (id === admin.id) {
+      res.status(400).json({ message: "You can't remove your own account" });
+      return;
+    }
+    updateUsers((store) => {
+      store.users = store.users.filter((u) => u.id !== id);
+      store.sessions = store.sessions.filter((s) => s.userId !== id);
+    });
+    res.status(204).end();
+  } else {
+    res.status(405).end();
+  }
+}
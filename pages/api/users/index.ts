@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { hashPassword } from '../../../lib/auth/passwords';
+import { requireUser } from '../../../lib/auth/session';
+import { User } from '../../../lib/auth/types';
+import { findUserByUsername, readUsers, toPublicUser, updateUsers } from '../../../lib/auth/users';
+import { newId } from '../../../lib/ids';
+import { sendValidationErrors, validateUser } from '../../../lib/validation';
+
+// Admins list and create accounts.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!requireUser(req, res, 'users:manage')) return;
+  const { users } = readUsers();
+
+  if (req.method === 'GET') {
+    res.status(200).json(users.map(toPublicUser));
+  } else if (req.method === 'POST') {
+    const errors = validateUser(req.body);
+    const { username, name, role, team, password } = req.body || {};
+    if (!errors.length && findUserByUsername(users, username)) {
+      errors.push({ field: 'username', message: `${username} is taken` });
+    }
+    if (role === 'hiring_manager' && !team) {
+      errors.push({ field: 'team', message: 'is required for hiring managers' });
+    }
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    const user: User = {
+      id: newId(),
+      username,
+      name: name.trim(),
+      role,
+      ...(team ? { team } : {}),
+      ...(password ? { passwordHash: hashPassword(password) } : {}),
+    };
+    updateUsers((store) => {
+      store.users.push(user);
+    });
+    res.status(201).json(toPublicUser(user));
+  } else {
+    res.status(405).end();
+  }
+}
@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { can } from '../../../lib/auth/access';
+import { requireUser } from '../../../lib/auth/session';
+import { sendValidationErrors, validateSavedView } from '../../../lib/validation';
+import { readViews, writeViews } from '../../../lib/views/store';
+import { SavedView, sameViewName } from '../../../lib/views/types';
+
+// Anyone reads a saved view; whoever saved it, or an admin, renames,
+// changes or removes it.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const id = req.query.id as string;
+  const views = readViews();
+  const existing = views.find((v) => v.id === id);
+  if (!existing) {
+    res.status(404).json({ message: `View ${id} not found` });
+    return;
+  }
+  if (req.method !== 'GET' && existing.ownerId !== user.id && !can(user, 'views:manage')) {
+    res.status(403).json({ message: `Only ${existing.ownerName} can change this view` });
+    return;
+  }
+
+  if (req.method === 'GET') {
+    res.status(200).json(existing);
+  } else if (req.method === 'PATCH') {
+    const errors = validateSavedView(req.body, true);
+    const { name, query } = req.body || {};
+    if (
+      !errors.length &&
+      name !== undefined &&
+      views.some((v) => v.id !== id && sameViewName(v.name, name))
+    ) {
+      errors.push({ field: 'name', message: `${name.trim()} is taken` });
+    }
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    const updated: SavedView = {
+      ...existing,
+      ...(name !== undefined ? { name: name.trim() } : {}),
+      ...(query !== undefined ? { query: query.trim() } : {}),
+    };
+    writeViews(views.map((v) => (v.id === id ? updated : v)));
+    res.status(200).json(updated);
+  } else if (req.method === 'DELETE') {
+    writeViews(views.filter((v) => v.id !== id));
+    res.status(204).end();
+  } else {
+    res.status(405).end();
+  }
+}
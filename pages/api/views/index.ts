@@ -0,0 +1,38 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../../../lib/auth/session';
+import { newId } from '../../../lib/ids';
+import { sendValidationErrors, validateSavedView } from '../../../lib/validation';
+import { readViews, writeViews } from '../../../lib/views/store';
+import { SavedView, sameViewName } from '../../../lib/views/types';
+
+// Everyone lists saved views and saves their own.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const views = readViews();
+
+  if (req.method === 'GET') {
+    res.status(200).json(views);
+  } else if (req.method === 'POST') {
+    const errors = validateSavedView(req.body);
+    if (!errors.length && views.some((v) => sameViewName(v.name, req.body.name))) {
+      errors.push({ field: 'name', message: `${req.body.name.trim()} is taken` });
+    }
+    if (errors.length) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+    const view: SavedView = {
+      id: newId(),
+      name: req.body.name.trim(),
+      query: req.body.query.trim(),
+      ownerId: user.id,
+      ownerName: user.name,
+      createdAt: new Date().toISOString(),
+    };
+    writeViews([...views, view]);
+    res.status(201).json(view);
+  } else {
+    res.status(405).end();
+  }
+}
@@ -0,0 +1,94 @@
+// pages/applications/[token].tsx
+// Where an applicant follows their application, by the link they were given
+// when they applied. No sign-in.
+import { useRouter } from 'next/router';
+import React, { useEffect, useState } from 'react';
+import * as api from '../../lib/api';
+import { ApplicationReceipt } from '../../lib/api';
+import { ApplicationStatus } from '../../lib/types';
+
+const statusLabels: Record<ApplicationStatus, { label: string; detail: string }> = {
+  received: {
+    label: 'Received',
+    detail: 'We have your application and will look at it soon.',
+  },
+  in_review: {
+    label: 'In review',
+    detail: 'Your application is being considered. We will be in touch.',
+  },
+  closed: {
+    label: 'Closed',
+    detail: 'This application is no longer being considered. Thank you for your interest.',
+  },
+};
+
+const ApplicationPage: React.FC = () => {
+  const router = useRouter();
+  const token = router.query.token as string | undefined;
+  const submitted = router.query.submitted === '1';
+  const [application, setApplication] = useState<ApplicationReceipt | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (token) api.fetchApplication(token).then(setApplication, (e) => setError(e.message));
+  }, [token]);
+
+  const status = application && statusLabels[application.status];
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        fontFamily: 'Arial, sans-serif',
+        backgroundColor: '#f5f5f5',
+      }}
+    >
+      <div
+        style={{
+          width: '480px',
+          padding: '20px',
+          backgroundColor: '#fff',
+          borderRadius: '8px',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        }}
+      >
+        {submitted && (
+          <div
+            style={{
+              marginBottom: '15px',
+              padding: '10px',
+              backgroundColor: '#e8f8f5',
+              borderRadius: '4px',
+            }}
+          >
+            <strong>Thank you for applying.</strong> Bookmark this page: it is the only way to check
+            on your application, and nobody else can see it without the link.
+          </div>
+        )}
+        {error ? (
+          <p>{error}.</p>
+        ) : !application ? (
+          <p>Loading…</p>
+        ) : (
+          <>
+            <h2 style={{ marginTop: 0 }}>Your application</h2>
+            <p>
+              {application.name ? `${application.name}, for ` : 'For '}
+              <strong>{application.position}</strong>, sent{' '}
+              {new Date(application.submittedAt).toLocaleDateString()}.
+            </p>
+            <p style={{ fontSize: '18px', marginBottom: '5px' }}>
+              Status: <strong>{status.label}</strong>
+            </p>
+            <p style={{ color: '#666', marginTop: 0 }}>{status.detail}</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApplicationPage;
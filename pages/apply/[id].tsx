@@ -0,0 +1,174 @@
+// pages/apply/[id].tsx
+// The public application form of a requisition, for candidates. No sign-in.
+import { useRouter } from 'next/router';
+import React, { useEffect, useState } from 'react';
+import * as api from '../../lib/api';
+import { PublicApplicationForm } from '../../lib/api';
+import { ApplicationField, applicationFields } from '../../lib/types';
+import { FieldError } from '../../lib/validation';
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  borderRadius: '4px',
+  border: '1px solid #ccc',
+  boxSizing: 'border-box',
+};
+
+const fieldLabels: Record<ApplicationField, { label: string; type: string }> = {
+  email: { label: 'Email', type: 'email' },
+  phone: { label: 'Phone', type: 'tel' },
+  linkedin: { label: 'LinkedIn profile', type: 'url' },
+  salaryExpectation: { label: 'Salary expectation', type: 'text' },
+  message: { label: 'Anything you would like us to know', type: 'text' },
+};
+
+const ApplyPage: React.FC = () => {
+  const router = useRouter();
+  const id = router.query.id as string | undefined;
+  const [form, setForm] = useState<PublicApplicationForm | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<FieldError[]>([]);
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (id) api.fetchApplicationForm(id).then(setForm, (e) => setLoadError(e.message));
+  }, [id]);
+
+  const set = (field: string, value: string) => setValues((prev) => ({ ...prev, [field]: value }));
+  const errorFor = (field: string) => errors.find((e) => e.field === field)?.message;
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    try {
+      const res = await api.submitApplication(id!, values);
+      const body = await res.json();
+      if (res.ok) {
+        router.push(`/applications/${body.token}?submitted=1`);
+        return;
+      }
+      setErrors(body.errors || []);
+      setMessage(body.errors ? 'Please check the highlighted fields.' : body.message);
+    } catch {
+      setMessage('Your application could not be sent. Please try again.');
+    }
+    setSending(false);
+  };
+
+  const field = (
+    name: 'name' | ApplicationField,
+    label: string,
+    type: string,
+    required: boolean
+  ) => (
+    <div key={name} style={{ marginBottom: '10px' }}>
+      <label style={{ display: 'block', marginBottom: '5px' }}>
+        {label}
+        {required ? ' *' : ''}
+      </label>
+      {name === 'message' ? (
+        <textarea
+          value={values[name] || ''}
+          onChange={(e) => set(name, e.target.value)}
+          required={required}
+          rows={5}
+          style={inputStyle}
+        />
+      ) : (
+        <input
+          type={type}
+          value={values[name] || ''}
+          onChange={(e) => set(name, e.target.value)}
+          required={required}
+          style={inputStyle}
+        />
+      )}
+      {errorFor(name) && (
+        <div style={{ color: '#e74c3c', fontSize: '12px' }}>
+          {label} {errorFor(name)}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        fontFamily: 'Arial, sans-serif',
+        backgroundColor: '#f5f5f5',
+      }}
+    >
+      <div
+        style={{
+          width: '480px',
+          padding: '20px',
+          backgroundColor: '#fff',
+          borderRadius: '8px',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        }}
+      >
+        {loadError ? (
+          <p>{loadError}.</p>
+        ) : !form ? (
+          <p>Loading…</p>
+        ) : (
+          <form onSubmit={submit}>
+            <h2 style={{ marginTop: 0 }}>Apply: {form.name}</h2>
+            {form.intro && <p style={{ whiteSpace: 'pre-wrap' }}>{form.intro}</p>}
+            {field('name', 'Full name', 'text', true)}
+            {applicationFields
+              .filter((name) => form.fields[name])
+              .map((name) =>
+                field(
+                  name,
+                  fieldLabels[name].label,
+                  fieldLabels[name].type,
+                  form.fields[name] === 'required'
+                )
+              )}
+            {/* Hidden from people; only bots fill it in. */}
+            <div style={{ position: 'absolute', left: '-10000px' }} aria-hidden="true">
+              <label>
+                Website
+                <input
+                  type="text"
+                  name="website"
+                  tabIndex={-1}
+                  autoComplete="off"
+                  value={values.website || ''}
+                  onChange={(e) => set('website', e.target.value)}
+                />
+              </label>
+            </div>
+            {message && <div style={{ color: '#e74c3c', marginBottom: '10px' }}>{message}</div>}
+            <button
+              type="submit"
+              disabled={sending}
+              style={{
+                width: '100%',
+                padding: '10px',
+                backgroundColor: '#3498db',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                opacity: sending ? 0.5 : 1,
+              }}
+            >
+              Send application
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApplyPage;
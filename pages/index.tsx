@@ -1,6 +1,7 @@
 // pages/index.tsx
 import dynamic from 'next/dynamic';
-import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 
 // Dynamically import React Flow and its Provider with SSR disabled.
 const ReactFlow = dynamic(
@@ -11,67 +12,153 @@ const ReactFlowProvider = dynamic(
   () => import('reactflow').then((mod) => mod.ReactFlowProvider),
   { ssr: false }
 );
+import type { Edge, NodeChange, NodePositionChange } from 'reactflow';
 import 'reactflow/dist/style.css';
+import AnalyticsDashboard from '../components/AnalyticsDashboard';
+import BackupsAdmin from '../components/BackupsAdmin';
+import ConflictDialog, { PendingConflict } from '../components/ConflictDialog';
+import FeedbackPanel from '../components/FeedbackPanel';
+import ImportWizard from '../components/ImportWizard';
+import InterviewScheduler from '../components/InterviewScheduler';
+import KanbanBoard from '../components/KanbanBoard';
+import LoginForm from '../components/LoginForm';
+import MergeDialog from '../components/MergeDialog';
+import PeopleTable from '../components/PeopleTable';
+import PersonTimeline from '../components/PersonTimeline';
+import RequisitionsAdmin from '../components/RequisitionsAdmin';
+import StagesAdmin from '../components/StagesAdmin';
+import UpcomingInterviews from '../components/UpcomingInterviews';
+import UsersAdmin from '../components/UsersAdmin';
+import * as api from '../lib/api';
+import { Change } from '../lib/api';
+import { can } from '../lib/auth/access';
+import { PublicUser, roleLabels } from '../lib/auth/types';
+import type { BackupInfo } from '../lib/backups';
+import { fromETag } from '../lib/concurrency';
+import { describeDuplicates, findDuplicates, MergeField } from '../lib/duplicates';
+import { ImportSource } from '../lib/importExport';
+import { computeLayout } from '../lib/layout/algorithms';
+import {
+  GraphLayout,
+  LayoutAlgorithm,
+  LayoutGraph,
+  defaultLayout,
+  layoutAlgorithms,
+} from '../lib/layout/types';
+import { Query, filterPeople, parseQuery, queryFields } from '../lib/query';
+import { applyEvents } from '../lib/realtime/apply';
+import { LiveChange } from '../lib/realtime/types';
+import { describePresence, lockHolders, presenceOn, useLive } from '../lib/realtime/useLive';
+import { referralChain } from '../lib/referrals';
+import { isReferral, relationshipFor, sameLink } from '../lib/relationships';
+import { openRequisitionNames, requisitionProgress } from '../lib/requisitions';
+import {
+  Feedback,
+  FeedbackSummary,
+  Interview,
+  Link,
+  NewInterview,
+  NewPerson,
+  NewRequisition,
+  Person,
+  Recommendation,
+  RelationshipType,
+  Requisition,
+  Stage,
+  VersionedData,
+  defaultStages,
+  relationshipTypes,
+} from '../lib/types';
+import { SavedView, layoutViewKey } from '../lib/views/types';
 
-interface Person {
-  id: string;
+interface NewNodeInput {
   name: string;
   status: string;
   starred: boolean;
   team: string;
-  notes: string;
-  x?: number;
-  y?: number;
-}
-
-interface Link {
-  source: string;
-  target: string;
 }
 
-interface DataStructure {
-  nodes: Person[];
-  links: Link[];
-}
+// Clicking a stage's statistic filters by it.
+const statusQuery = (status: string) => `status:"${status}"`;
 
-interface NewNodeInput {
-  name: string;
-  status: string;
-  starred: boolean;
-  team: string;
-}
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  border: 'none',
+  borderRadius: '4px',
+  backgroundColor: '#eee',
+  cursor: 'pointer',
+};
 
 const initialNodes: Person[] = [];
 const initialLinks: Link[] = [];
 
-const statusColors: { [key: string]: string } = {
-  'To do': '#3498db',
-  Interview: '#e67e22',
-  CEO: '#2ecc71',
-  Rejected: '#e74c3c',
-};
+// A conflict plus the changes that still have to be sent if the user
+// decides to overwrite.
+interface ConflictState extends PendingConflict {
+  remaining: Change[];
+}
 
 const Home: React.FC = () => {
+  const router = useRouter();
   const [nodes, setNodes] = useState<Person[]>([]);
   const [links, setLinks] = useState<Link[]>([]);
+  const [stages, setStages] = useState<Stage[]>(defaultStages);
+  const [interviews, setInterviews] = useState<Interview[]>([]);
+  const [requisitions, setRequisitions] = useState<Requisition[]>([]);
+  const [feedbackSummaries, setFeedbackSummaries] = useState<Record<string, FeedbackSummary>>({});
+  const [showStagesAdmin, setShowStagesAdmin] = useState(false);
+  const [showRequisitionsAdmin, setShowRequisitionsAdmin] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  // The two records being merged, from the edit modal.
+  const [merging, setMerging] = useState<[Person, Person] | null>(null);
+  const [exportFiltered, setExportFiltered] = useState(false);
+  const [view, setView] = useState<'graph' | 'board' | 'table' | 'analytics'>('graph');
   const [newNode, setNewNode] = useState<NewNodeInput>({
     name: '',
-    status: 'To do',
+    status: defaultStages[0].name,
     starred: false,
     team: '',
   });
   const [connection, setConnection] = useState<string>('');
-  const [filterStatus, setFilterStatus] = useState<string>('');
-  const [filterStarred, setFilterStarred] = useState<boolean>(false);
-  const [filterTeam, setFilterTeam] = useState<string>('');
-  const [teamOption, setTeamOption] = useState<string>('');
+  const [connectionType, setConnectionType] = useState<RelationshipType>('referred_by');
+  // The type of links drawn in the graph, and the types shown there.
+  const [drawnType, setDrawnType] = useState<RelationshipType>('referred_by');
+  // The person whose referral chain is highlighted in the graph.
+  const [chainOf, setChainOf] = useState<string | null>(null);
+  const [shownTypes, setShownTypes] = useState<RelationshipType[]>(
+    relationshipTypes.map((r) => r.type)
+  );
+  // The filter query as typed, and the saved view it was opened from.
+  const [queryText, setQueryText] = useState('');
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [viewsLoaded, setViewsLoaded] = useState(false);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
   const [selectedPerson, setSelectedPerson] = useState<Person | null>(null);
+  // Set when the user chose to edit despite someone else's soft lock.
+  const [editAnyway, setEditAnyway] = useState(false);
 
   // Child person form (added in the modal)
   const [childName, setChildName] = useState('');
-  const [childStatus, setChildStatus] = useState('To do');
+  const [childStatus, setChildStatus] = useState(defaultStages[0].name);
   const [childStarred, setChildStarred] = useState(false);
 
+  // Revision of the server data our state is based on; sent as If-Match.
+  const revisionRef = useRef(0);
+  const [conflict, setConflict] = useState<ConflictState | null>(null);
+
+  // The signed-in user; undefined until we know, null when signed out.
+  const [user, setUser] = useState<PublicUser | null | undefined>(undefined);
+  // Their layout of the graph.
+  const [layout, setLayout] = useState<GraphLayout>(defaultLayout);
+  const [showUsersAdmin, setShowUsersAdmin] = useState(false);
+  const [showBackups, setShowBackups] = useState(false);
+  // Lets calendar clients subscribe to the interview feeds.
+  const [calendarToken, setCalendarToken] = useState<string>();
+  // Revisions written from this page, newest last. Undo reverts one and
+  // moves the revert's revision onto the redo stack, and vice versa.
+  const [undoStack, setUndoStack] = useState<number[]>([]);
+  const [redoStack, setRedoStack] = useState<number[]>([]);
+
   // State for dynamic graph dimensions
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
 
@@ -86,25 +173,237 @@ const Home: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // Load persisted data on mount.
-  useEffect(() => {
-    async function loadData() {
-      const res = await fetch('/api/data');
-      const data: DataStructure = await res.json();
-      setNodes(data.nodes || []);
-      setLinks(data.links || []);
+  const applyServerData = (data: VersionedData) => {
+    revisionRef.current = data.revision;
+    setNodes(data.nodes);
+    setLinks(data.links);
+    setStages(data.stages);
+    setInterviews(data.interviews);
+    setRequisitions(data.requisitions);
+  };
+
+  const loadData = async () => {
+    const [data, summaries] = await Promise.all([api.fetchData(), api.fetchFeedbackSummaries()]);
+    applyServerData(data);
+    setFeedbackSummaries(summaries);
+  };
+
+  // The state pushed changes apply to. Ahead of the last render when changes
+  // arrive faster than it.
+  const liveState = useRef({ nodes, links, stages, interviews, requisitions });
+  liveState.current = { nodes, links, stages, interviews, requisitions };
+
+  // Changes this page made itself arrive too, and apply again harmlessly.
+  const applyLiveChange = (change: LiveChange) => {
+    if (change.revision <= revisionRef.current) return;
+    if (change.reload) {
+      loadData();
+      return;
     }
-    loadData();
+    const { data, complete } = applyEvents(liveState.current, change.events || []);
+    if (!complete) {
+      loadData();
+      return;
+    }
+    liveState.current = data;
+    applyServerData({ ...data, revision: change.revision, feedback: [] });
+    if ((change.events || []).some((e) => e.type.startsWith('feedback_'))) {
+      api.fetchFeedbackSummaries().then(setFeedbackSummaries);
+    }
+  };
+
+  const live = useLive(
+    Boolean(user),
+    selectedPerson && user
+      ? { personId: selectedPerson.id, editing: can(user, 'people:edit') }
+      : null,
+    applyLiveChange,
+    loadData
+  );
+
+  useEffect(() => {
+    api.fetchMe().then(setUser);
   }, []);
 
-  // Save updated data via API.
-  const saveData = async (updatedNodes: Person[], updatedLinks: Link[]) => {
-    const payload: DataStructure = { nodes: updatedNodes, links: updatedLinks };
-    await fetch('/api/data', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
+  // Load persisted data once signed in.
+  useEffect(() => {
+    if (!user) return;
+    loadData();
+    api.fetchCalendarToken().then(setCalendarToken);
+    api.fetchViews().then((loaded) => {
+      setViews(loaded);
+      setViewsLoaded(true);
     });
+  }, [user?.id]);
+
+  // Each saved view has its own layout.
+  const layoutView = layoutViewKey(activeViewId);
+  useEffect(() => {
+    if (!user) return;
+    api.fetchLayout(layoutView).then(setLayout);
+  }, [user?.id, layoutView]);
+
+  // The query or saved view comes from the address, so a filtered pipeline
+  // can be shared as a link, and goes back into it as it changes.
+  const [addressRead, setAddressRead] = useState(false);
+  useEffect(() => {
+    if (!router.isReady || addressRead || (router.query.view && !viewsLoaded)) return;
+    const { q, view: viewId } = router.query as Record<string, string | undefined>;
+    const saved = views.find((v) => v.id === viewId);
+    if (saved) {
+      setActiveViewId(saved.id);
+      setQueryText(saved.query);
+    } else if (q) {
+      setQueryText(q);
+    }
+    setAddressRead(true);
+  }, [router.isReady, viewsLoaded]);
+
+  const activeView = views.find((v) => v.id === activeViewId);
+  const viewModified = !!activeView && activeView.query !== queryText.trim();
+  useEffect(() => {
+    if (!addressRead) return;
+    const query: Record<string, string> = {};
+    if (activeView && !viewModified) {
+      query.view = activeView.id;
+    } else if (queryText.trim()) {
+      query.q = queryText.trim();
+    }
+    router.replace({ pathname: router.pathname, query }, undefined, { shallow: true });
+  }, [addressRead, activeView?.id, viewModified, queryText]);
+
+  // Stage colors and order come from the stored stage list.
+  const statusColors: { [key: string]: string } = Object.fromEntries(
+    stages.map((stage) => [stage.name, stage.color])
+  );
+  const terminalStatuses = new Set(stages.filter((s) => s.terminal).map((s) => s.name));
+  const firstStatus = stages[0]?.name || '';
+
+  // Keep the forms on a valid stage when the stages change.
+  useEffect(() => {
+    const names = stages.map((stage) => stage.name);
+    setNewNode((prev) => (names.includes(prev.status) ? prev : { ...prev, status: firstStatus }));
+    setChildStatus((prev) => (names.includes(prev) ? prev : firstStatus));
+  }, [stages]);
+
+  // Someone else opened the selected person for editing first; a soft lock
+  // the user can override.
+  const editLocked =
+    !!selectedPerson &&
+    !editAnyway &&
+    lockHolders(live.others, live.mine, selectedPerson.id).length > 0;
+
+  const signOut = async () => {
+    await api.logout();
+    setUser(null);
+    setUndoStack([]);
+    setRedoStack([]);
+  };
+
+  // Send changes in order, each based on the latest known revision. Stops at
+  // the first 409 and asks the user how to resolve it. Resolves to the last
+  // response, or null on a conflict.
+  const sendChanges = async (label: string, changes: Change[], mine?: Person) => {
+    let res: Response | null = null;
+    for (let i = 0; i < changes.length; i++) {
+      const basedOn = revisionRef.current;
+      res = await changes[i](basedOn);
+      // The session ran out; sign in again.
+      if (res.status === 401) {
+        setUser(null);
+        return null;
+      }
+      if (res.status === 409) {
+        const body = await res.clone().json();
+        if (body.current) {
+          setConflict({ label, mine, server: body.current, remaining: changes.slice(i) });
+          return null;
+        }
+      }
+      const etag = res.headers.get('ETag');
+      if (etag) {
+        const revision = fromETag(etag);
+        // Compared with the revision sent, as the pushed change may have
+        // arrived first.
+        if (res.ok && revision > basedOn) {
+          setUndoStack((prev) => [...prev, revision]);
+          setRedoStack([]);
+        }
+        revisionRef.current = Math.max(revisionRef.current, revision);
+      }
+    }
+    return res;
+  };
+
+  // Revert the newest revision on `from` and push the revert onto `to`.
+  const revertLatest = async (
+    from: number[],
+    setFrom: React.Dispatch<React.SetStateAction<number[]>>,
+    setTo: React.Dispatch<React.SetStateAction<number[]>>
+  ) => {
+    const revision = from[from.length - 1];
+    if (revision === undefined) return;
+    setFrom(from.slice(0, -1));
+    try {
+      const result = await api.revertRevision(revision);
+      setTo((prev) => [...prev, result.revision]);
+      if (result.skipped) {
+        window.alert(`${result.skipped} change(s) were edited again since and were left as they are.`);
+      }
+    } catch (error) {
+      window.alert((error as Error).message);
+    }
+    await loadData();
+  };
+
+  const undo = () => revertLatest(undoStack, setUndoStack, setRedoStack);
+  const redo = () => revertLatest(redoStack, setRedoStack, setUndoStack);
+
+  const overwriteConflict = async () => {
+    if (!conflict) return;
+    const { label, mine, server, remaining } = conflict;
+    setConflict(null);
+    revisionRef.current = server.revision;
+    if (await sendChanges(label, remaining, mine)) {
+      await loadData();
+    }
+  };
+
+  const discardConflict = () => {
+    if (!conflict) return;
+    applyServerData(conflict.server);
+    setConflict(null);
+  };
+
+  // New people are shown once the server has assigned their id.
+  const createPerson = async (
+    person: NewPerson,
+    referredBy?: string,
+    type: RelationshipType = 'referred_by'
+  ) => {
+    // Warn before adding someone who looks like an existing person.
+    const duplicates = findDuplicates(person, nodes, links, referredBy);
+    if (
+      duplicates.length &&
+      !window.confirm(`${person.name} ${describeDuplicates(duplicates).join('; ')}. Add anyway?`)
+    ) {
+      return;
+    }
+    const res = await sendChanges(`Adding ${person.name}`, [
+      api.createPerson(person, referredBy, type, duplicates.length > 0),
+    ]);
+    if (!res) return;
+    if (!res.ok) {
+      const body = await res.json();
+      window.alert((body.errors || []).map((e: { message: string }) => e.message).join('\n'));
+      return;
+    }
+    const created: Person = await res.json();
+    setNodes((prev) => [...prev.filter((p) => p.id !== created.id), created]);
+    if (referredBy) {
+      const link = { source: referredBy, target: created.id, type };
+      setLinks((prev) => [...prev.filter((l) => !sameLink(l, link)), link]);
+    }
   };
 
   // -----------------------
@@ -112,32 +411,26 @@ const Home: React.FC = () => {
   // -----------------------
   const addNode = async () => {
     if (!newNode.name) return;
-    const id = (nodes.length + 1).toString();
-    const nodeToAdd: Person = { ...newNode, id, notes: '' };
-    const updatedNodes = [...nodes, nodeToAdd];
-    let updatedLinks = [...links];
-    if (connection) {
-      updatedLinks.push({ source: connection, target: id });
-    }
-    setNodes(updatedNodes);
-    setLinks(updatedLinks);
-    setNewNode({ name: '', status: 'To do', starred: false, team: '' });
-    setTeamOption('');
+    const nodeToAdd: NewPerson = { ...newNode, notes: '' };
+    const referredBy = connection || undefined;
+    setNewNode({ name: '', status: firstStatus, starred: false, team: '' });
     setConnection('');
-    await saveData(updatedNodes, updatedLinks);
+    await createPerson(nodeToAdd, referredBy, connectionType);
   };
 
   // -----------------------
   // 2) Update selected person (quick edit modal)
   // -----------------------
+  // Shared by the modal and the board.
+  const savePerson = async (person: Person) => {
+    setNodes((prev) => prev.map((node) => (node.id === person.id ? person : node)));
+    await sendChanges(`Saving ${person.name}`, [api.updatePerson(person)], person);
+  };
+
   const updatePerson = async () => {
     if (!selectedPerson) return;
-    const updatedNodes = nodes.map((node) =>
-      node.id === selectedPerson.id ? selectedPerson : node
-    );
-    setNodes(updatedNodes);
-    await saveData(updatedNodes, links);
     setSelectedPerson(null);
+    await savePerson(selectedPerson);
   };
 
   // -----------------------
@@ -145,26 +438,20 @@ const Home: React.FC = () => {
   // -----------------------
   const addChildPerson = async () => {
     if (!selectedPerson || !childName) return;
-    const id = (nodes.length + 1).toString();
-    const newChild: Person = {
-      id,
+    const newChild: NewPerson = {
       name: childName,
       status: childStatus,
       starred: childStarred,
       team: '',
       notes: '',
     };
-    const updatedNodes = [...nodes, newChild];
-    const updatedLinks = [...links, { source: selectedPerson.id, target: id }];
-    setNodes(updatedNodes);
-    setLinks(updatedLinks);
 
     // Reset child form
     setChildName('');
-    setChildStatus('To do');
+    setChildStatus(firstStatus);
     setChildStarred(false);
 
-    await saveData(updatedNodes, updatedLinks);
+    await createPerson(newChild, selectedPerson.id);
   };
 
   // -----------------------
@@ -178,162 +465,399 @@ const Home: React.FC = () => {
     );
     setNodes(updatedNodes);
     setLinks(updatedLinks);
+    setInterviews((prev) => prev.filter((i) => i.personId !== selectedPerson.id));
+    setSelectedPerson(null);
+    await sendChanges(`Deleting ${selectedPerson.name}`, [api.deletePerson(selectedPerson.id)]);
+  };
+
+  // -----------------------
+  // 5) Save the stage list from the admin panel
+  // -----------------------
+  const saveStages = async (updatedStages: Stage[], reassign: Record<string, string>) => {
+    setShowStagesAdmin(false);
+    const res = await sendChanges('Saving stages', [api.saveStages(updatedStages, reassign)]);
+    if (res && !res.ok) {
+      const body = await res.json();
+      window.alert((body.errors || []).map((e: { message: string }) => e.message).join('\n'));
+    }
+    await loadData();
+  };
+
+  // Resolves to whether the change was saved, so the form can be cleared.
+  const sendRequisitionChange = async (label: string, change: Change) => {
+    const res = await sendChanges(label, [change]);
+    if (res && !res.ok) {
+      const body = await res.json();
+      window.alert((body.errors || []).map((e: { message: string }) => e.message).join('\n'));
+    }
+    await loadData();
+    return !!res && res.ok;
+  };
+
+  const saveRequisition = (requisition: Requisition | NewRequisition) =>
+    'id' in requisition
+      ? sendRequisitionChange(`Saving ${requisition.name}`, api.updateRequisition(requisition))
+      : sendRequisitionChange(`Adding ${requisition.name}`, api.createRequisition(requisition));
+
+  const removeRequisition = (requisition: Requisition) =>
+    sendRequisitionChange(`Removing ${requisition.name}`, api.deleteRequisition(requisition.id));
+
+  // -----------------------
+  // 6) Bulk actions from the table, each saved as one change
+  // -----------------------
+  const bulkUpdate = async (ids: string[], changes: Partial<Person>) => {
+    setNodes((prev) => prev.map((n) => (ids.includes(n.id) ? { ...n, ...changes } : n)));
+    await sendChanges(`Updating ${ids.length} people`, [api.bulkUpdatePeople(ids, changes)]);
+  };
+
+  const bulkDelete = async (ids: string[]) => {
+    setNodes((prev) => prev.filter((n) => !ids.includes(n.id)));
+    setLinks((prev) => prev.filter((l) => !ids.includes(l.source) && !ids.includes(l.target)));
+    setInterviews((prev) => prev.filter((i) => !ids.includes(i.personId)));
+    await sendChanges(`Deleting ${ids.length} people`, [api.bulkDeletePeople(ids)]);
+  };
+
+  // -----------------------
+  // 7) Import people from a file, saved as one change
+  // -----------------------
+  const importPeople = async (source: ImportSource, skipDuplicates: boolean) => {
+    setShowImport(false);
+    const res = await sendChanges('Importing people', [api.importPeople(source, skipDuplicates)]);
+    if (res && res.ok) {
+      const { created, skipped } = await res.json();
+      window.alert(`Imported ${created} people, skipped ${skipped}.`);
+    } else if (res) {
+      window.alert((await res.json()).message);
+    }
+    await loadData();
+  };
+
+  // -----------------------
+  // 8) Schedule or cancel an interview from the modal
+  // -----------------------
+  const scheduleInterview = async (interview: NewInterview, allowDoubleBooking: boolean) => {
+    const name = nodes.find((n) => n.id === interview.personId)?.name;
+    const res = await sendChanges(`Scheduling an interview with ${name}`, [
+      api.createInterview(interview, allowDoubleBooking),
+    ]);
+    if (!res) return;
+    if (res.ok) {
+      const created: Interview = await res.json();
+      setInterviews((prev) => [...prev, created]);
+    } else {
+      const body = await res.json();
+      window.alert((body.errors || []).map((e: { message: string }) => e.message).join('\n'));
+    }
+  };
+
+  const cancelInterview = async (interview: Interview) => {
+    if (!window.confirm(`Cancel the ${interview.round} interview?`)) return;
+    setInterviews((prev) => prev.filter((i) => i.id !== interview.id));
+    await sendChanges('Cancelling an interview', [api.deleteInterview(interview.id)]);
+  };
+
+  // -----------------------
+  // 9) Give or withdraw feedback from the modal
+  // -----------------------
+  const submitFeedback = async (
+    ratings: Record<string, number>,
+    recommendation: Recommendation,
+    comments: string
+  ) => {
+    if (!selectedPerson) return;
+    const res = await sendChanges(`Giving feedback on ${selectedPerson.name}`, [
+      api.submitFeedback(selectedPerson.id, ratings, recommendation, comments),
+    ]);
+    if (res && !res.ok) {
+      const body = await res.json();
+      window.alert((body.errors || []).map((e: { message: string }) => e.message).join('\n'));
+    }
+    setFeedbackSummaries(await api.fetchFeedbackSummaries());
+  };
+
+  const withdrawFeedback = async (feedback: Feedback) => {
+    const res = await sendChanges('Withdrawing feedback', [api.withdrawFeedback(feedback.id)]);
+    if (res && !res.ok) {
+      window.alert((await res.json()).message);
+    }
+    setFeedbackSummaries(await api.fetchFeedbackSummaries());
+  };
+
+  // -----------------------
+  // 10) Merge duplicates from the modal
+  // -----------------------
+  const mergePeople = async (survivor: Person, duplicate: Person, take: MergeField[]) => {
+    setMerging(null);
     setSelectedPerson(null);
-    await saveData(updatedNodes, updatedLinks);
+    const res = await sendChanges(`Merging ${duplicate.name} into ${survivor.name}`, [
+      api.mergePeople(survivor.id, duplicate.id, take),
+    ]);
+    if (res && !res.ok) {
+      const body = await res.json();
+      window.alert(
+        body.message || (body.errors || []).map((e: { message: string }) => e.message).join('\n')
+      );
+    }
+    // Links, interviews and feedback moved too.
+    await loadData();
+    setFeedbackSummaries(await api.fetchFeedbackSummaries());
+  };
+
+  // -----------------------
+  // 11) Restore a backup, saved as one change
+  // -----------------------
+  const restoreBackup = async (backup: BackupInfo) => {
+    const at = new Date(backup.takenAt).toLocaleString();
+    const res = await sendChanges(`Restoring the backup from ${at}`, [
+      api.restoreBackup(backup.id),
+    ]);
+    if (res && !res.ok) {
+      window.alert((await res.json()).message);
+    }
+    await loadData();
+    setFeedbackSummaries(await api.fetchFeedbackSummaries());
+  };
+
+  // -----------------------
+  // Saved views
+  // -----------------------
+  const openView = (id: string) => {
+    const view = views.find((v) => v.id === id);
+    setActiveViewId(view ? view.id : null);
+    setQueryText(view ? view.query : '');
+  };
+
+  const saveViewAs = async () => {
+    const name = window.prompt('Name of the new view');
+    if (!name) return;
+    try {
+      const view = await api.createView({ name, query: queryText });
+      setViews((prev) => [...prev, view]);
+      setActiveViewId(view.id);
+    } catch (error) {
+      window.alert((error as Error).message);
+    }
+  };
+
+  const updateActiveView = async () => {
+    if (!activeView) return;
+    try {
+      const view = await api.updateView(activeView.id, { query: queryText });
+      setViews((prev) => prev.map((v) => (v.id === view.id ? view : v)));
+    } catch (error) {
+      window.alert((error as Error).message);
+    }
+  };
+
+  const deleteActiveView = async () => {
+    if (!activeView || !window.confirm(`Delete the ${activeView.name} view for everyone?`)) return;
+    try {
+      await api.deleteView(activeView.id);
+      setViews((prev) => prev.filter((v) => v.id !== activeView.id));
+      setActiveViewId(null);
+    } catch (error) {
+      window.alert((error as Error).message);
+    }
+  };
+
+  // The address already holds the view or query.
+  const copyViewLink = () => {
+    if (navigator.clipboard) {
+      navigator.clipboard.writeText(window.location.href);
+    } else {
+      window.prompt('Copy this link', window.location.href);
+    }
   };
 
   // -----------------------
   // Filtering
   // -----------------------
-  const filteredNodes = nodes.filter((node) => {
-    const statusMatch = filterStatus ? node.status === filterStatus : true;
-    const starredMatch = filterStarred ? node.starred === true : true;
-    const teamMatch = filterTeam ? node.team === filterTeam : true;
-    return statusMatch && starredMatch && teamMatch;
-  });
+  // While the query has an error, the last valid one stays applied.
+  const parsedQuery = useMemo(() => parseQuery(queryText), [queryText]);
+  const appliedQuery = useRef<Query | null>(null);
+  if (!parsedQuery.error) appliedQuery.current = parsedQuery.query;
+  const filteredNodes = filterPeople(appliedQuery.current, nodes, links);
+
+  // Export links carry the current query when asked to.
+  const exportUrl = (format: 'csv' | 'json') => {
+    const query = new URLSearchParams({ format });
+    if (exportFiltered && !parsedQuery.error && queryText.trim()) {
+      query.set('q', queryText.trim());
+    }
+    return `/api/export?${query}`;
+  };
+
   const filteredNodeIds = new Set(filteredNodes.map((node) => node.id));
   const filteredLinks = links.filter(
-    (link) => filteredNodeIds.has(link.source) && filteredNodeIds.has(link.target)
+    (link) =>
+      filteredNodeIds.has(link.source) &&
+      filteredNodeIds.has(link.target) &&
+      shownTypes.includes(link.type)
   );
 
   // -----------------------
-  // Build Team Grouping (for team nodes)
+  // Build Team Grouping (for requisition nodes)
   // -----------------------
-  const teamNodesMap = new Map<string, { id: string; label: string }>();
-  filteredNodes.forEach((node) => {
-    if (node.team) {
-      if (!teamNodesMap.has(node.team)) {
-        teamNodesMap.set(node.team, { id: `team_${node.team}`, label: node.team });
-      }
-    }
-  });
+  const canChangeView =
+    !!activeView && !!user && (activeView.ownerId === user.id || can(user, 'views:manage'));
 
-  const yPositions = [50, 450, 850]; // Extend if you have more rows
-  const teamNodesArray = Array.from(teamNodesMap.values());
-  const TEAMS_IN_A_ROW = 3;
-  const pinnedTeamNodes = teamNodesArray.map((teamNode, index) => {
-    const row = Math.floor(index / TEAMS_IN_A_ROW);
-    return {
-      ...teamNode,
-      color: '#9b59b6',
-      size: 600,
-      fx: (index % TEAMS_IN_A_ROW + 1) * 800, // fixed horizontal position
-      fy: yPositions[row] || 0, // fixed vertical position from lookup
-      static: true,
-    };
+  // A requisition is shown when someone in the filter is on it, and open
+  // ones also while empty unless filtering.
+  const filtersPeople = appliedQuery.current !== null;
+  const teamNodesMap = new Map<
+    string,
+    { id: string; name: string; label: string; open: boolean }
+  >();
+  requisitions.forEach((requisition) => {
+    const hasMembers = filteredNodes.some((node) => node.team === requisition.name);
+    if (!hasMembers && (filtersPeople || !requisition.open)) return;
+    const { hired } = requisitionProgress(requisition, nodes, stages);
+    teamNodesMap.set(requisition.name, {
+      id: `team_${requisition.name}`,
+      name: requisition.name,
+      label: `${requisition.name} · ${hired}/${requisition.headcount} hired${
+        requisition.open ? '' : ' (closed)'
+      }`,
+      open: requisition.open,
+    });
   });
 
+  const teamNodes = Array.from(teamNodesMap.values()).map((teamNode) => ({
+    ...teamNode,
+    color: teamNode.open ? '#9b59b6' : '#95a5a6',
+  }));
+
   // Create links from each team node to its members.
-  const teamLinks: Link[] = [];
+  const teamLinks: { source: string; target: string }[] = [];
   filteredNodes.forEach((node) => {
-    if (node.team) {
+    if (teamNodesMap.has(node.team)) {
       teamLinks.push({ source: `team_${node.team}`, target: node.id });
     }
   });
 
-  // Build a lookup for team positions using pinnedTeamNodes.
-  const teamPositions = new Map<string, { x: number; y: number }>();
-  pinnedTeamNodes.forEach((teamNode) => {
-    teamPositions.set(teamNode.label, { x: teamNode.fx, y: teamNode.fy });
-  });
-
   // -----------------------
-  // Build person nodes with a clean layout.
-  // We'll group persons by team and arrange each team's persons in a circle around the team node.
+  // Layout: the chosen algorithm places every node, except those dragged
+  // since the last re-layout, which stay where they were dropped.
   // -----------------------
-  const graphPersonNodes: any[] = [];
-  const teamGroups = new Map<string, Person[]>();
+  const layoutGraph: LayoutGraph = {
+    people: filteredNodes.map(({ id, team }) => ({ id, team: teamNodesMap.has(team) ? team : '' })),
+    teams: Array.from(teamNodesMap.keys()),
+    links: filteredLinks,
+  };
+  // The force layout is too slow to run on every render.
+  const computedPositions = useMemo(
+    () => computeLayout(layout.algorithm, layoutGraph),
+    [JSON.stringify([layout.algorithm, layoutGraph])]
+  );
+  const positionOf = (id: string) =>
+    layout.positions[id] || computedPositions[id] || { x: 0, y: 0 };
 
-  // Group persons with a team that has a defined team position.
-  filteredNodes.forEach((node) => {
-    if (node.team && teamPositions.has(node.team)) {
-      if (!teamGroups.has(node.team)) {
-        teamGroups.set(node.team, []);
-      }
-      teamGroups.get(node.team)!.push(node);
-    } else {
-      // For nodes with no team or no team position, use stored positions (or default to 0,0)
-      const nodeLabel = node.starred ? `${node.name} ⭐` : node.name;
-      graphPersonNodes.push({
-        id: node.id,
-        label: nodeLabel,
-        color: statusColors[node.status],
-        opacity: node.status === 'Rejected' ? 0.4 : 1,
-        x: node.x !== undefined ? node.x : 0,
-        y: node.y !== undefined ? node.y : 0,
-      });
+  // Name, star, the average feedback rating with how many gave it, and who
+  // else has them open.
+  const labelFor = (node: Person) => {
+    let label = node.starred ? `${node.name} ⭐` : node.name;
+    const summary = feedbackSummaries[node.id];
+    if (summary && summary.average !== null) {
+      label = `${label} · ${summary.average.toFixed(1)}/4 (${summary.count})`;
     }
-  });
+    const present = presenceOn(live.others, node.id);
+    return present.length ? `${label} · 👁 ${describePresence(present)}` : label;
+  };
 
-  // For each team, arrange its persons in a circle around the team node.
-  teamGroups.forEach((nodesInTeam, teamName) => {
-    const teamPos = teamPositions.get(teamName)!;
-    const numNodes = nodesInTeam.length;
-    const radius = 200; // Adjust radius as needed for spacing
-
-    nodesInTeam.forEach((node, i) => {
-      // Evenly distribute nodes around a circle.
-      const angle = (2 * Math.PI * i) / numNodes;
-      const x = teamPos.x + radius * Math.cos(angle);
-      const y = teamPos.y + radius * Math.sin(angle);
-      const nodeLabel = node.starred ? `${node.name} ⭐` : node.name;
-
-      graphPersonNodes.push({
-        id: node.id,
-        label: nodeLabel,
-        color: statusColors[node.status],
-        opacity: node.status === 'Rejected' ? 0.4 : 1,
-        x,
-        y,
-      });
-    });
-  });
+  // Everyone above and below the highlighted person in the referral chains;
+  // the rest of the graph is dimmed.
+  const chainPerson = chainOf ? nodes.find((n) => n.id === chainOf) : undefined;
+  const chain = useMemo(() => {
+    if (!chainPerson) return null;
+    const { upstream, downstream } = referralChain(chainPerson.id, links);
+    return new Set([chainPerson.id, ...upstream, ...downstream]);
+  }, [chainPerson?.id, links]);
+  const dimmed = (id: string) => chain !== null && !chain.has(id);
 
-  // Merge person nodes & pinned team nodes.
-  const graphNodes = [...graphPersonNodes, ...pinnedTeamNodes];
-  const graphLinks = [...filteredLinks, ...teamLinks];
+  const graphPersonNodes = filteredNodes.map((node) => ({
+    id: node.id,
+    label: labelFor(node),
+    color: statusColors[node.status],
+    opacity: dimmed(node.id) ? 0.15 : terminalStatuses.has(node.status) ? 0.4 : 1,
+  }));
+
+  // Merge person nodes & team nodes.
+  const graphNodes = [...graphPersonNodes, ...teamNodes];
+  const graphLinks: (Link | { source: string; target: string })[] = [
+    ...filteredLinks,
+    ...teamLinks,
+  ];
 
   // -----------------------
   // Map graph data to React Flow's format.
   // -----------------------
-  const rfNodes = graphNodes.map((node) => {
-    const x = node.x !== undefined ? node.x : node.fx ?? 0;
-    const y = node.y !== undefined ? node.y : node.fy ?? 0;
-    return {
-      id: node.id,
-      position: { x, y },
-      data: { label: node.label },
-      style: { background: node.color, opacity: node.opacity },
-      // Make team nodes non-draggable.
-      draggable: !node.id.startsWith('team_'),
-    };
-  });
+  const rfNodes = graphNodes.map((node) => ({
+    id: node.id,
+    position: positionOf(node.id),
+    data: { label: node.label },
+    style: {
+      background: node.color,
+      opacity: 'opacity' in node ? node.opacity : chain ? 0.15 : 1,
+    },
+    // Team nodes can't be linked to anyone.
+    connectable: !node.id.startsWith('team_'),
+  }));
 
-  // Map links to React Flow edges.
+  // Map links to React Flow edges, labeled and styled by relationship type;
+  // the link itself is kept in `data` so it can be removed.
   // If an edge leads to a starred node, mark it as animated.
   const rfEdges = graphLinks.map((edge, index) => {
     const targetNode = nodes.find((n) => n.id === edge.target);
+    const relationship = 'type' in edge ? relationshipFor(edge.type) : undefined;
+    // Only the referrals between highlighted people stay bright.
+    const inChain =
+      'type' in edge && isReferral(edge) && !dimmed(edge.source) && !dimmed(edge.target);
     return {
       id: `e-${edge.source}-${edge.target}-${index}`,
       source: edge.source,
       target: edge.target,
       animated: targetNode?.starred || false,
+      label: relationship?.label,
+      style: {
+        ...(relationship && {
+          stroke: relationship.color,
+          strokeDasharray: relationship.dashed ? '6 4' : undefined,
+        }),
+        opacity: chain && !inChain ? 0.15 : 1,
+      },
+      data: relationship && edge,
     };
   });
 
   // -----------------------
   // Handlers for React Flow events.
   // -----------------------
-  const handleNodePositionChange = (nodeId: string, x: number, y: number) => {
-    // Ignore team nodes (or any node not present in your state)
-    if (!nodes.some((n) => n.id === nodeId)) return;
-    setNodes((prev) =>
-      prev.map((n) => (n.id === nodeId ? { ...n, x, y } : n))
+  const updateLayout = (next: GraphLayout) => {
+    setLayout(next);
+    api.saveLayout(layoutView, next).catch((error) => window.alert(error.message));
+  };
+
+  // Re-laying out forgets where nodes were dragged, so the algorithm places
+  // everyone again.
+  const relayout = (algorithm: LayoutAlgorithm) => updateLayout({ algorithm, positions: {} });
+
+  // Nodes follow the pointer while dragged and are saved where dropped.
+  const onNodesChange = (changes: NodeChange[]) => {
+    const moved = changes.filter(
+      (change): change is NodePositionChange => change.type === 'position' && !!change.position
     );
+    if (!moved.length) return;
+    setLayout((prev) => ({
+      ...prev,
+      positions: {
+        ...prev.positions,
+        ...Object.fromEntries(moved.map((change) => [change.id, change.position])),
+      },
+    }));
   };
 
   const onNodeDragStop = (_: any, node: any) => {
-    handleNodePositionChange(node.id, node.position.x, node.position.y);
+    updateLayout({ ...layout, positions: { ...layout.positions, [node.id]: node.position } });
   };
 
   const handleNodeClick = (nodeId: string) => {
@@ -341,9 +865,10 @@ const Home: React.FC = () => {
     const person = nodes.find((node) => node.id === nodeId);
     if (person) {
       setSelectedPerson({ ...person });
+      setEditAnyway(false);
       // Reset child form fields.
       setChildName('');
-      setChildStatus('To do');
+      setChildStatus(firstStatus);
       setChildStarred(false);
     }
   };
@@ -353,10 +878,41 @@ const Home: React.FC = () => {
     handleNodeClick(node.id);
   };
 
-  // Generate team options for the top form.
-  const teamOptionsList = Array.from(
-    new Set(nodes.map((node) => node.team).filter((team) => team !== ''))
-  );
+  // Double-clicking a person opens their full profile.
+  const onNodeDoubleClick = (_: any, node: any) => {
+    if (node.id.startsWith('team_')) return;
+    router.push(`/people/${encodeURIComponent(node.id)}`);
+  };
+
+  // Dragging from one person's handle to another's links them with the
+  // drawn type: the person dragged to is the link's target.
+  const onConnect = async ({ source, target }: { source: string; target: string }) => {
+    if (!source || !target || source === target) return;
+    const link: Link = { source, target, type: drawnType };
+    if (links.some((l) => sameLink(l, link))) return;
+    setLinks((prev) => [...prev, link]);
+    const res = await sendChanges('Linking people', [api.createLink(link)]);
+    if (res && !res.ok) await loadData();
+  };
+
+  // Clicking a link offers to remove it; team links can't be.
+  const onEdgeClick = async (_: React.MouseEvent, edge: Edge<Link>) => {
+    const link = edge.data;
+    if (!link || !can(user, 'people:manage')) return;
+    const nameOf = (id: string) => nodes.find((n) => n.id === id)?.name;
+    const description = `${nameOf(link.target)} ${relationshipFor(link.type).label} ${nameOf(
+      link.source
+    )}`;
+    if (!window.confirm(`Remove "${description}"?`)) return;
+    setLinks((prev) => prev.filter((l) => !sameLink(l, link)));
+    const res = await sendChanges('Unlinking people', [api.deleteLink(link)]);
+    if (res && !res.ok) await loadData();
+  };
+
+  // Requisitions to pick from: any of them for filters and accounts, only
+  // open ones for adding or moving people.
+  const teamOptionsList = requisitions.map((requisition) => requisition.name);
+  const openTeamOptions = openRequisitionNames(requisitions);
 
   // Calculate status stats
   const statusStats = Object.keys(statusColors).reduce((acc, status) => {
@@ -364,79 +920,220 @@ const Home: React.FC = () => {
     return acc;
   }, {} as Record<string, number>);
 
+  if (user === undefined) return null;
+  if (!user) return <LoginForm onLogin={setUser} />;
+
   return (
     <div style={{ padding: '20px', fontFamily: 'Arial, sans-serif', backgroundColor: '#f5f5f5' }}>
       <h1 style={{ textAlign: 'center', color: '#333' }}>Hiring Pipeline Manager</h1>
 
-      {/* Combined Add & Filter Section */}
+      {/* Account, Admin & Undo/Redo */}
       <div
         style={{
           display: 'flex',
-          flexWrap: 'wrap',
-          gap: '20px',
+          gap: '10px',
           justifyContent: 'center',
+          alignItems: 'center',
           marginBottom: '20px',
         }}
       >
-        {/* Add New Person Form */}
-        <div
+        <span>
+          Signed in as <strong>{user.name}</strong> ({roleLabels[user.role]}
+          {user.team ? `, ${user.team}` : ''})
+        </span>
+        {/* Whether others' changes show up as they are made. */}
+        <span style={{ color: live.connected ? '#27ae60' : '#999' }}>
+          {live.connected ? '● Live' : '○ Offline'}
+        </span>
+        <button
+          onClick={signOut}
           style={{
-            flex: '1 1 300px',
-            padding: '20px',
-            backgroundColor: '#fff',
-            borderRadius: '8px',
-            boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+            padding: '8px 12px',
+            border: 'none',
+            borderRadius: '4px',
+            backgroundColor: '#ccc',
+            cursor: 'pointer',
           }}
         >
-          <h2>Add New Person</h2>
-          <div style={{ marginBottom: '10px' }}>
-            <label style={{ display: 'block', marginBottom: '5px' }}>Name</label>
-            <input
-              type="text"
-              placeholder="Name"
-              value={newNode.name}
-              onChange={(e) => setNewNode({ ...newNode, name: e.target.value })}
+          Sign Out
+        </button>
+        {can(user, 'users:manage') && (
+          <button
+            onClick={() => setShowUsersAdmin(true)}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#34495e',
+              color: '#fff',
+              cursor: 'pointer',
+            }}
+          >
+            Users
+          </button>
+        )}
+        {can(user, 'pipeline:replace') && (
+          <button
+            onClick={() => setShowBackups(true)}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#34495e',
+              color: '#fff',
+              cursor: 'pointer',
+            }}
+          >
+            Backups
+          </button>
+        )}
+        {can(user, 'requisitions:manage') && (
+          <button
+            onClick={() => setShowRequisitionsAdmin(true)}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#16a085',
+              color: '#fff',
+              cursor: 'pointer',
+            }}
+          >
+            Requisitions
+          </button>
+        )}
+        {can(user, 'stages:manage') && (
+          <button
+            onClick={() => setShowStagesAdmin(true)}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#9b59b6',
+              color: '#fff',
+              cursor: 'pointer',
+            }}
+          >
+            Manage Stages
+          </button>
+        )}
+        {can(user, 'people:manage') && (
+          <button
+            onClick={() => setShowImport(true)}
+            style={{
+              padding: '8px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#16a085',
+              color: '#fff',
+              cursor: 'pointer',
+            }}
+          >
+            Import
+          </button>
+        )}
+        {can(user, 'export') && (
+          <>
+            {(['csv', 'json'] as const).map((format) => (
+              <a
+                key={format}
+                href={exportUrl(format)}
+                style={{
+                  padding: '8px 12px',
+                  borderRadius: '4px',
+                  backgroundColor: '#16a085',
+                  color: '#fff',
+                  textDecoration: 'none',
+                }}
+              >
+                Export {format.toUpperCase()}
+              </a>
+            ))}
+            <label>
+              <input
+                type="checkbox"
+                checked={exportFiltered}
+                onChange={(e) => setExportFiltered(e.target.checked)}
+                style={{ marginRight: '5px' }}
+              />
+              Only filtered
+            </label>
+          </>
+        )}
+        {can(user, 'history:revert') && (
+          <>
+            <button
+              onClick={undo}
+              disabled={!undoStack.length}
               style={{
-                width: '100%',
-                padding: '8px',
+                padding: '8px 12px',
+                border: 'none',
                 borderRadius: '4px',
-                border: '1px solid #ccc',
-              }}
-            />
-          </div>
-          <div style={{ marginBottom: '10px' }}>
-            <label style={{ display: 'block', marginBottom: '5px' }}>Team</label>
-            <select
-              value={teamOption}
-              onChange={(e) => {
-                const val = e.target.value;
-                setTeamOption(val);
-                if (val !== 'other') {
-                  setNewNode({ ...newNode, team: val });
-                } else {
-                  setNewNode({ ...newNode, team: '' });
-                }
+                backgroundColor: '#ccc',
+                cursor: undoStack.length ? 'pointer' : 'default',
+                opacity: undoStack.length ? 1 : 0.5,
               }}
+            >
+              Undo
+            </button>
+            <button
+              onClick={redo}
+              disabled={!redoStack.length}
               style={{
-                width: '100%',
-                padding: '8px',
+                padding: '8px 12px',
+                border: 'none',
                 borderRadius: '4px',
-                border: '1px solid #ccc',
-                marginBottom: '5px',
+                backgroundColor: '#ccc',
+                cursor: redoStack.length ? 'pointer' : 'default',
+                opacity: redoStack.length ? 1 : 0.5,
               }}
             >
-              <option value="">None</option>
-              {teamOptionsList.map((team) => (
-                <option key={team} value={team}>
-                  {team}
-                </option>
-              ))}
-              <option value="other">Other</option>
-            </select>
-            {teamOption === 'other' && (
+              Redo
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Combined Add & Filter Section */}
+      <div
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          gap: '20px',
+          justifyContent: 'center',
+          marginBottom: '20px',
+        }}
+      >
+        {/* Add New Person Form */}
+        {can(user, 'people:manage') && (
+          <div
+            style={{
+              flex: '1 1 300px',
+              padding: '20px',
+              backgroundColor: '#fff',
+              borderRadius: '8px',
+              boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+            }}
+          >
+            <h2>Add New Person</h2>
+            <div style={{ marginBottom: '10px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>Name</label>
               <input
                 type="text"
-                placeholder="Enter new team"
+                placeholder="Name"
+                value={newNode.name}
+                onChange={(e) => setNewNode({ ...newNode, name: e.target.value })}
+                style={{
+                  width: '100%',
+                  padding: '8px',
+                  borderRadius: '4px',
+                  border: '1px solid #ccc',
+                }}
+              />
+            </div>
+            <div style={{ marginBottom: '10px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>Requisition</label>
+              <select
                 value={newNode.team}
                 onChange={(e) => setNewNode({ ...newNode, team: e.target.value })}
                 style={{
@@ -445,74 +1142,100 @@ const Home: React.FC = () => {
                   borderRadius: '4px',
                   border: '1px solid #ccc',
                 }}
-              />
-            )}
-          </div>
-          <div style={{ marginBottom: '10px' }}>
-            <label style={{ display: 'block', marginBottom: '5px' }}>Status</label>
-            <select
-              value={newNode.status}
-              onChange={(e) => setNewNode({ ...newNode, status: e.target.value })}
-              style={{
-                width: '100%',
-                padding: '8px',
-                borderRadius: '4px',
-                border: '1px solid #ccc',
-              }}
-            >
-              {Object.keys(statusColors).map((status) => (
-                <option key={status} value={status}>
-                  {status}
-                </option>
-              ))}
-            </select>
-          </div>
-          <div style={{ marginBottom: '10px' }}>
-            <label>
-              <input
-                type="checkbox"
-                checked={newNode.starred}
-                onChange={(e) => setNewNode({ ...newNode, starred: e.target.checked })}
-                style={{ marginRight: '5px' }}
-              />
-              Starred
-            </label>
-          </div>
-          <div style={{ marginBottom: '10px' }}>
-            <label style={{ display: 'block', marginBottom: '5px' }}>Connect To</label>
-            <select
-              value={connection}
-              onChange={(e) => setConnection(e.target.value)}
+              >
+                <option value="">None</option>
+                {openTeamOptions.map((team) => (
+                  <option key={team} value={team}>
+                    {team}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div style={{ marginBottom: '10px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>Status</label>
+              <select
+                value={newNode.status}
+                onChange={(e) => setNewNode({ ...newNode, status: e.target.value })}
+                style={{
+                  width: '100%',
+                  padding: '8px',
+                  borderRadius: '4px',
+                  border: '1px solid #ccc',
+                }}
+              >
+                {Object.keys(statusColors).map((status) => (
+                  <option key={status} value={status}>
+                    {status}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div style={{ marginBottom: '10px' }}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={newNode.starred}
+                  onChange={(e) => setNewNode({ ...newNode, starred: e.target.checked })}
+                  style={{ marginRight: '5px' }}
+                />
+                Starred
+              </label>
+            </div>
+            <div style={{ marginBottom: '10px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>Connect To</label>
+              <select
+                value={connection}
+                onChange={(e) => setConnection(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '8px',
+                  borderRadius: '4px',
+                  border: '1px solid #ccc',
+                }}
+              >
+                <option value="">None</option>
+                {nodes.map((person) => (
+                  <option key={person.id} value={person.id}>
+                    {person.name}
+                  </option>
+                ))}
+              </select>
+              {connection && (
+                <select
+                  value={connectionType}
+                  onChange={(e) => setConnectionType(e.target.value as RelationshipType)}
+                  style={{
+                    width: '100%',
+                    padding: '8px',
+                    borderRadius: '4px',
+                    border: '1px solid #ccc',
+                    marginTop: '5px',
+                  }}
+                >
+                  {relationshipTypes.map(({ type, label }) => (
+                    <option key={type} value={type}>
+                      New person {label} {nodes.find((n) => n.id === connection)?.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <button
+              onClick={addNode}
               style={{
                 width: '100%',
-                padding: '8px',
+                padding: '10px',
+                backgroundColor: '#3498db',
+                color: '#fff',
+                border: 'none',
                 borderRadius: '4px',
-                border: '1px solid #ccc',
+                cursor: 'pointer',
               }}
             >
-              <option value="">None</option>
-              {nodes.map((person) => (
-                <option key={person.id} value={person.id}>
-                  {person.name}
-                </option>
-              ))}
-            </select>
+              Add Person
+            </button>
           </div>
-          <button
-            onClick={addNode}
-            style={{
-              width: '100%',
-              padding: '10px',
-              backgroundColor: '#3498db',
-              color: '#fff',
-              border: 'none',
-              borderRadius: '4px',
-              cursor: 'pointer',
-            }}
-          >
-            Add Person
-          </button>
-        </div>
+        )}
 
         {/* Filters */}
         <div
@@ -526,48 +1249,100 @@ const Home: React.FC = () => {
         >
           <h2>Filters</h2>
           <div style={{ marginBottom: '10px' }}>
-            <label style={{ marginRight: '10px' }}>Status</label>
-            <select
-              value={filterStatus}
-              onChange={(e) => setFilterStatus(e.target.value)}
+            <input
+              type="search"
+              value={queryText}
+              onChange={(e) => setQueryText(e.target.value)}
+              placeholder='status:Interview OR status:CEO team:Backend starred notes:"python"'
               style={{
+                width: '100%',
                 padding: '8px',
                 borderRadius: '4px',
-                border: '1px solid #ccc',
+                border: `1px solid ${parsedQuery.error ? '#e74c3c' : '#ccc'}`,
+                boxSizing: 'border-box',
               }}
-            >
-              <option value="">All</option>
-              {Object.keys(statusColors).map((status) => (
-                <option key={status} value={status}>
-                  {status}
-                </option>
-              ))}
-            </select>
+            />
+            {parsedQuery.error ? (
+              <div style={{ color: '#e74c3c', fontSize: '12px', marginTop: '4px' }}>
+                {parsedQuery.error}
+              </div>
+            ) : (
+              <div style={{ color: '#666', fontSize: '12px', marginTop: '4px' }}>
+                {filteredNodes.length} of {nodes.length} shown. Fields: {queryFields.join(', ')}.
+                Terms must all match unless joined with OR; - negates, parentheses group, and a word
+                alone searches names.
+              </div>
+            )}
           </div>
-          <div style={{ marginBottom: '10px' }}>
-            <label style={{ marginRight: '10px' }}>Team</label>
-            <input
-              type="text"
-              placeholder="Filter by team"
-              value={filterTeam}
-              onChange={(e) => setFilterTeam(e.target.value)}
+          <div
+            style={{
+              display: 'flex',
+              flexWrap: 'wrap',
+              gap: '8px',
+              alignItems: 'center',
+              marginBottom: '10px',
+            }}
+          >
+            <label>Saved view</label>
+            <select
+              value={activeViewId || ''}
+              onChange={(e) => openView(e.target.value)}
               style={{
                 padding: '8px',
                 borderRadius: '4px',
                 border: '1px solid #ccc',
               }}
-            />
+            >
+              <option value="">None</option>
+              {views.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {v.ownerId === user.id ? v.name : `${v.name} (${v.ownerName})`}
+                </option>
+              ))}
+            </select>
+            {viewModified && <span style={{ color: '#666' }}>(modified)</span>}
+            <button
+              onClick={saveViewAs}
+              disabled={!queryText.trim() || !!parsedQuery.error}
+              style={smallButtonStyle}
+            >
+              Save as…
+            </button>
+            {activeView && canChangeView && viewModified && (
+              <button
+                onClick={updateActiveView}
+                disabled={!!parsedQuery.error}
+                style={smallButtonStyle}
+              >
+                Update
+              </button>
+            )}
+            {activeView && canChangeView && (
+              <button onClick={deleteActiveView} style={smallButtonStyle}>
+                Delete
+              </button>
+            )}
+            <button onClick={copyViewLink} style={smallButtonStyle}>
+              Copy link
+            </button>
           </div>
-          <div>
-            <label>
-              <input
-                type="checkbox"
-                checked={filterStarred}
-                onChange={(e) => setFilterStarred(e.target.checked)}
-                style={{ marginRight: '5px' }}
-              />
-              Starred Only
-            </label>
+          <div style={{ marginTop: '10px' }}>
+            <label style={{ marginRight: '10px' }}>Relationships</label>
+            {relationshipTypes.map(({ type, label, color }) => (
+              <label key={type} style={{ marginRight: '10px', color }}>
+                <input
+                  type="checkbox"
+                  checked={shownTypes.includes(type)}
+                  onChange={(e) =>
+                    setShownTypes((prev) =>
+                      e.target.checked ? [...prev, type] : prev.filter((t) => t !== type)
+                    )
+                  }
+                  style={{ marginRight: '5px' }}
+                />
+                {label}
+              </label>
+            ))}
           </div>
 
           {/* Status Statistics */}
@@ -577,7 +1352,7 @@ const Home: React.FC = () => {
               {Object.entries(statusStats).map(([status, count]) => (
                 <div
                   key={status}
-                  onClick={() => setFilterStatus(status)}
+                  onClick={() => setQueryText(statusQuery(status))}
                   style={{
                     padding: '10px',
                     borderRadius: '6px',
@@ -585,8 +1360,9 @@ const Home: React.FC = () => {
                     border: `2px solid ${statusColors[status]}`,
                     minWidth: '100px',
                     cursor: 'pointer',
-                    opacity: filterStatus === status ? 1 : 0.7,
-                    transform: filterStatus === status ? 'scale(1.05)' : 'scale(1)',
+                    opacity: queryText.trim() === statusQuery(status) ? 1 : 0.7,
+                    transform:
+                      queryText.trim() === statusQuery(status) ? 'scale(1.05)' : 'scale(1)',
                     transition: 'all 0.2s ease',
                   }}
                 >
@@ -599,7 +1375,29 @@ const Home: React.FC = () => {
         </div>
       </div>
 
-      {/* Graph Display using React Flow */}
+      {/* View Toggle */}
+      <div style={{ display: 'flex', justifyContent: 'center', gap: '10px', marginBottom: '10px' }}>
+        {(['graph', 'board', 'table', 'analytics'] as const)
+          .filter((option) => option !== 'analytics' || can(user, 'analytics:read'))
+          .map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              style={{
+                padding: '8px 16px',
+                border: 'none',
+                borderRadius: '4px',
+                backgroundColor: view === option ? '#3498db' : '#ccc',
+                color: view === option ? '#fff' : '#333',
+                cursor: 'pointer',
+              }}
+            >
+              {{ graph: 'Graph', board: 'Board', table: 'Table', analytics: 'Analytics' }[option]}
+            </button>
+          ))}
+      </div>
+
+      {/* Graph Display using React Flow, the Kanban Board, the table or analytics */}
       <div
         style={{
           width: '100%',
@@ -610,17 +1408,125 @@ const Home: React.FC = () => {
           overflowX: 'auto',
         }}
       >
-        <ReactFlowProvider>
-          <div style={{ width: dimensions.width, height: dimensions.height }}>
-            <ReactFlow
-              nodes={rfNodes}
-              edges={rfEdges}
-              onNodeDragStop={onNodeDragStop}
-              onNodeClick={onNodeClick}
-              style={{ width: '100%', height: '100%' }}
-            />
+        {view === 'graph' && (
+          <div style={{ marginBottom: '10px' }}>
+            <label style={{ marginRight: '10px' }}>Layout</label>
+            <select
+              value={layout.algorithm}
+              onChange={(e) => relayout(e.target.value as LayoutAlgorithm)}
+              style={{ padding: '4px', borderRadius: '4px', border: '1px solid #ccc' }}
+            >
+              {layoutAlgorithms.map(({ algorithm, label }) => (
+                <option key={algorithm} value={algorithm}>
+                  {label}
+                </option>
+              ))}
+            </select>{' '}
+            <button
+              onClick={() => relayout(layout.algorithm)}
+              style={{
+                padding: '4px 8px',
+                border: 'none',
+                borderRadius: '4px',
+                backgroundColor: '#eee',
+                cursor: 'pointer',
+              }}
+            >
+              Re-layout
+            </button>
+          </div>
+        )}
+        {view === 'graph' && chainPerson && (
+          <div style={{ marginBottom: '10px' }}>
+            Showing who referred {chainPerson.name} and whom they referred.{' '}
+            <button onClick={() => setChainOf(null)} style={smallButtonStyle}>
+              Show everyone
+            </button>
+          </div>
+        )}
+        {view === 'graph' && can(user, 'people:manage') && (
+          <div style={{ marginBottom: '10px', color: '#666' }}>
+            Drag from the bottom of one person to the top of another to record that the second{' '}
+            <select
+              value={drawnType}
+              onChange={(e) => setDrawnType(e.target.value as RelationshipType)}
+              style={{ padding: '4px', borderRadius: '4px', border: '1px solid #ccc' }}
+            >
+              {relationshipTypes.map(({ type, label }) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </select>{' '}
+            the first; click a link to remove it.
           </div>
-        </ReactFlowProvider>
+        )}
+        {view === 'graph' && (
+          <ReactFlowProvider>
+            <div style={{ width: dimensions.width, height: dimensions.height }}>
+              <ReactFlow
+                nodes={rfNodes}
+                edges={rfEdges}
+                onNodesChange={onNodesChange}
+                onNodeDragStop={onNodeDragStop}
+                onNodeClick={onNodeClick}
+                onNodeDoubleClick={onNodeDoubleClick}
+                onConnect={onConnect}
+                onEdgeClick={onEdgeClick}
+                nodesConnectable={can(user, 'people:manage')}
+                style={{ width: '100%', height: '100%' }}
+              />
+            </div>
+          </ReactFlowProvider>
+        )}
+        {view === 'board' && (
+          <KanbanBoard
+            stages={stages}
+            people={filteredNodes}
+            onMove={(person, status) => savePerson({ ...person, status })}
+            onOpen={handleNodeClick}
+          />
+        )}
+        {view === 'table' && (
+          <PeopleTable
+            people={filteredNodes}
+            allPeople={nodes}
+            links={links}
+            stages={stages}
+            teams={openTeamOptions}
+            onOpen={handleNodeClick}
+            onBulkUpdate={bulkUpdate}
+            onBulkDelete={bulkDelete}
+          />
+        )}
+        {view === 'analytics' && (
+          <AnalyticsDashboard
+            stages={stages}
+            teams={teamOptionsList}
+            colors={statusColors}
+            revision={revisionRef.current}
+          />
+        )}
+      </div>
+
+      {/* Interviews to come, across all candidates */}
+      <div
+        style={{
+          marginTop: '20px',
+          padding: '20px',
+          backgroundColor: '#fff',
+          borderRadius: '8px',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        }}
+      >
+        <h2 style={{ marginTop: 0 }}>Upcoming Interviews</h2>
+        <UpcomingInterviews
+          interviews={interviews}
+          people={nodes}
+          onOpen={handleNodeClick}
+          calendarToken={calendarToken}
+          onResetCalendarToken={() => api.fetchCalendarToken(true).then(setCalendarToken)}
+        />
       </div>
 
       {/* Quick Edit & Add Child Person Modal */}
@@ -646,11 +1552,64 @@ const Home: React.FC = () => {
               padding: '20px',
               borderRadius: '8px',
               minWidth: '320px',
+              maxHeight: '90vh',
+              overflowY: 'auto',
               boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
             }}
             onClick={(e) => e.stopPropagation()}
           >
             <h2>Edit {selectedPerson.name}</h2>
+            <a
+              href={`/people/${encodeURIComponent(selectedPerson.id)}`}
+              style={{ display: 'block', marginBottom: '10px' }}
+            >
+              Open full profile
+            </a>
+            <button
+              onClick={() => {
+                setChainOf(selectedPerson.id);
+                setView('graph');
+                setSelectedPerson(null);
+              }}
+              style={{ ...smallButtonStyle, marginBottom: '10px' }}
+            >
+              Highlight referral chain
+            </button>
+            {presenceOn(live.others, selectedPerson.id).length > 0 && (
+              <p style={{ color: '#666' }}>
+                Also open for: {describePresence(presenceOn(live.others, selectedPerson.id))}
+              </p>
+            )}
+            {can(user, 'people:manage') &&
+              findDuplicates(selectedPerson, nodes, links).map(({ person, reasons }) => (
+                <div key={person.id} style={{ marginBottom: '10px', color: '#c0392b' }}>
+                  Possible duplicate of {person.name} ({reasons.join(', ')}){' '}
+                  <button
+                    onClick={() =>
+                      setMerging([
+                        nodes.find((n) => n.id === selectedPerson.id) || selectedPerson,
+                        person,
+                      ])
+                    }
+                  >
+                    Merge…
+                  </button>
+                </div>
+              ))}
+            {editLocked && (
+              <div
+                style={{
+                  marginBottom: '10px',
+                  padding: '8px',
+                  borderRadius: '4px',
+                  backgroundColor: '#fdf2e9',
+                }}
+              >
+                {describePresence(lockHolders(live.others, live.mine, selectedPerson.id))} started
+                editing first. Saving now may overwrite their changes.{' '}
+                <button onClick={() => setEditAnyway(true)}>Edit anyway</button>
+              </div>
+            )}
             {/* Quick Edit Fields */}
             <div style={{ marginBottom: '10px' }}>
               <label style={{ display: 'block', marginBottom: '5px' }}>Status</label>
@@ -686,22 +1645,24 @@ const Home: React.FC = () => {
                 Starred
               </label>
             </div>
-            <div style={{ marginBottom: '10px' }}>
-              <label style={{ display: 'block', marginBottom: '5px' }}>Notes</label>
-              <textarea
-                value={selectedPerson.notes}
-                onChange={(e) =>
-                  setSelectedPerson({ ...selectedPerson, notes: e.target.value })
-                }
-                style={{
-                  width: '100%',
-                  padding: '8px',
-                  borderRadius: '4px',
-                  border: '1px solid #ccc',
-                  minHeight: '60px',
-                }}
-              />
-            </div>
+            {can(user, 'notes:read') && (
+              <div style={{ marginBottom: '10px' }}>
+                <label style={{ display: 'block', marginBottom: '5px' }}>Notes</label>
+                <textarea
+                  value={selectedPerson.notes}
+                  onChange={(e) =>
+                    setSelectedPerson({ ...selectedPerson, notes: e.target.value })
+                  }
+                  style={{
+                    width: '100%',
+                    padding: '8px',
+                    borderRadius: '4px',
+                    border: '1px solid #ccc',
+                    minHeight: '60px',
+                  }}
+                />
+              </div>
+            )}
 
             {/* Edit, Delete Buttons */}
             <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '20px' }}>
@@ -717,100 +1678,209 @@ const Home: React.FC = () => {
               >
                 Cancel
               </button>
-              <button
-                onClick={updatePerson}
-                style={{
-                  padding: '8px 12px',
-                  border: 'none',
-                  borderRadius: '4px',
-                  backgroundColor: '#3498db',
-                  color: '#fff',
-                  cursor: 'pointer',
-                }}
-              >
-                Save
-              </button>
-              <button
-                onClick={deletePerson}
-                style={{
-                  padding: '8px 12px',
-                  border: 'none',
-                  borderRadius: '4px',
-                  backgroundColor: '#e74c3c',
-                  color: '#fff',
-                  cursor: 'pointer',
-                }}
-              >
-                Delete
-              </button>
+              {can(user, 'people:edit') && (
+                <button
+                  onClick={updatePerson}
+                  disabled={editLocked}
+                  style={{
+                    padding: '8px 12px',
+                    border: 'none',
+                    borderRadius: '4px',
+                    backgroundColor: '#3498db',
+                    color: '#fff',
+                    cursor: 'pointer',
+                    opacity: editLocked ? 0.5 : 1,
+                  }}
+                >
+                  Save
+                </button>
+              )}
+              {can(user, 'people:manage') && (
+                <button
+                  onClick={deletePerson}
+                  style={{
+                    padding: '8px 12px',
+                    border: 'none',
+                    borderRadius: '4px',
+                    backgroundColor: '#e74c3c',
+                    color: '#fff',
+                    cursor: 'pointer',
+                  }}
+                >
+                  Delete
+                </button>
+              )}
             </div>
 
             <hr style={{ margin: '20px 0' }} />
 
-            {/* Add a child person (linked to selectedPerson, no team) */}
-            <h3>Add Child Person (Linked to {selectedPerson.name})</h3>
-            <div style={{ marginBottom: '10px' }}>
-              <label style={{ display: 'block', marginBottom: '5px' }}>Name</label>
-              <input
-                type="text"
-                placeholder="Child Name"
-                value={childName}
-                onChange={(e) => setChildName(e.target.value)}
-                style={{
-                  width: '100%',
-                  padding: '8px',
-                  borderRadius: '4px',
-                  border: '1px solid #ccc',
-                }}
-              />
-            </div>
-            <div style={{ marginBottom: '10px' }}>
-              <label style={{ display: 'block', marginBottom: '5px' }}>Status</label>
-              <select
-                value={childStatus}
-                onChange={(e) => setChildStatus(e.target.value)}
-                style={{
-                  width: '100%',
-                  padding: '8px',
-                  borderRadius: '4px',
-                  border: '1px solid #ccc',
-                }}
-              >
-                {Object.keys(statusColors).map((status) => (
-                  <option key={status} value={status}>
-                    {status}
-                  </option>
-                ))}
-              </select>
-            </div>
-            <div style={{ marginBottom: '10px' }}>
-              <label>
-                <input
-                  type="checkbox"
-                  checked={childStarred}
-                  onChange={(e) => setChildStarred(e.target.checked)}
-                  style={{ marginRight: '5px' }}
+            {/* Interviews with this person */}
+            {can(user, 'interviews:manage') && (
+              <>
+                <h3>Interviews</h3>
+                <InterviewScheduler
+                  person={selectedPerson}
+                  interviews={interviews}
+                  people={nodes}
+                  onSchedule={scheduleInterview}
+                  onCancel={cancelInterview}
+                  calendarToken={calendarToken}
                 />
-                Starred
-              </label>
-            </div>
-            <button
-              onClick={addChildPerson}
-              style={{
-                width: '100%',
-                padding: '10px',
-                backgroundColor: '#2ecc71',
-                color: '#fff',
-                border: 'none',
-                borderRadius: '4px',
-                cursor: 'pointer',
-              }}
-            >
-              Add Child Person
-            </button>
+
+                <hr style={{ margin: '20px 0' }} />
+              </>
+            )}
+
+            {/* Scorecards from interviewers */}
+            <h3>Feedback</h3>
+            {/* Scored against the saved stage, not one picked above but not saved. */}
+            <FeedbackPanel
+              person={nodes.find((n) => n.id === selectedPerson.id) || selectedPerson}
+              stages={stages}
+              actorName={user.name}
+              onSubmit={submitFeedback}
+              onWithdraw={withdrawFeedback}
+            />
+
+            <hr style={{ margin: '20px 0' }} />
+
+            {/* Timeline of recorded changes */}
+            {can(user, 'history:read') && (
+              <>
+                <h3>History</h3>
+                <PersonTimeline personId={selectedPerson.id} people={nodes} />
+
+                <hr style={{ margin: '20px 0' }} />
+              </>
+            )}
+
+            {/* Add a child person (linked to selectedPerson, no team) */}
+            {can(user, 'people:manage') && (
+              <>
+                <h3>Add Child Person (Linked to {selectedPerson.name})</h3>
+                <div style={{ marginBottom: '10px' }}>
+                  <label style={{ display: 'block', marginBottom: '5px' }}>Name</label>
+                  <input
+                    type="text"
+                    placeholder="Child Name"
+                    value={childName}
+                    onChange={(e) => setChildName(e.target.value)}
+                    style={{
+                      width: '100%',
+                      padding: '8px',
+                      borderRadius: '4px',
+                      border: '1px solid #ccc',
+                    }}
+                  />
+                </div>
+                <div style={{ marginBottom: '10px' }}>
+                  <label style={{ display: 'block', marginBottom: '5px' }}>Status</label>
+                  <select
+                    value={childStatus}
+                    onChange={(e) => setChildStatus(e.target.value)}
+                    style={{
+                      width: '100%',
+                      padding: '8px',
+                      borderRadius: '4px',
+                      border: '1px solid #ccc',
+                    }}
+                  >
+                    {Object.keys(statusColors).map((status) => (
+                      <option key={status} value={status}>
+                        {status}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div style={{ marginBottom: '10px' }}>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={childStarred}
+                      onChange={(e) => setChildStarred(e.target.checked)}
+                      style={{ marginRight: '5px' }}
+                    />
+                    Starred
+                  </label>
+                </div>
+                <button
+                  onClick={addChildPerson}
+                  style={{
+                    width: '100%',
+                    padding: '10px',
+                    backgroundColor: '#2ecc71',
+                    color: '#fff',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                  }}
+                >
+                  Add Child Person
+                </button>
+              </>
+            )}
           </div>
         </div>
       )}
+
+      {showStagesAdmin && (
+        <StagesAdmin
+          stages={stages}
+          people={nodes}
+          onSave={saveStages}
+          onClose={() => setShowStagesAdmin(false)}
+        />
+      )}
+
+      {showRequisitionsAdmin && (
+        <RequisitionsAdmin
+          requisitions={requisitions}
+          people={nodes}
+          stages={stages}
+          onSave={saveRequisition}
+          onRemove={removeRequisition}
+          onClose={() => setShowRequisitionsAdmin(false)}
+        />
+      )}
+
+      {showBackups && (
+        <BackupsAdmin
+          people={nodes}
+          revision={revisionRef.current}
+          onRestore={restoreBackup}
+          onClose={() => setShowBackups(false)}
+        />
+      )}
+
+      {showUsersAdmin && (
+        <UsersAdmin
+          currentUserId={user.id}
+          teams={teamOptionsList}
+          onClose={() => setShowUsersAdmin(false)}
+        />
+      )}
+
+      {showImport && (
+        <ImportWizard onImport={importPeople} onClose={() => setShowImport(false)} />
+      )}
+
+      {merging && (
+        <MergeDialog
+          first={merging[0]}
+          second={merging[1]}
+          onMerge={mergePeople}
+          onCancel={() => setMerging(null)}
+        />
+      )}
+
+      {conflict && (
+        <ConflictDialog
+          conflict={conflict}
+          localNodes={nodes}
+          onOverwrite={overwriteConflict}
+          onDiscard={discardConflict}
+        />
+      )}
     </div>
   );
 };
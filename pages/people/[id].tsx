@@ -0,0 +1,414 @@
+// pages/people/[id].tsx
+// The full candidate profile, opened from the pipeline.
+import { useRouter } from 'next/router';
+import React, { useEffect, useState } from 'react';
+import AttachmentsPanel from '../../components/AttachmentsPanel';
+import ConflictDialog, { PendingConflict } from '../../components/ConflictDialog';
+import LoginForm from '../../components/LoginForm';
+import PersonTimeline from '../../components/PersonTimeline';
+import * as api from '../../lib/api';
+import { can } from '../../lib/auth/access';
+import { PublicUser } from '../../lib/auth/types';
+import { describePresence, presenceOn, useLive } from '../../lib/realtime/useLive';
+import {
+  ReferralTree,
+  referralChain,
+  referralTree,
+  referrerPath,
+  treeDepth,
+} from '../../lib/referrals';
+import { relationshipFor } from '../../lib/relationships';
+import { openRequisitionNames } from '../../lib/requisitions';
+import { Link, Person, VersionedData, candidateSources } from '../../lib/types';
+import { FieldError } from '../../lib/validation';
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  borderRadius: '4px',
+  border: '1px solid #ccc',
+  boxSizing: 'border-box',
+};
+
+const sectionStyle: React.CSSProperties = {
+  marginBottom: '20px',
+  padding: '20px',
+  backgroundColor: '#fff',
+  borderRadius: '8px',
+  boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  border: 'none',
+  borderRadius: '4px',
+  backgroundColor: '#3498db',
+  color: '#fff',
+  cursor: 'pointer',
+};
+
+// Text fields of the profile, in form order.
+const textFields: { field: keyof Person; label: string; type?: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'email', label: 'Email', type: 'email' },
+  { field: 'phone', label: 'Phone', type: 'tel' },
+  { field: 'linkedin', label: 'LinkedIn', type: 'url' },
+  { field: 'position', label: 'Position applied for' },
+];
+
+const parseTags = (value: string) =>
+  value
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag !== '');
+
+const ProfilePage: React.FC = () => {
+  const router = useRouter();
+  const id = router.query.id as string | undefined;
+  const [user, setUser] = useState<PublicUser | null | undefined>(undefined);
+  const [data, setData] = useState<VersionedData | null>(null);
+  const [draft, setDraft] = useState<Person | null>(null);
+  // Tags are edited as text and only split when saved.
+  const [tagsText, setTagsText] = useState('');
+  const [errors, setErrors] = useState<FieldError[]>([]);
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+
+  const applyServerData = (loaded: VersionedData) => {
+    setData(loaded);
+    const person = loaded.nodes.find((n) => n.id === id) || null;
+    setDraft(person);
+    setTagsText((person?.tags || []).join(', '));
+  };
+
+  useEffect(() => {
+    api.fetchMe().then(setUser);
+  }, []);
+
+  useEffect(() => {
+    if (user && id) api.fetchData().then(applyServerData);
+  }, [user?.id, id]);
+
+  const save = async (revision: number) => {
+    if (!draft || !data) return;
+    // Left out rather than saved empty when there never were any.
+    const tags = parseTags(tagsText);
+    const person = tags.length || draft.tags ? { ...draft, tags } : draft;
+    const res = await api.updatePerson(person)(revision);
+    if (res.status === 401) {
+      setUser(null);
+      return;
+    }
+    const body = await res.json();
+    if (res.status === 409 && body.current) {
+      setConflict({ label: `Saving ${person.name}`, mine: person, server: body.current });
+      return;
+    }
+    if (!res.ok) {
+      setErrors(body.errors || [{ field: 'body', message: body.message }]);
+      return;
+    }
+    setErrors([]);
+    applyServerData(await api.fetchData());
+  };
+
+  const current = data?.nodes.find((n) => n.id === id);
+  const dirty =
+    !!current &&
+    !!draft &&
+    (JSON.stringify(current) !== JSON.stringify(draft) ||
+      tagsText !== (current.tags || []).join(', '));
+
+  // Others' changes show up as they are made. Unsaved edits are kept, on the
+  // revision they started from, so saving still asks about a conflict.
+  const live = useLive(
+    Boolean(user),
+    current && user ? { personId: current.id, editing: dirty && can(user, 'people:edit') } : null,
+    (change) => {
+      if (data && !dirty && change.revision > data.revision) {
+        api.fetchData().then(applyServerData);
+      }
+    },
+    () => {
+      if (!dirty) api.fetchData().then(applyServerData);
+    }
+  );
+
+  if (user === undefined) return null;
+  if (!user) return <LoginForm onLogin={setUser} />;
+  if (!data) return null;
+
+  const person = data.nodes.find((n) => n.id === id);
+  if (!person || !draft) {
+    return (
+      <div style={{ padding: '20px', fontFamily: 'Arial, sans-serif' }}>
+        <a href="/">← Pipeline</a>
+        <p>This person doesn't exist or isn't visible to you.</p>
+      </div>
+    );
+  }
+
+  const editable = can(user, 'people:edit');
+  const nameOf = (personId: string) => data.nodes.find((n) => n.id === personId)?.name;
+  const relationships = data.links.filter((l) => l.target === person.id || l.source === person.id);
+  const referredVia = referrerPath(person.id, data.links);
+  const referrals = referralTree(person.id, data.nodes, data.links);
+  const { upstream, downstream } = referralChain(person.id, data.links);
+  const inLoop = Array.from(downstream).some((id) => upstream.has(id));
+  const errorFor = (field: string) => errors.find((e) => e.field === field)?.message;
+  const update = (changes: Partial<Person>) => setDraft({ ...draft, ...changes });
+  // A closed requisition stays selectable for the people already on it.
+  const teams = openRequisitionNames(data.requisitions);
+  if (person.team && !teams.includes(person.team)) teams.push(person.team);
+
+  const profileLink = (personId: string) => (
+    <a href={`/people/${encodeURIComponent(personId)}`}>{nameOf(personId)}</a>
+  );
+
+  const renderReferrals = (tree: ReferralTree) => (
+    <ul>
+      {tree.referred.map((child) => (
+        <li key={child.person.id}>
+          {profileLink(child.person.id)} ({child.person.status})
+          {child.referred.length > 0 && renderReferrals(child)}
+        </li>
+      ))}
+    </ul>
+  );
+
+  // A link reads "target <label> source".
+  const describeLink = (link: Link) => {
+    const { label } = relationshipFor(link.type);
+    return link.target === person.id ? (
+      <>
+        {label} {profileLink(link.source)}
+      </>
+    ) : (
+      <>
+        {profileLink(link.target)} {label} {person.name}
+      </>
+    );
+  };
+
+  return (
+    <div
+      style={{
+        padding: '20px',
+        fontFamily: 'Arial, sans-serif',
+        backgroundColor: '#f5f5f5',
+        minHeight: '100vh',
+      }}
+    >
+      <div style={{ maxWidth: '800px', margin: '0 auto' }}>
+        <a href="/">← Pipeline</a>
+        <h1 style={{ color: '#333' }}>
+          {person.name} {person.starred ? '⭐' : ''}
+        </h1>
+        {presenceOn(live.others, person.id).length > 0 && (
+          <p style={{ color: '#666' }}>
+            Also open for: {describePresence(presenceOn(live.others, person.id))}
+          </p>
+        )}
+
+        <div style={sectionStyle}>
+          <h2 style={{ marginTop: 0 }}>Profile</h2>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px 20px' }}>
+            {textFields.map(({ field, label, type }) => (
+              <div key={field}>
+                <label style={{ display: 'block', marginBottom: '5px' }}>{label}</label>
+                <input
+                  type={type || 'text'}
+                  value={(draft[field] as string) || ''}
+                  disabled={!editable}
+                  onChange={(e) => update({ [field]: e.target.value })}
+                  style={inputStyle}
+                />
+                {errorFor(field) && (
+                  <div style={{ color: '#e74c3c', fontSize: '12px' }}>{errorFor(field)}</div>
+                )}
+              </div>
+            ))}
+            <div>
+              <label style={{ display: 'block', marginBottom: '5px' }}>Requisition</label>
+              <select
+                value={draft.team}
+                disabled={!editable}
+                onChange={(e) => update({ team: e.target.value })}
+                style={inputStyle}
+              >
+                <option value="">None</option>
+                {teams.map((team) => (
+                  <option key={team} value={team}>
+                    {team}
+                  </option>
+                ))}
+              </select>
+              {errorFor('team') && (
+                <div style={{ color: '#e74c3c', fontSize: '12px' }}>{errorFor('team')}</div>
+              )}
+            </div>
+            <div>
+              <label style={{ display: 'block', marginBottom: '5px' }}>Status</label>
+              <select
+                value={draft.status}
+                disabled={!editable}
+                onChange={(e) => update({ status: e.target.value })}
+                style={inputStyle}
+              >
+                {data.stages.map((stage) => (
+                  <option key={stage.id} value={stage.name}>
+                    {stage.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label style={{ display: 'block', marginBottom: '5px' }}>Source</label>
+              <input
+                type="text"
+                list="candidate-sources"
+                value={draft.source || ''}
+                disabled={!editable}
+                onChange={(e) => update({ source: e.target.value })}
+                style={inputStyle}
+              />
+              <datalist id="candidate-sources">
+                {candidateSources.map((source) => (
+                  <option key={source} value={source} />
+                ))}
+              </datalist>
+            </div>
+            {can(user, 'notes:read') && (
+              <div>
+                <label style={{ display: 'block', marginBottom: '5px' }}>Salary expectation</label>
+                <input
+                  type="text"
+                  value={draft.salaryExpectation || ''}
+                  disabled={!editable}
+                  onChange={(e) => update({ salaryExpectation: e.target.value })}
+                  style={inputStyle}
+                />
+              </div>
+            )}
+            <div>
+              <label style={{ display: 'block', marginBottom: '5px' }}>Tags, comma separated</label>
+              <input
+                type="text"
+                value={tagsText}
+                disabled={!editable}
+                onChange={(e) => setTagsText(e.target.value)}
+                style={inputStyle}
+              />
+            </div>
+            <div style={{ alignSelf: 'end' }}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={draft.starred}
+                  disabled={!editable}
+                  onChange={(e) => update({ starred: e.target.checked })}
+                  style={{ marginRight: '5px' }}
+                />
+                Starred
+              </label>
+            </div>
+          </div>
+          {can(user, 'notes:read') && (
+            <div style={{ marginTop: '10px' }}>
+              <label style={{ display: 'block', marginBottom: '5px' }}>Notes</label>
+              <textarea
+                value={draft.notes}
+                disabled={!editable}
+                onChange={(e) => update({ notes: e.target.value })}
+                style={{ ...inputStyle, minHeight: '100px' }}
+              />
+            </div>
+          )}
+          {errors
+            .filter((e) => e.field !== 'team' && !textFields.some(({ field }) => field === e.field))
+            .map((e) => (
+              <div key={e.field} style={{ color: '#e74c3c', marginTop: '10px' }}>
+                {e.field} {e.message}
+              </div>
+            ))}
+          {editable && (
+            <div style={{ marginTop: '15px', textAlign: 'right' }}>
+              <button onClick={() => save(data.revision)} style={buttonStyle}>
+                Save
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div style={sectionStyle}>
+          <h2 style={{ marginTop: 0 }}>Files</h2>
+          <AttachmentsPanel personId={person.id} editable={editable} />
+        </div>
+
+        {relationships.length > 0 && (
+          <div style={sectionStyle}>
+            <h2 style={{ marginTop: 0 }}>Relationships</h2>
+            <ul>
+              {relationships.map((link) => (
+                <li key={`${link.source}-${link.target}-${link.type}`}>{describeLink(link)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {(referredVia.length > 0 || (referrals && referrals.referred.length > 0)) && (
+          <div style={sectionStyle}>
+            <h2 style={{ marginTop: 0 }}>Referrals</h2>
+            {referredVia.length > 0 && (
+              <p>
+                Referred through{' '}
+                {[...referredVia].reverse().map((id) => (
+                  <React.Fragment key={id}>{profileLink(id)} → </React.Fragment>
+                ))}
+                {person.name}
+              </p>
+            )}
+            {inLoop && (
+              <p style={{ color: '#e74c3c' }}>
+                {person.name} is in a referral loop: someone they brought in is recorded as
+                referring them.
+              </p>
+            )}
+            {referrals && referrals.referred.length > 0 && (
+              <>
+                <p>
+                  Brought in {downstream.size} people over{' '}
+                  {treeDepth(referrals)} generation{treeDepth(referrals) === 1 ? '' : 's'}:
+                </p>
+                {renderReferrals(referrals)}
+              </>
+            )}
+          </div>
+        )}
+
+        {can(user, 'history:read') && (
+          <div style={sectionStyle}>
+            <h2 style={{ marginTop: 0 }}>History</h2>
+            <PersonTimeline personId={person.id} people={data.nodes} revision={data.revision} />
+          </div>
+        )}
+      </div>
+
+      {conflict && (
+        <ConflictDialog
+          conflict={conflict}
+          localNodes={data.nodes}
+          onOverwrite={() => {
+            setConflict(null);
+            save(conflict.server.revision);
+          }}
+          onDiscard={() => {
+            setConflict(null);
+            applyServerData(conflict.server);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProfilePage;
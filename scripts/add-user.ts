@@ -0,0 +1,63 @@
+// scripts/add-user.ts
+// Create an account, or update an existing one with the same username. Use
+// it to add the first admin, or to reset a password.
+//   yarn users:add <username> <role> [--name "Full Name"] [--team Team] [--password secret]
+// Without --password it is asked for.
+import readline from 'readline';
+import { hashPassword } from '../lib/auth/passwords';
+import { User } from '../lib/auth/types';
+import { findUserByUsername, updateUsers } from '../lib/auth/users';
+import { newId } from '../lib/ids';
+import { validateUser } from '../lib/validation';
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const i = args.indexOf(`--${name}`);
+  return i === -1 ? undefined : args.splice(i, 2)[1];
+};
+const name = option('name');
+const team = option('team');
+const givenPassword = option('password');
+const [username, role] = args;
+
+const ask = (question: string) =>
+  new Promise<string>((resolve) => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+
+async function main() {
+  const password = givenPassword ?? (await ask('Password: '));
+  const fields = { username, name: name || username, role, team, password };
+  const errors = validateUser(fields);
+  if (role === 'hiring_manager' && !team) {
+    errors.push({ field: 'team', message: 'is required for hiring managers' });
+  }
+  if (errors.length) {
+    errors.forEach((e) => console.error(`${e.field} ${e.message}`));
+    console.error('Usage: yarn users:add <username> <role> [--name …] [--team …] [--password …]');
+    process.exit(1);
+  }
+  const updated = updateUsers(({ users }) => {
+    const existing = findUserByUsername(users, username);
+    const user: User = {
+      ...(existing || { id: newId(), username }),
+      name: fields.name,
+      role,
+      ...(team ? { team } : {}),
+      passwordHash: hashPassword(password),
+    } as User;
+    if (existing) {
+      users.splice(users.indexOf(existing), 1, user);
+    } else {
+      users.push(user);
+    }
+    return Boolean(existing);
+  });
+  console.log(`${updated ? 'Updated' : 'Created'} ${username} (${role}).`);
+}
+
+main();
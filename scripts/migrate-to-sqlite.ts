@@ -0,0 +1,36 @@
+// scripts/migrate-to-sqlite.ts
+// One-shot import of an existing JSON data file into the SQLite backend.
+//   yarn migrate:sqlite [--force]
+import { dataFilePath, eventsFilePath, sqliteFilePath } from '../lib/storage';
+import { createJsonFileStorage } from '../lib/storage/jsonFile';
+import { createSqliteStorage } from '../lib/storage/sqlite';
+import { validateDataStructure } from '../lib/validation';
+
+const force = process.argv.includes('--force');
+
+const json = createJsonFileStorage(dataFilePath, eventsFilePath);
+const source = json.load();
+const errors = validateDataStructure(
+  source,
+  source.stages.map((stage) => stage.name)
+);
+if (errors.length) {
+  console.error(`${dataFilePath} is not a valid pipeline:`);
+  errors.forEach((e) => console.error(`  ${e.field}: ${e.message}`));
+  process.exit(1);
+}
+
+const target = createSqliteStorage(sqliteFilePath);
+if (target.load().nodes.length && !force) {
+  console.error(`${sqliteFilePath} already has people; pass --force to replace them.`);
+  process.exit(1);
+}
+
+// History first, so the import itself is recorded after it. A forced
+// re-import keeps the history already there.
+const history = target.listEvents().length ? [] : json.listEvents();
+target.transaction((tx) => tx.appendEvents(history), 'migration');
+const revision = target.save(source, 'migration');
+console.log(
+  `Imported ${source.nodes.length} people, ${source.links.length} links, ${source.interviews.length} interviews and ${history.length} history events into ${sqliteFilePath} (revision ${revision}).`
+);
@@ -0,0 +1,130 @@
+// scripts/mock-oidc.ts
+// A stand-in OpenID Connect provider for trying out OIDC sign-in locally.
+// Anyone can sign in as any username, with a verified email of
+// <username>@example.com unless the username is an email; do not expose it.
+//   yarn mock:oidc   (MOCK_OIDC_PORT, default 4011)
+// then start the app with
+//   OIDC_ISSUER=http://localhost:4011 OIDC_CLIENT_ID=hiring-pipeline OIDC_CLIENT_SECRET=secret
+import crypto from 'crypto';
+import http from 'http';
+
+const port = Number(process.env.MOCK_OIDC_PORT) || 4011;
+const issuer = `http://localhost:${port}`;
+const clientId = process.env.MOCK_OIDC_CLIENT_ID || 'hiring-pipeline';
+const clientSecret = process.env.MOCK_OIDC_CLIENT_SECRET || 'secret';
+
+// Codes handed out but not yet traded for a token.
+const codes = new Map<string, { username: string; nonce: string; redirectUri: string }>();
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const base64url = (value: object | Buffer) =>
+  (Buffer.isBuffer(value) ? value : Buffer.from(JSON.stringify(value))).toString('base64url');
+
+// An HS256 ID token signed with the client secret.
+function idToken(username: string, nonce: string) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url({ alg: 'HS256', typ: 'JWT' });
+  const payload = base64url({
+    iss: issuer,
+    aud: clientId,
+    sub: `mock|${username}`,
+    preferred_username: username,
+    email: username.includes('@') ? username : `${username}@example.com`,
+    email_verified: true,
+    name: username,
+    nonce,
+    iat: now,
+    exp: now + 300,
+  });
+  const signature = crypto
+    .createHmac('sha256', clientSecret)
+    .update(`${header}.${payload}`)
+    .digest();
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+const readBody = (req: http.IncomingMessage) =>
+  new Promise<string>((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+  });
+
+const send = (
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  type = 'application/json'
+) => {
+  res.writeHead(status, { 'Content-Type': type });
+  res.end(type === 'application/json' ? JSON.stringify(body) : String(body));
+};
+
+http
+  .createServer(async (req, res) => {
+    const url = new URL(req.url || '/', issuer);
+    const query = url.searchParams;
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      send(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['HS256'],
+      });
+    } else if (url.pathname === '/authorize' && !query.get('username')) {
+      if (query.get('client_id') !== clientId)
+        return send(res, 400, 'Unknown client', 'text/plain');
+      // Ask who to sign in as, keeping the request's parameters.
+      const hidden = Array.from(query)
+        .map(([k, v]) => `<input type="hidden" name="${escapeHtml(k)}" value="${escapeHtml(v)}">`)
+        .join('');
+      send(
+        res,
+        200,
+        `<form>${hidden}<label>Sign in to the mock provider as <input name="username" autofocus></label> <button>Continue</button></form>`,
+        'text/html'
+      );
+    } else if (url.pathname === '/authorize') {
+      const code = crypto.randomBytes(16).toString('hex');
+      const redirectUri = query.get('redirect_uri') || '';
+      codes.set(code, {
+        username: query.get('username')!,
+        nonce: query.get('nonce') || '',
+        redirectUri,
+      });
+      const back = new URL(redirectUri);
+      back.searchParams.set('code', code);
+      back.searchParams.set('state', query.get('state') || '');
+      res.writeHead(302, { Location: back.toString() });
+      res.end();
+    } else if (url.pathname === '/token' && req.method === 'POST') {
+      const form = new URLSearchParams(await readBody(req));
+      const [id, secret] = Buffer.from(
+        (req.headers.authorization || '').replace(/^Basic /, ''),
+        'base64'
+      )
+        .toString()
+        .split(':')
+        .map(decodeURIComponent);
+      const grant = codes.get(form.get('code') || '');
+      codes.delete(form.get('code') || '');
+      if (id !== clientId || secret !== clientSecret)
+        return send(res, 401, { error: 'invalid_client' });
+      if (!grant || grant.redirectUri !== form.get('redirect_uri')) {
+        return send(res, 400, { error: 'invalid_grant' });
+      }
+      send(res, 200, {
+        access_token: crypto.randomBytes(16).toString('hex'),
+        token_type: 'Bearer',
+        expires_in: 300,
+        id_token: idToken(grant.username, grant.nonce),
+      });
+    } else {
+      send(res, 404, 'Not found', 'text/plain');
+    }
+  })
+  .listen(port, () => console.log(`Mock OIDC provider on ${issuer}`));
@@ -0,0 +1,29 @@
+// scripts/repair-ids.ts
+// Detect people sharing an id in the configured storage and give the
+// duplicates fresh ids, rewriting links to match.
+//   yarn repair:ids [--dry-run]
+import { newId } from '../lib/ids';
+import { repairDuplicateIds } from '../lib/repairIds';
+import { getStorage } from '../lib/storage';
+
+const dryRun = process.argv.includes('--dry-run');
+
+const storage = getStorage();
+const { data, renamed, ambiguous } = repairDuplicateIds(storage.load(), newId);
+
+if (!renamed.length) {
+  console.log('No duplicate ids found.');
+  process.exit(0);
+}
+
+renamed.forEach((r) => console.log(`${r.name}: ${r.from} -> ${r.to}`));
+ambiguous.forEach((l) =>
+  console.warn(`Check link ${l.source} -> ${l.target}: assigned by best guess`)
+);
+
+if (dryRun) {
+  console.log(`Dry run: ${renamed.length} people would be renumbered.`);
+} else {
+  const revision = storage.save(data, 'repair:ids');
+  console.log(`Renumbered ${renamed.length} people (revision ${revision}).`);
+}
@@ -0,0 +1,15 @@
+// scripts/run-notifications.ts
+// Check the notification rules and send what is due once, e.g. from cron
+// when the server isn't running.
+//   yarn notify
+import { runNotifications } from '../lib/notifications/engine';
+
+runNotifications()
+  .then(({ queued, sent, failed, problems }) => {
+    problems.forEach((problem) => console.error(`Rule problem: ${problem}`));
+    console.log(`Queued ${queued}, sent ${sent}, gave up on ${failed}.`);
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
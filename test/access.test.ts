@@ -0,0 +1,44 @@
+// test/access.test.ts
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { canRevert, scopeEvents } from '../lib/auth/access';
+import { Feedback, PipelineEvent } from '../lib/types';
+
+const manager = { role: 'hiring_manager' as const, name: 'Hana', team: 'Backend' };
+const data = {
+  nodes: [
+    { id: '1', name: 'Ann', status: 'Applied', starred: false, team: 'Backend', notes: '' },
+    { id: '2', name: 'Bob', status: 'Applied', starred: false, team: 'Frontend', notes: '' },
+  ],
+  interviews: [],
+};
+const event = (fields: Partial<PipelineEvent>): PipelineEvent => ({
+  revision: 1,
+  at: '2026-01-01T00:00:00.000Z',
+  actor: 'Rita',
+  type: 'updated',
+  personIds: [],
+  ...fields,
+});
+
+test('hiring managers see only changes to their own candidates', () => {
+  const events = [
+    event({ personIds: ['1'] }),
+    event({ personIds: ['2'] }),
+    event({ type: 'stages_changed' }),
+    event({ type: 'requisition_added' }),
+  ];
+  assert.deepEqual(scopeEvents(manager, events, data), [events[0]]);
+});
+
+test('undoing a change needs the permission making it needs', () => {
+  const scorecard = { id: 'f1', personId: '1', interviewer: 'Ivan' } as Feedback;
+  assert.equal(canRevert(manager, event({ personIds: ['1'] })), true);
+  assert.equal(canRevert(manager, event({ type: 'stages_changed' })), false);
+  assert.equal(canRevert(manager, event({ type: 'created', personIds: ['1'] })), false);
+  assert.equal(canRevert(manager, event({ type: 'feedback_added', scorecard })), false);
+  assert.equal(
+    canRevert({ ...manager, name: 'ivan' }, event({ type: 'feedback_added', scorecard })),
+    true
+  );
+});
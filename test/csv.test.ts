@@ -0,0 +1,16 @@
+// test/csv.test.ts
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseCsv, toCsv, unguardFormula } from '../lib/csv';
+
+test('cells a spreadsheet would run as formulas are written after a quote', () => {
+  assert.equal(
+    toCsv([['=HYPERLINK("http://x")', '+1', '-2', '@SUM(A1)', 'Ann']]),
+    `"'=HYPERLINK(""http://x"")",'+1,'-2,'@SUM(A1),Ann\r\n`
+  );
+});
+
+test('guarded cells read back as they were', () => {
+  const row = ['=1+1', "'=1+1", "'quoted", 'a,b', 'line\nbreak', '-'];
+  assert.deepEqual(parseCsv(toCsv([row]))[0].map(unguardFormula), row);
+});
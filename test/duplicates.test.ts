@@ -0,0 +1,25 @@
+// test/duplicates.test.ts
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { repointFeedback } from '../lib/duplicates';
+import { Feedback } from '../lib/types';
+
+const scorecard = (id: string, personId: string, stage: string, interviewer: string) =>
+  ({ id, personId, stage, interviewer }) as Feedback;
+
+test('merging keeps feedback once per interviewer and stage', () => {
+  const feedback = [
+    scorecard('1', 'keep', 'Phone screen', 'Ivan'),
+    scorecard('2', 'dup', 'Phone screen', 'ivan '),
+    scorecard('3', 'dup', 'Onsite', 'Ivan'),
+    scorecard('4', 'dup', 'Phone screen', 'Olga'),
+    scorecard('5', 'other', 'Onsite', 'Olga'),
+  ];
+  assert.deepEqual(
+    repointFeedback('keep', 'dup', feedback).map((f) => [f.id, f.personId]),
+    [
+      ['3', 'keep'],
+      ['4', 'keep'],
+    ]
+  );
+});
@@ -0,0 +1,98 @@
+// test/peopleIds.test.ts
+// Adding, deleting and adding again through the API never reuses an id.
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, test } from 'node:test';
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-test-'));
+// Set before the routes are loaded, as the stores read them once.
+Object.assign(process.env, {
+  DATA_FILE: path.join(dir, 'data.json'),
+  EVENTS_FILE: path.join(dir, 'data.events.jsonl'),
+  USERS_FILE: path.join(dir, 'data.users.json'),
+  BACKUPS_DIR: path.join(dir, 'backups'),
+});
+
+let people: NextApiHandler;
+let person: NextApiHandler;
+const session = 'test-session';
+
+before(async () => {
+  const { updateUsers } = await import('../lib/auth/users');
+  updateUsers((store) => {
+    store.users.push({ id: 'admin', username: 'admin', name: 'Ada Admin', role: 'admin' });
+    store.sessions.push({
+      id: session,
+      userId: 'admin',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+  });
+  people = (await import('../pages/api/people')).default;
+  person = (await import('../pages/api/people/[id]')).default;
+});
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+// Calls a route as the signed-in admin and resolves with its answer.
+function call(
+  handler: NextApiHandler,
+  method: string,
+  { query = {}, body }: { query?: Record<string, string>; body?: unknown } = {}
+): Promise<{ status: number; body: any }> {
+  return new Promise((resolve) => {
+    let status = 200;
+    const req = {
+      method,
+      query,
+      body,
+      headers: {},
+      cookies: { session },
+    } as unknown as NextApiRequest;
+    const res = {
+      setHeader: () => res,
+      status: (code: number) => {
+        status = code;
+        return res;
+      },
+      json: (json: unknown) => resolve({ status, body: json }),
+      end: (text?: string) => resolve({ status, body: text && JSON.parse(text) }),
+    } as unknown as NextApiResponse;
+    handler(req, res);
+  });
+}
+
+const add = async (name: string, referredBy?: string) => {
+  const { status, body } = await call(people, 'POST', {
+    body: { name, status: 'To do', starred: false, notes: '', team: '', referredBy },
+  });
+  assert.equal(status, 201, JSON.stringify(body));
+  return body.id as string;
+};
+
+const remove = async (id: string) =>
+  assert.equal((await call(person, 'DELETE', { query: { id } })).status, 204);
+
+test('a person added after a delete gets an id nobody had', async () => {
+  const ann = await add('Ann');
+  const bob = await add('Bob', ann);
+  await remove(bob);
+  const cat = await add('Cat', ann);
+  await remove(ann);
+  const dan = await add('Dan', cat);
+
+  const ids = [ann, bob, cat, dan];
+  assert.equal(new Set(ids).size, ids.length);
+  const data = JSON.parse(fs.readFileSync(process.env.DATA_FILE!, 'utf8'));
+  assert.deepEqual(
+    data.nodes.map((n: { id: string; name: string }) => [n.id, n.name]),
+    [
+      [cat, 'Cat'],
+      [dan, 'Dan'],
+    ]
+  );
+  // Only Cat's referral of Dan is left, Ann's links having gone with her.
+  assert.deepEqual(data.links, [{ source: cat, target: dan, type: 'referred_by' }]);
+});
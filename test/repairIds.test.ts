@@ -0,0 +1,88 @@
+// test/repairIds.test.ts
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { repairDuplicateIds } from '../lib/repairIds';
+import { Link, Person } from '../lib/types';
+
+const person = (id: string, name: string): Person => ({
+  id,
+  name,
+  status: 'To do',
+  starred: false,
+  notes: '',
+  team: '',
+});
+
+const referral = (source: string, target: string): Link => ({
+  source,
+  target,
+  type: 'referred_by',
+});
+
+// Hands out new-1, new-2, … so the renamed ids are predictable.
+const counter = () => {
+  let n = 0;
+  return () => `new-${++n}`;
+};
+
+test('a person added after a delete gets a new id, and their link follows them', () => {
+  // Ann referred Bob as 2; Bob was deleted and Cat was added as 2 again.
+  const { data, renamed, ambiguous } = repairDuplicateIds(
+    {
+      nodes: [person('1', 'Ann'), person('2', 'Dan'), person('2', 'Cat')],
+      links: [referral('1', '2'), referral('1', '2')],
+    },
+    counter()
+  );
+  assert.deepEqual(
+    data.nodes.map((n) => [n.id, n.name]),
+    [
+      ['1', 'Ann'],
+      ['2', 'Dan'],
+      ['new-1', 'Cat'],
+    ]
+  );
+  assert.deepEqual(renamed, [{ name: 'Cat', from: '2', to: 'new-1' }]);
+  assert.deepEqual(data.links, [referral('1', '2'), referral('1', 'new-1')]);
+  assert.deepEqual(ambiguous, []);
+});
+
+test('links from a duplicated id stay with the first person and are reported', () => {
+  const { data, ambiguous } = repairDuplicateIds(
+    {
+      nodes: [person('1', 'Ann'), person('2', 'Dan'), person('2', 'Cat'), person('3', 'Eve')],
+      links: [referral('1', '2'), referral('1', '2'), referral('2', '3')],
+    },
+    counter()
+  );
+  assert.deepEqual(data.links[2], referral('2', '3'));
+  assert.deepEqual(ambiguous, [referral('2', '3')]);
+});
+
+test('more links to a duplicated id than people with it go to the last one', () => {
+  const { data, ambiguous } = repairDuplicateIds(
+    {
+      nodes: [person('1', 'Ann'), person('2', 'Dan'), person('2', 'Cat'), person('3', 'Eve')],
+      links: [referral('1', '2'), referral('3', '2'), referral('1', '2')],
+    },
+    counter()
+  );
+  assert.deepEqual(data.links, [
+    referral('1', '2'),
+    referral('3', 'new-1'),
+    referral('1', 'new-1'),
+  ]);
+  assert.deepEqual(ambiguous, [referral('1', '2')]);
+});
+
+test('links that end up the same are kept once', () => {
+  const { data, renamed } = repairDuplicateIds(
+    {
+      nodes: [person('1', 'Ann'), person('2', 'Dan')],
+      links: [referral('1', '2'), referral('1', '2'), referral('2', '1')],
+    },
+    counter()
+  );
+  assert.deepEqual(renamed, []);
+  assert.deepEqual(data.links, [referral('1', '2'), referral('2', '1')]);
+});